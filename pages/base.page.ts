@@ -1,4 +1,37 @@
 import { Page, Locator } from '@playwright/test';
+import { A11yOptions, A11yViolation, auditAccessibility } from '../utils/a11y';
+import { EnvConfig, getEnvConfig } from '../utils/env';
+import { FallbackChain, resolveFallback } from '../utils/locator-fallback';
+import { VisualOptions, expectVisual } from '../utils/visual';
+import { BaseComponent, ComponentClass } from './components/base.component';
+
+/** A page object class: constructed from a Playwright Page. */
+export type PageObjectClass<P extends BasePage = BasePage> = new (page: Page) => P;
+
+// One instance per page object class and Page, shared by the `pages` fixture and navigatesTo()
+const instances = new WeakMap<Page, Map<PageObjectClass, BasePage>>();
+
+/**
+ * Get the page object of a class for a Playwright Page, creating it on
+ * first use. The same Page always gets the same instance, so the `pages`
+ * fixture and page objects returned by navigation methods agree.
+ *
+ * @example
+ *   const login = pageObject(page, LoginPage);
+ */
+export function pageObject<P extends BasePage>(page: Page, PageClass: PageObjectClass<P>): P {
+  let cache = instances.get(page);
+  if (!cache) {
+    cache = new Map();
+    instances.set(page, cache);
+  }
+  let instance = cache.get(PageClass);
+  if (!instance) {
+    instance = new PageClass(page);
+    cache.set(PageClass, instance);
+  }
+  return instance as P;
+}
 
 /**
  * BasePage - Foundation for the Page Object Model (POM)
@@ -39,6 +72,14 @@ export class BasePage {
    */
   readonly page: Page;
 
+  /**
+   * The resolved environment configuration (see utils/env.ts).
+   *
+   * Read URLs, credentials and feature flags from here instead of
+   * process.env so every page object sees the same validated values.
+   */
+  readonly env: EnvConfig;
+
   /**
    * Creates a new BasePage instance.
    *
@@ -52,6 +93,7 @@ export class BasePage {
    */
   constructor(page: Page) {
     this.page = page;
+    this.env = getEnvConfig();
   }
 
   /**
@@ -147,6 +189,112 @@ export class BasePage {
     return this.page.getByRole(role, options);
   }
 
+  /**
+   * Find an element through an ordered fallback chain of selectors.
+   *
+   * One renamed label should not break every test that touches the element.
+   * List the ways to find it, best first (role → label → test id); the
+   * first strategy that matches exactly one element is used. If that is not
+   * the first strategy, the test still passes but a "selector drift" is
+   * reported (warning, selector-drift.json attachment and the run's drift
+   * report), so the primary selector gets fixed rather than silently
+   * relying on the fallback.
+   *
+   * Keys name the strategies in the report; their order is the priority.
+   *
+   * @param element - The element's name, as it should appear in the report
+   * @param chain - Locators to try, in priority order
+   * @returns The locator of the strategy that matched
+   * @throws Error listing each strategy's match count if none matches exactly once
+   *
+   * @example
+   *   async fillEmail(email: string): Promise<void> {
+   *     const input = await this.locate('emailInput', {
+   *       role: this.page.getByRole('textbox', { name: 'Email' }),
+   *       label: this.page.getByLabel(/e-?mail/i),
+   *       testId: this.page.getByTestId('email'),
+   *     });
+   *     await input.fill(email);
+   *   }
+   */
+  protected async locate(element: string, chain: FallbackChain): Promise<Locator> {
+    return resolveFallback(chain, { owner: this.constructor.name, element });
+  }
+
+  /**
+   * Declare a reusable component (table, dialog, toast, ...) on this page.
+   *
+   * Components are scoped to a root locator, so pick the root with a
+   * role-first selector just like any other element. Because locators are
+   * lazy, components can be declared as readonly fields — the element does
+   * not need to exist yet. See pages/components/ for the standard ones.
+   *
+   * @param Component - The component class (e.g. DataTable)
+   * @param root - The component's root element
+   * @param args - Extra constructor arguments, if the component takes any
+   * @returns The component instance
+   *
+   * @example
+   *   class UsersPage extends BasePage {
+   *     readonly table = this.component(DataTable, this.page.getByRole('table', { name: 'Users' }));
+   *     readonly toasts = this.component(Toast, this.page.getByRole('region', { name: 'Notifications' }));
+   *   }
+   */
+  protected component<C extends BaseComponent, A extends unknown[]>(
+    Component: ComponentClass<C, A>,
+    root: Locator,
+    ...args: A
+  ): C {
+    return new Component(root, ...args);
+  }
+
+  /**
+   * Hand over to the page object for the page a navigation leads to.
+   *
+   * Navigation methods return the next page object instead of void, so a
+   * flow chains with full type safety and the test never constructs page
+   * objects itself. The returned instance is the same one the `pages`
+   * fixture exposes.
+   *
+   * @param PageClass - The page object class of the destination page
+   * @returns The destination page object, on the same Playwright Page
+   *
+   * @example
+   *   async login(username: string, password: string): Promise<HomePage> {
+   *     // ... fill and submit the form
+   *     return this.navigatesTo(HomePage);
+   *   }
+   *
+   *   const home = await pages.login.login('admin', 'secret');
+   *   await expect(home.heading).toBeVisible();
+   */
+  protected navigatesTo<P extends BasePage>(PageClass: PageObjectClass<P>): P {
+    return pageObject(this.page, PageClass);
+  }
+
+  /**
+   * Run the built-in accessibility checks on the page (see utils/a11y.ts).
+   *
+   * Missing names on buttons and links, unlabeled fields, images without
+   * alt text, skipped heading levels, duplicate IDs, a missing main landmark
+   * and low color contrast are reported, each with a CSS selector for the
+   * element, and attached to the test as a11y-violations.json.
+   *
+   * To enforce the checks on every page object, call this after each
+   * navigation method's page has loaded — or assert with
+   * `expect(page).toPassA11yChecks()`, which lists the violations on failure.
+   *
+   * @param options - Rules to run (default: all) and selectors to skip
+   * @returns The violations; empty if the page passed
+   *
+   * @example
+   *   const violations = await loginPage.auditAccessibility({ exclude: ['#chat-widget'] });
+   *   expect(violations).toEqual([]);
+   */
+  async auditAccessibility(options?: A11yOptions): Promise<A11yViolation[]> {
+    return auditAccessibility(this.page, options);
+  }
+
   /**
    * Get the current page URL.
    *
@@ -160,11 +308,47 @@ export class BasePage {
     return this.page.url();
   }
 
+  /**
+   * Regions masked in every expectVisual() screenshot of this page.
+   *
+   * Override in page objects to hide content that changes between runs —
+   * timestamps, avatars, ads, live counters — so it never causes a diff.
+   *
+   * @example
+   *   protected get visualMasks(): Locator[] {
+   *     return [this.page.locator('time'), this.page.getByRole('img', { name: /avatar/i })];
+   *   }
+   */
+  protected get visualMasks(): Locator[] {
+    return [];
+  }
+
+  /**
+   * Compare a screenshot of the page with its baseline (see utils/visual.ts).
+   *
+   * Waits for network idle and web fonts, freezes animations and the caret,
+   * and masks this page object's visualMasks plus any passed in. Baselines
+   * are kept per platform and browser project; the first run writes a
+   * missing baseline and fails, so it gets reviewed and committed.
+   * Review changed screenshots with `npm run visual:review`.
+   *
+   * @param name - Baseline name, without extension (e.g. 'login-empty')
+   * @param options - Extra masks, an element to capture instead of the page, tolerances
+   *
+   * @example
+   *   await loginPage.expectVisual('login-empty');
+   *   await loginPage.expectVisual('login-error', { target: loginPage.errorMessage, maxDiffPixels: 10 });
+   */
+  async expectVisual(name: string, options: VisualOptions = {}): Promise<void> {
+    await expectVisual(this.page, name, { ...options, mask: [...this.visualMasks, ...(options.mask ?? [])] });
+  }
+
   /**
    * Take a screenshot of the current page state.
    *
-   * Useful for visual debugging. Screenshots are also automatically captured
-   * on test failure (configured in playwright.config.ts).
+   * Useful for visual debugging — it is not compared with anything; use
+   * expectVisual() for visual regression checks. Screenshots are also
+   * automatically captured on test failure (configured in playwright.config.ts).
    *
    * @param name - A descriptive name for the screenshot file
    *
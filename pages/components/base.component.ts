@@ -0,0 +1,110 @@
+import { Locator, Page } from '@playwright/test';
+
+/**
+ * A component class: takes the root Locator plus any extra constructor
+ * arguments (e.g. DataTable's options).
+ */
+export type ComponentClass<C extends BaseComponent, A extends unknown[] = []> = new (root: Locator, ...args: A) => C;
+
+/**
+ * BaseComponent - Foundation for reusable UI components
+ *
+ * BasePage models a whole page. Most apps also repeat the same widgets
+ * across pages — tables, dialogs, toasts, dropdowns. A component object
+ * models one of those widgets, scoped to its root element, so the same
+ * class works wherever the widget appears:
+ *
+ *   1. Scoped selectors - Every lookup starts from the root Locator, so two
+ *      tables on one page never see each other's rows.
+ *   2. Composition - Page objects (and bigger components) declare their
+ *      children with component(), instead of repeating selectors.
+ *   3. Same selector strategy - Prefer getByRole(), then getByLabel(), then
+ *      getByTestId(), exactly as in LoginPage.
+ *
+ * How to use:
+ *   - Pick the root with a role-first locator on the page object
+ *   - Declare it with this.component(ComponentClass, root)
+ *   - Call the component's actions from tests instead of raw selectors
+ *
+ * Example:
+ *   class UsersPage extends BasePage {
+ *     readonly table = this.component(DataTable, this.page.getByRole('table', { name: 'Users' }));
+ *     readonly deleteDialog = this.component(Dialog, this.page.getByRole('dialog', { name: 'Delete user' }));
+ *   }
+ *
+ *   await usersPage.table.sortBy('Email');
+ *   const row = await usersPage.table.row('Email', 'ada@example.com');
+ *
+ * See pages/components/ for the standard components (DataTable, Dialog,
+ * Toast, Select).
+ */
+export class BaseComponent {
+  /**
+   * The component's root element. Locators are lazy, so a component can be
+   * declared before its element is rendered.
+   */
+  readonly root: Locator;
+
+  /** The page the root belongs to, for lookups outside the root (e.g. popups). */
+  readonly page: Page;
+
+  /**
+   * @param root - A locator for the component's outermost element
+   */
+  constructor(root: Locator) {
+    this.root = root;
+    this.page = root.page();
+  }
+
+  /**
+   * Declare a child component, scoped to a locator (usually inside this.root).
+   *
+   * @example
+   *   class UserCard extends BaseComponent {
+   *     readonly roleSelect = this.component(Select, this.root.getByRole('combobox', { name: 'Role' }));
+   *   }
+   */
+  protected component<C extends BaseComponent, A extends unknown[]>(
+    Component: ComponentClass<C, A>,
+    root: Locator,
+    ...args: A
+  ): C {
+    return new Component(root, ...args);
+  }
+
+  /**
+   * Find an element inside the component by its ARIA role (the preferred strategy).
+   */
+  getByRole(role: Parameters<Locator['getByRole']>[0], options?: Parameters<Locator['getByRole']>[1]): Locator {
+    return this.root.getByRole(role, options);
+  }
+
+  /**
+   * Find a form control inside the component by its label.
+   */
+  getByLabel(text: string | RegExp, options?: { exact?: boolean }): Locator {
+    return this.root.getByLabel(text, options);
+  }
+
+  /**
+   * Find an element inside the component by its data-testid (fallback strategy).
+   */
+  getByTestId(testId: string): Locator {
+    return this.root.getByTestId(testId);
+  }
+
+  /** Whether the root element is currently visible (does not wait). */
+  async isVisible(): Promise<boolean> {
+    return this.root.isVisible();
+  }
+
+  /** Wait until the root element is visible. */
+  async waitForVisible(): Promise<void> {
+    await this.root.waitFor({ state: 'visible' });
+  }
+
+  /** Wait until the root element is hidden or removed. */
+  async waitForHidden(): Promise<void> {
+    await this.root.waitFor({ state: 'hidden' });
+  }
+}
@@ -0,0 +1,225 @@
+import { Locator, expect } from '@playwright/test';
+import { BaseComponent } from './base.component';
+
+/** An aria-sort direction a column can be sorted in. */
+export type SortDirection = 'ascending' | 'descending';
+
+export interface DataTableOptions {
+  /**
+   * The pagination controls for this table. Defaults to the page's
+   * navigation landmark named like "Pagination".
+   */
+  pagination?: Locator;
+}
+
+/** Escape a string for use inside a RegExp. */
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * DataTable - Component for a data table with sorting and pagination
+ *
+ * Works with semantic tables (<table>, or role="table" markup):
+ * columns are found by their header text, rows by the value in a column.
+ * Looking rows up by content instead of position keeps tests stable when
+ * the data, order or page size changes.
+ *
+ * Sorting uses aria-sort on the column header, which accessible tables
+ * set anyway. Pagination uses Next/Previous and numbered page controls,
+ * with the current page marked aria-current="page".
+ *
+ * ADAPT THIS: if your table has no column headers, no aria-sort, or its
+ * pagination uses different names, subclass and override the getter or
+ * method involved.
+ *
+ * @example
+ *   const table = new DataTable(page.getByRole('table', { name: 'Users' }));
+ *
+ *   const row = await table.row('Email', 'ada@example.com');
+ *   await expect(await table.cell(row, 'Role')).toHaveText('admin');
+ *
+ *   await table.sortBy('Created', 'descending');
+ *   const lastPageRow = await table.findRow('Email', 'zed@example.com');
+ */
+export class DataTable extends BaseComponent {
+  /** Pagination controls (see DataTableOptions). */
+  readonly pagination: Locator;
+
+  /**
+   * @param root - The table element, e.g. page.getByRole('table', { name: 'Users' })
+   * @param options - Where the table's pagination controls are
+   */
+  constructor(root: Locator, options: DataTableOptions = {}) {
+    super(root);
+    this.pagination = options.pagination ?? this.page.getByRole('navigation', { name: /pagination/i });
+  }
+
+  // ---------------------------------------------------------------------------
+  // Selectors
+  // ---------------------------------------------------------------------------
+
+  /** All column header cells. */
+  get columnHeaders(): Locator {
+    return this.root.getByRole('columnheader');
+  }
+
+  /** Data rows — rows with at least one cell, so the header row is skipped. */
+  get rows(): Locator {
+    return this.root.getByRole('row').filter({ has: this.page.getByRole('cell') });
+  }
+
+  /** The header cell of a column. */
+  columnHeader(column: string): Locator {
+    return this.root.getByRole('columnheader', { name: column, exact: true });
+  }
+
+  // ---------------------------------------------------------------------------
+  // Rows and cells
+  // ---------------------------------------------------------------------------
+
+  /** The header texts, in column order. */
+  async headers(): Promise<string[]> {
+    return (await this.columnHeaders.allInnerTexts()).map((text) => text.trim());
+  }
+
+  /**
+   * The zero-based position of a column.
+   *
+   * @throws Error listing the table's columns if none matches
+   */
+  async columnIndex(column: string): Promise<number> {
+    const headers = await this.headers();
+    const index = headers.indexOf(column);
+    if (index === -1) {
+      throw new Error(`[components] DataTable has no column "${column}". Columns: ${headers.join(', ')}`);
+    }
+    return index;
+  }
+
+  /**
+   * The row(s) whose cell in `column` has exactly this text (or matches the
+   * RegExp). The locator may match nothing — check it with expect().
+   *
+   * @example
+   *   const row = await table.row('Email', 'ada@example.com');
+   *   await row.getByRole('button', { name: 'Edit' }).click();
+   */
+  async row(column: string, value: string | RegExp): Promise<Locator> {
+    const index = await this.columnIndex(column);
+    const text = typeof value === 'string' ? new RegExp(`^\\s*${escapeRegExp(value)}\\s*$`) : value;
+    return this.rows.filter({ has: this.page.getByRole('cell').nth(index).filter({ hasText: text }) });
+  }
+
+  /** A row's cell in the given column. */
+  async cell(row: Locator, column: string): Promise<Locator> {
+    return row.getByRole('cell').nth(await this.columnIndex(column));
+  }
+
+  /** The texts of one column on the current page, top to bottom. */
+  async columnValues(column: string): Promise<string[]> {
+    const index = await this.columnIndex(column);
+    const texts = await Promise.all((await this.rows.all()).map((row) => row.getByRole('cell').nth(index).innerText()));
+    return texts.map((text) => text.trim());
+  }
+
+  // ---------------------------------------------------------------------------
+  // Sorting
+  // ---------------------------------------------------------------------------
+
+  /** The column's current aria-sort value ('none' when unsorted). */
+  async sortDirection(column: string): Promise<SortDirection | 'none' | 'other'> {
+    const value = (await this.columnHeader(column).getAttribute('aria-sort')) ?? 'none';
+    return value === 'ascending' || value === 'descending' || value === 'none' ? value : 'other';
+  }
+
+  /**
+   * Sort by a column, clicking its header (or the sort button inside it)
+   * until aria-sort reports the direction. Most tables cycle through
+   * ascending, descending and unsorted, so this takes at most three clicks.
+   *
+   * @throws Error if the header never reaches the direction
+   */
+  async sortBy(column: string, direction: SortDirection = 'ascending'): Promise<void> {
+    const header = this.columnHeader(column);
+    const button = header.getByRole('button');
+    const target = (await button.count()) > 0 ? button.first() : header;
+
+    for (let clicks = 0; clicks < 3; clicks++) {
+      const current = await this.sortDirection(column);
+      if (current === direction) return;
+      await target.click();
+      await expect.poll(() => this.sortDirection(column), { message: `aria-sort of "${column}" to change` }).not.toBe(current);
+    }
+    if ((await this.sortDirection(column)) !== direction) {
+      throw new Error(`[components] Column "${column}" did not sort ${direction} after 3 clicks. Does its header set aria-sort?`);
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Pagination
+  // ---------------------------------------------------------------------------
+
+  /** The Next page control (a link or a button). */
+  get nextPageControl(): Locator {
+    return this.pagination.getByRole('link', { name: /next/i }).or(this.pagination.getByRole('button', { name: /next/i }));
+  }
+
+  /** The Previous page control (a link or a button). */
+  get previousPageControl(): Locator {
+    return this.pagination.getByRole('link', { name: /prev/i }).or(this.pagination.getByRole('button', { name: /prev/i }));
+  }
+
+  /** The label of the current page (the control with aria-current="page"), e.g. '2'. */
+  async currentPage(): Promise<string> {
+    return (await this.pagination.locator('[aria-current="page"]').innerText()).trim();
+  }
+
+  /** Whether there is a next page: the control exists and is not disabled. */
+  async hasNextPage(): Promise<boolean> {
+    const next = this.nextPageControl.first();
+    if (!(await next.isVisible())) return false;
+    return (await next.isEnabled()) && (await next.getAttribute('aria-disabled')) !== 'true';
+  }
+
+  /** Go to the next page and wait for it to become current. */
+  async nextPage(): Promise<void> {
+    await this.changePage(this.nextPageControl.first());
+  }
+
+  /** Go to the previous page and wait for it to become current. */
+  async previousPage(): Promise<void> {
+    await this.changePage(this.previousPageControl.first());
+  }
+
+  /** Go to a numbered page and wait for it to become current. */
+  async goToPage(page: number): Promise<void> {
+    const name = String(page);
+    const control = this.pagination.getByRole('link', { name, exact: true }).or(this.pagination.getByRole('button', { name, exact: true }));
+    await control.first().click();
+    await expect.poll(() => this.currentPage(), { message: `page ${page} to become current` }).toBe(name);
+  }
+
+  /**
+   * Like row(), but pages forward from the current page until the row is found.
+   *
+   * @throws Error if the last page is reached without a match
+   */
+  async findRow(column: string, value: string | RegExp): Promise<Locator> {
+    for (;;) {
+      const row = await this.row(column, value);
+      if ((await row.count()) > 0) return row;
+      if (!(await this.hasNextPage())) {
+        throw new Error(`[components] No row with ${column} = ${String(value)} on any page up to page ${await this.currentPage()}`);
+      }
+      await this.nextPage();
+    }
+  }
+
+  /** Click a page control, then wait until the current page changes. */
+  private async changePage(control: Locator): Promise<void> {
+    const before = await this.currentPage();
+    await control.click();
+    await expect.poll(() => this.currentPage(), { message: 'the current page to change' }).not.toBe(before);
+  }
+}
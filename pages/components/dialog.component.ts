@@ -0,0 +1,107 @@
+import { Locator } from '@playwright/test';
+import { BaseComponent } from './base.component';
+
+/**
+ * Dialog - Component for modal dialogs and confirmations
+ *
+ * Root it on the dialog's role and accessible name (its title), so a test
+ * never acts on the wrong modal when several can open:
+ *
+ *   page.getByRole('dialog', { name: 'Delete project' })
+ *   page.getByRole('alertdialog', { name: 'Unsaved changes' })
+ *
+ * Buttons are found by their accessible name, scoped to the dialog — the
+ * page behind a modal often has buttons with the same names.
+ *
+ * ADAPT THIS: the default confirm/cancel/close names cover common wording.
+ * Pass the exact name when your dialog uses something else
+ * (e.g. dialog.confirm('Delete project')).
+ *
+ * @example
+ *   const dialog = new Dialog(page.getByRole('dialog', { name: 'Delete project' }));
+ *   await dialog.waitForOpen();
+ *   await expect(dialog.body).toContainText('cannot be undone');
+ *   await dialog.confirm('Delete');
+ */
+export class Dialog extends BaseComponent {
+
+  // ---------------------------------------------------------------------------
+  // Selectors
+  // ---------------------------------------------------------------------------
+
+  /** The dialog's first heading (usually its title). */
+  get heading(): Locator {
+    return this.root.getByRole('heading').first();
+  }
+
+  /** The whole dialog, for text assertions (alias of root). */
+  get body(): Locator {
+    return this.root;
+  }
+
+  /** The close (×) button. Matches "Close" and "Dismiss" accessible names. */
+  get closeButton(): Locator {
+    return this.root.getByRole('button', { name: /^(close|dismiss)$/i });
+  }
+
+  /** A button inside the dialog, by accessible name. */
+  button(name: string | RegExp): Locator {
+    return this.root.getByRole('button', { name });
+  }
+
+  // ---------------------------------------------------------------------------
+  // Actions
+  // ---------------------------------------------------------------------------
+
+  /** Wait until the dialog is open (visible). */
+  async waitForOpen(): Promise<void> {
+    await this.waitForVisible();
+  }
+
+  /** Wait until the dialog has closed (hidden or removed). */
+  async waitForClosed(): Promise<void> {
+    await this.waitForHidden();
+  }
+
+  /** Whether the dialog is open right now (does not wait). */
+  async isOpen(): Promise<boolean> {
+    return this.isVisible();
+  }
+
+  /** The dialog's title text. */
+  async title(): Promise<string> {
+    return (await this.heading.innerText()).trim();
+  }
+
+  /**
+   * Click the confirming button and wait for the dialog to close.
+   *
+   * @param name - The button's name; defaults to OK, Confirm, Yes, Continue or Save
+   */
+  async confirm(name: string | RegExp = /^(ok|confirm|yes|continue|save)$/i): Promise<void> {
+    await this.button(name).click();
+    await this.waitForClosed();
+  }
+
+  /**
+   * Click the cancelling button and wait for the dialog to close.
+   *
+   * @param name - The button's name; defaults to Cancel or No
+   */
+  async cancel(name: string | RegExp = /^(cancel|no)$/i): Promise<void> {
+    await this.button(name).click();
+    await this.waitForClosed();
+  }
+
+  /** Click the close (×) button and wait for the dialog to close. */
+  async close(): Promise<void> {
+    await this.closeButton.click();
+    await this.waitForClosed();
+  }
+
+  /** Press Escape and wait for the dialog to close. */
+  async dismissWithEscape(): Promise<void> {
+    await this.root.press('Escape');
+    await this.waitForClosed();
+  }
+}
@@ -0,0 +1,9 @@
+export { BaseComponent } from './base.component';
+export type { ComponentClass } from './base.component';
+
+export { DataTable } from './data-table.component';
+export type { DataTableOptions, SortDirection } from './data-table.component';
+
+export { Dialog } from './dialog.component';
+export { Toast } from './toast.component';
+export { Select } from './select.component';
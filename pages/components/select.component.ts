@@ -0,0 +1,111 @@
+import { Locator } from '@playwright/test';
+import { BaseComponent } from './base.component';
+
+/**
+ * Select - Component for dropdowns: native <select> and ARIA comboboxes
+ *
+ * Both expose role="combobox" with the field's label as accessible name,
+ * so the root is the same either way:
+ *
+ *   page.getByRole('combobox', { name: 'Country' })
+ *
+ * A native <select> is driven with selectOption(). A custom combobox is
+ * opened with a click, and the option is clicked in its listbox — the one
+ * the combobox points to with aria-controls, or else the page's open
+ * listbox. Tests use the same methods for both.
+ *
+ * ADAPT THIS: if your combobox needs typing before options appear (async
+ * search), use search() instead of choose().
+ *
+ * @example
+ *   const country = new Select(page.getByRole('combobox', { name: 'Country' }));
+ *   await country.choose('Germany');
+ *   expect(await country.selected()).toBe('Germany');
+ */
+export class Select extends BaseComponent {
+
+  // ---------------------------------------------------------------------------
+  // Selectors
+  // ---------------------------------------------------------------------------
+
+  /**
+   * The listbox holding the options. For a native <select> that is the
+   * element itself.
+   */
+  async listbox(): Promise<Locator> {
+    if (await this.isNative()) return this.root;
+    const id = (await this.root.getAttribute('aria-controls')) ?? (await this.root.getAttribute('aria-owns'));
+    return id ? this.page.locator(`[id="${id}"]`) : this.page.getByRole('listbox');
+  }
+
+  /** Whether the root is a native <select> element. */
+  async isNative(): Promise<boolean> {
+    return (await this.root.and(this.page.locator('select')).count()) > 0;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Actions
+  // ---------------------------------------------------------------------------
+
+  /** Open the dropdown (no-op for a native <select> or an open combobox). */
+  async open(): Promise<void> {
+    if (await this.isNative()) return;
+    if ((await this.root.getAttribute('aria-expanded')) !== 'true') {
+      await this.root.click();
+    }
+    await (await this.listbox()).waitFor({ state: 'visible' });
+  }
+
+  /**
+   * Choose an option by its visible label.
+   *
+   * @param option - The option's label (exact), or a RegExp
+   */
+  async choose(option: string | RegExp): Promise<void> {
+    if (await this.isNative()) {
+      const labels = await this.options();
+      const label = typeof option === 'string' ? option : labels.find((candidate) => option.test(candidate));
+      if (label === undefined || !labels.includes(label)) {
+        throw new Error(`[components] Select has no option ${String(option)}. Options: ${labels.join(', ')}`);
+      }
+      await this.root.selectOption({ label });
+      return;
+    }
+
+    await this.open();
+    await (await this.listbox()).getByRole('option', { name: option, exact: typeof option === 'string' }).click();
+  }
+
+  /**
+   * Type into an editable combobox, then choose an option from the results.
+   *
+   * @param text - What to type
+   * @param option - The option to pick; defaults to the typed text
+   */
+  async search(text: string, option: string | RegExp = text): Promise<void> {
+    await this.root.fill(text);
+    await this.choose(option);
+  }
+
+  /** The labels of all options, in order. Opens and closes a custom combobox. */
+  async options(): Promise<string[]> {
+    if (await this.isNative()) {
+      return (await this.root.locator('option').allTextContents()).map((text) => text.trim());
+    }
+    await this.open();
+    const labels = await (await this.listbox()).getByRole('option').allInnerTexts();
+    await this.root.press('Escape');
+    return labels.map((text) => text.trim());
+  }
+
+  /** The label of the selected option ('' when nothing is selected). */
+  async selected(): Promise<string> {
+    if (await this.isNative()) {
+      const checked = this.root.locator('option:checked');
+      return (await checked.count()) > 0 ? ((await checked.first().textContent()) ?? '').trim() : '';
+    }
+    // Editable comboboxes show the choice as their value; others as their text
+    const editable = (await this.root.and(this.page.locator('input')).count()) > 0;
+    return (editable ? await this.root.inputValue() : await this.root.innerText()).trim();
+  }
+}
@@ -0,0 +1,74 @@
+import { Locator } from '@playwright/test';
+import { BaseComponent } from './base.component';
+
+/**
+ * Toast - Component for toast / snackbar notifications
+ *
+ * Toasts are announced through live regions: role="status" for
+ * confirmations and role="alert" for errors. This component finds them
+ * by role and text inside a container — the notifications region if your
+ * app has one, otherwise the whole page:
+ *
+ *   page.getByRole('region', { name: 'Notifications' })
+ *   page.locator('body')
+ *
+ * Toasts disappear on their own, so assert on them right after the action
+ * that triggers them, and prefer waitForMessage() over reading messages().
+ *
+ * ADAPT THIS: if your toasts are not live regions, subclass and override
+ * `items` (e.g. with this.root.getByTestId('toast')).
+ *
+ * @example
+ *   const toasts = new Toast(page.getByRole('region', { name: 'Notifications' }));
+ *   await saveButton.click();
+ *   await toasts.waitForMessage('Settings saved');
+ *   await toasts.dismiss('Settings saved');
+ */
+export class Toast extends BaseComponent {
+
+  // ---------------------------------------------------------------------------
+  // Selectors
+  // ---------------------------------------------------------------------------
+
+  /** Every toast currently in the container. */
+  get items(): Locator {
+    return this.root.getByRole('status').or(this.root.getByRole('alert'));
+  }
+
+  /** The toast(s) containing this text. */
+  message(text: string | RegExp): Locator {
+    return this.items.filter({ hasText: text });
+  }
+
+  // ---------------------------------------------------------------------------
+  // Actions
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Wait for a toast containing the text to appear.
+   *
+   * @returns The toast, for further assertions
+   */
+  async waitForMessage(text: string | RegExp): Promise<Locator> {
+    const toast = this.message(text).first();
+    await toast.waitFor({ state: 'visible' });
+    return toast;
+  }
+
+  /** Wait until no toast contains the text (e.g. after it auto-dismisses). */
+  async waitForMessageGone(text: string | RegExp): Promise<void> {
+    await this.message(text).first().waitFor({ state: 'hidden' });
+  }
+
+  /** The texts of the toasts showing right now (does not wait). */
+  async messages(): Promise<string[]> {
+    return (await this.items.allInnerTexts()).map((text) => text.trim()).filter(Boolean);
+  }
+
+  /** Close a toast with its Close/Dismiss button and wait for it to go. */
+  async dismiss(text: string | RegExp): Promise<void> {
+    const toast = await this.waitForMessage(text);
+    await toast.getByRole('button', { name: /^(close|dismiss)$/i }).click();
+    await this.waitForMessageGone(text);
+  }
+}
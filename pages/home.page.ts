@@ -0,0 +1,74 @@
+import { Locator } from '@playwright/test';
+import { BasePage } from './base.page';
+
+/**
+ * HomePage - Example Page Object for the landing page
+ *
+ * THIS IS AN EXAMPLE. Adapt the selectors to your application's home or
+ * dashboard page — it is where LoginPage.login() lands after signing in.
+ *
+ * It only uses landmarks every page should have (main content, navigation,
+ * a top-level heading), so it works unchanged against most apps.
+ *
+ * @example
+ *   test('home page has navigation', async ({ pages }) => {
+ *     const home = await pages.home.open();
+ *     await expect(home.navigation).toBeVisible();
+ *   });
+ */
+export class HomePage extends BasePage {
+
+  // ---------------------------------------------------------------------------
+  // Selectors
+  // ---------------------------------------------------------------------------
+
+  /**
+   * The main content landmark (<main> or role="main").
+   */
+  get mainContent(): Locator {
+    return this.page.getByRole('main');
+  }
+
+  /**
+   * The primary navigation landmark.
+   *
+   * ADAPT THIS: if your app has several <nav> elements, add a name filter,
+   * e.g. getByRole('navigation', { name: 'Main' }).
+   */
+  get navigation(): Locator {
+    return this.page.getByRole('navigation').first();
+  }
+
+  /**
+   * The page's top-level heading.
+   */
+  get heading(): Locator {
+    return this.page.getByRole('heading', { level: 1 });
+  }
+
+  /**
+   * Dynamic regions masked in visual comparisons: dates/times and avatars.
+   *
+   * ADAPT THIS: add whatever changes between runs on your home page
+   * (greetings, counters, feeds).
+   */
+  protected get visualMasks(): Locator[] {
+    return [this.page.locator('time'), this.page.getByRole('img', { name: /avatar/i })];
+  }
+
+  // ---------------------------------------------------------------------------
+  // Actions
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Navigate to the home page.
+   *
+   * ADAPT THIS: change '/' if your home page lives elsewhere (e.g. '/dashboard').
+   *
+   * @returns This page object, so calls can chain
+   */
+  async open(): Promise<HomePage> {
+    await this.goto('/');
+    return this;
+  }
+}
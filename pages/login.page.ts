@@ -1,5 +1,11 @@
 import { Locator } from '@playwright/test';
 import { BasePage } from './base.page';
+import { HomePage } from './home.page';
+import { Timeouts } from '../utils/timeouts';
+import { generateTotp, totpCounter, totpSecondsRemaining } from '../utils/totp';
+
+/** A code with this many seconds or fewer left is not submitted; the next one is awaited instead. */
+const MIN_TOTP_SECONDS_LEFT = 3;
 
 /**
  * LoginPage - Example Page Object for a Login Form
@@ -12,6 +18,7 @@ import { BasePage } from './base.page';
  *   2. How to use accessible selectors (getByRole, getByLabel, getByTestId)
  *   3. How to encapsulate page interactions into reusable methods
  *   4. How to compose small methods into higher-level actions (e.g., login())
+ *   5. How navigation methods return the next page object (login() → HomePage)
  *
  * Selector Priority (use in this order):
  *   1. getByRole()   - Best: matches ARIA roles (button, textbox, link, etc.)
@@ -21,11 +28,10 @@ import { BasePage } from './base.page';
  *   5. locator()     - Last resort: CSS/XPath selectors (avoid if possible)
  *
  * @example
- *   test('user can log in', async ({ page }) => {
- *     const loginPage = new LoginPage(page);
- *     await loginPage.navigateToLogin();
- *     await loginPage.login('testuser', 'testpassword');
- *     // Assert redirect to dashboard, etc.
+ *   test('user can log in', async ({ pages }) => {
+ *     await pages.login.navigateToLogin();
+ *     const home = await pages.login.login('testuser', 'testpassword');
+ *     await expect(home.heading).toBeVisible();
  *   });
  */
 export class LoginPage extends BasePage {
@@ -89,6 +95,31 @@ export class LoginPage extends BasePage {
     return this.page.getByRole('alert');
   }
 
+  /**
+   * One-time code input on the MFA step.
+   *
+   * Matches a textbox named like "Verification code" / "One-time code" /
+   * "Authentication code", or any input marked autocomplete="one-time-code"
+   * (the standard hint for OTP fields).
+   *
+   * ADAPT THIS: Change the name pattern to your MFA step's label.
+   */
+  get oneTimeCodeInput(): Locator {
+    return this.page
+      .getByRole('textbox', { name: /one-time|verification|authentication|security code|otp|2fa/i })
+      .or(this.page.locator('input[autocomplete="one-time-code"]'))
+      .first();
+  }
+
+  /**
+   * Button that submits the one-time code.
+   *
+   * ADAPT THIS: Change the name pattern to your MFA step's button text.
+   */
+  get verifyCodeButton(): Locator {
+    return this.page.getByRole('button', { name: /^(verify|confirm|continue|submit|sign in|log in)/i }).first();
+  }
+
   /**
    * Alternative: Using data-testid selectors.
    *
@@ -110,9 +141,12 @@ export class LoginPage extends BasePage {
    * Navigate to the login page.
    *
    * ADAPT THIS: Change '/login' to your app's actual login page path.
+   *
+   * @returns This page object, so calls can chain
    */
-  async navigateToLogin(): Promise<void> {
+  async navigateToLogin(): Promise<LoginPage> {
     await this.goto('/login');
+    return this;
   }
 
   /**
@@ -121,26 +155,51 @@ export class LoginPage extends BasePage {
    * Uses Playwright's fill() method which clears the field first, then types
    * the value. This is more reliable than type() for pre-filled fields.
    *
+   * The field is found through a fallback chain (see BasePage.locate()):
+   * usernameInput first, then any label mentioning a username or email,
+   * then data-testid="username". If a fallback is needed, the test keeps
+   * working and the drift is reported so usernameInput can be fixed.
+   *
+   * ADAPT THIS: Change the fallbacks to what your login form offers.
+   *
    * @param username - The username to enter
    */
   async fillUsername(username: string): Promise<void> {
-    await this.usernameInput.fill(username);
+    const input = await this.locate('usernameInput', {
+      role: this.usernameInput,
+      label: this.page.getByLabel(/user ?name|e-?mail/i),
+      testId: this.page.getByTestId('username'),
+    });
+    await input.fill(username);
   }
 
   /**
    * Fill in the password field.
    *
+   * Falls back to data-testid="password" if the label changes.
+   *
    * @param password - The password to enter
    */
   async fillPassword(password: string): Promise<void> {
-    await this.passwordInput.fill(password);
+    const input = await this.locate('passwordInput', {
+      label: this.passwordInput,
+      testId: this.page.getByTestId('password'),
+    });
+    await input.fill(password);
   }
 
   /**
    * Click the submit/login button.
+   *
+   * Falls back to common login button names, then data-testid="login-submit".
    */
   async clickSubmit(): Promise<void> {
-    await this.submitButton.click();
+    const button = await this.locate('submitButton', {
+      role: this.submitButton,
+      name: this.page.getByRole('button', { name: /^(sign|log) ?in$/i }),
+      testId: this.page.getByTestId('login-submit'),
+    });
+    await button.click();
   }
 
   /**
@@ -151,15 +210,29 @@ export class LoginPage extends BasePage {
    * Tests that need to log in can call this one method instead of
    * repeating three separate steps.
    *
+   * It returns the page object of the page a successful login lands on,
+   * so a flow can continue from there. After a failed login the browser
+   * stays here — keep using this LoginPage to read the error.
+   *
+   * ADAPT THIS: return the page object of your app's landing page.
+   *
+   * Accounts behind MFA: pass the account's TOTP secret. If the app then
+   * asks for a one-time code, a fresh code is generated and submitted (see
+   * submitOneTimeCode()); if it does not, the login completes as usual.
+   *
    * @param username - The username to log in with
    * @param password - The password to log in with
+   * @param totpSecret - The account's TOTP secret (base32 or otpauth:// URI), for MFA
+   * @returns The HomePage page object
    *
    * @example
-   *   const loginPage = new LoginPage(page);
-   *   await loginPage.navigateToLogin();
-   *   await loginPage.login('admin', 'secret123');
+   *   const home = await (await pages.login.navigateToLogin()).login('admin', 'secret123');
+   *   await expect(home.heading).toBeVisible();
+   *
+   *   // MFA-protected account
+   *   await pages.login.login(env.adminUsername, env.adminPassword, env.adminTotpSecret);
    */
-  async login(username: string, password: string): Promise<void> {
+  async login(username: string, password: string, totpSecret?: string): Promise<HomePage> {
     await this.fillUsername(username);
     await this.fillPassword(password);
     await this.clickSubmit();
@@ -167,6 +240,97 @@ export class LoginPage extends BasePage {
     // Wait for navigation after form submission.
     // This ensures the login action is fully complete before the test continues.
     await this.page.waitForLoadState('domcontentloaded');
+
+    if (totpSecret && (await this.isOneTimeCodeRequested())) {
+      await this.submitOneTimeCode(totpSecret);
+    }
+    return this.navigatesTo(HomePage);
+  }
+
+  /**
+   * Check whether the app is asking for a one-time code (the MFA step).
+   *
+   * Waits up to `timeout` for the code input to appear, and returns early
+   * if the login is rejected instead.
+   *
+   * @param timeout - How long to wait for the MFA step (default Timeouts.MEDIUM)
+   * @returns true if the one-time code input is showing
+   */
+  async isOneTimeCodeRequested(timeout: number = Timeouts.MEDIUM): Promise<boolean> {
+    try {
+      await this.oneTimeCodeInput.or(this.errorMessage).first().waitFor({ state: 'visible', timeout });
+    } catch {
+      return false;
+    }
+    return this.oneTimeCodeInput.isVisible();
+  }
+
+  /**
+   * Fill and submit a one-time code generated from the TOTP secret.
+   *
+   * Codes follow the browser's clock, so tests can move it with page.clock.
+   * A code with only a few seconds left (MIN_TOTP_SECONDS_LEFT) could
+   * expire before the server checks it, so this waits for the next one
+   * first. If a code is still rejected and the period rolled over between
+   * submitting it and the server's answer, this retries once with the new code.
+   *
+   * @param totpSecret - The account's TOTP secret (base32 or otpauth:// URI)
+   * @throws Error if the code is rejected (after the one retry, if it applied)
+   */
+  async submitOneTimeCode(totpSecret: string): Promise<void> {
+    const now = await this.browserTime();
+    const secondsLeft = totpSecondsRemaining(totpSecret, now);
+    if (secondsLeft <= MIN_TOTP_SECONDS_LEFT) {
+      const nextCode = (Math.floor(now / 1000) + secondsLeft) * 1000;
+      await this.page.waitForFunction((time) => Date.now() >= time, nextCode, { polling: 100, timeout: Timeouts.MEDIUM });
+    }
+
+    for (let attempt = 1; ; attempt++) {
+      const submittedAt = await this.browserTime();
+      await this.oneTimeCodeInput.fill(generateTotp(totpSecret, submittedAt));
+      const answeredAt = await this.verifyOneTimeCode();
+      if (!(await this.oneTimeCodeInput.isVisible())) return;
+
+      // Only a code that expired in flight is worth one more try
+      if (attempt === 1 && totpCounter(totpSecret, answeredAt) !== totpCounter(totpSecret, submittedAt)) continue;
+      const error = await this.getErrorMessage();
+      const detail = error ? `: ${error.trim()}` : '';
+      throw new Error(`[auth] The one-time code was rejected${attempt > 1 ? ' twice' : ''}${detail}. Is the TOTP secret for this account correct?`);
+    }
+  }
+
+  /**
+   * Click Verify and wait for the app's answer: the code step going away,
+   * or an error on the step the response rendered.
+   *
+   * ADAPT THIS: assumes the code is sent with a POST, as a form submit
+   * (which reloads the step) or a fetch.
+   *
+   * @returns The browser's time when the answer arrived
+   */
+  private async verifyOneTimeCode(): Promise<number> {
+    const loaded = this.page.waitForEvent('domcontentloaded', { timeout: Timeouts.MEDIUM }).catch(() => undefined);
+    const answered = this.page
+      .waitForResponse((response) => response.request().method() === 'POST', { timeout: Timeouts.MEDIUM })
+      .catch(() => undefined);
+    await this.verifyCodeButton.click();
+
+    // A form submit replaces the page, including any error from a previous
+    // attempt — wait for the new one before reading it
+    const response = await answered;
+    if (response?.request().isNavigationRequest()) await loaded;
+    const answeredAt = await this.browserTime();
+
+    await Promise.race([
+      this.oneTimeCodeInput.waitFor({ state: 'hidden', timeout: Timeouts.MEDIUM }),
+      this.errorMessage.waitFor({ state: 'visible', timeout: Timeouts.MEDIUM }),
+    ]).catch(() => undefined);
+    return answeredAt;
+  }
+
+  /** Milliseconds since the epoch by the browser's clock (which page.clock controls). */
+  private browserTime(): Promise<number> {
+    return this.page.evaluate(() => Date.now());
   }
 
   /**
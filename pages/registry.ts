@@ -0,0 +1,57 @@
+import { Page } from '@playwright/test';
+import { PageObjectClass, pageObject } from './base.page';
+import { HomePage } from './home.page';
+import { LoginPage } from './login.page';
+
+/**
+ * Page Object Registry
+ *
+ * Declares every page object the `pages` fixture exposes. Tests then ask
+ * for pages by name instead of constructing them:
+ *
+ *   test('user can log in', async ({ pages }) => {
+ *     await pages.login.navigateToLogin();
+ *     const home = await pages.login.login(user, password);
+ *   });
+ *
+ * Page objects are created lazily, on first access, and once per test:
+ * `pages.login` is the same instance every time, and the same one that
+ * navigation methods such as LoginPage.login() hand back.
+ *
+ * Adding a page:
+ *   1. Create a class that extends BasePage (see login.page.ts)
+ *   2. Add an entry to `pageObjects` below
+ *   The `pages` fixture picks it up automatically, fully typed.
+ */
+
+/** All page objects the `pages` fixture exposes, by name. */
+export const pageObjects = {
+  home: HomePage,
+  login: LoginPage,
+} satisfies Record<string, PageObjectClass>;
+
+/** Name of a registered page object. */
+export type PageName = keyof typeof pageObjects;
+
+/** The `pages` fixture: each registered page object, created on first access. */
+export type Pages = { readonly [Name in PageName]: InstanceType<(typeof pageObjects)[Name]> };
+
+/**
+ * Expose the registered page objects for a Playwright Page. The `pages`
+ * fixture does this for the test's page; call it directly for other pages,
+ * e.g. one opened with asRole().
+ *
+ * @example
+ *   const adminPages = createPages(await asRole('admin'));
+ *   await adminPages.home.open();
+ */
+export function createPages(page: Page): Pages {
+  const pages = {} as Pages;
+  for (const [name, PageClass] of Object.entries(pageObjects) as [PageName, PageObjectClass][]) {
+    Object.defineProperty(pages, name, {
+      get: () => pageObject(page, PageClass),
+      enumerable: true,
+    });
+  }
+  return pages;
+}
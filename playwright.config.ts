@@ -1,32 +1,56 @@
 import { defineConfig, devices } from '@playwright/test';
-import 'dotenv/config';
-import { Timeouts } from './utils';
+import { Timeouts, deriveTestSeed, getEnvConfig } from './utils';
+import { DEFAULT_ROLE, authStatePath } from './tests/fixtures/roles';
 
 /**
  * Playwright Configuration
  *
- * This config reads environment variables from .env (via dotenv) and sets up
- * multi-browser testing with sensible defaults for both local and CI runs.
+ * This config reads the resolved environment config (utils/env.ts — .env
+ * layered with .env.<TEST_ENV>) and sets up multi-browser testing with
+ * sensible defaults for both local and CI runs.
  *
  * Projects:
- *   - setup:    Runs auth.setup.ts first (login, save storageState)
- *   - chromium: UI tests in Chrome (depends on setup)
+ *   - setup:    Runs auth.setup.ts first (login once per role, save storageState)
+ *   - chromium: UI tests in Chrome as the default role (depends on setup)
  *   - firefox:  UI tests in Firefox (depends on setup)
  *   - webkit:   UI tests in Safari (depends on setup)
- *   - api:      API-only tests — no browser launched
+ *   - api:      API-only tests — no browser launched (uses the bundled stub
+ *               server when API_BASE_URL is unset)
  *
  * Usage:
  *   npm test            - Run all tests across all browsers
  *   npm run test:ui     - Run only @ui-tagged tests
  *   npm run test:api    - Run only @api-tagged tests
+ *   npm run test:visual - Run only @visual-tagged screenshot comparisons (not part of npm test)
  *   npm run test:debug  - Run tests in debug mode (headed + Playwright Inspector)
  *   npm run report      - Open the HTML report
  *
  * @see https://playwright.dev/docs/test-configuration
  */
 
-/** Stored outside outputDir so Playwright doesn't wipe it between runs. */
-const AUTH_STATE_PATH = '.auth/state.json';
+/** The default role's cached state; tests switch roles with test.use({ role }). */
+const AUTH_STATE_PATH = authStatePath(DEFAULT_ROLE);
+
+/** Resolved once here; throws listing every missing or malformed variable. */
+const env = getEnvConfig();
+
+/*
+ * Screenshot comparisons (@visual) fail until baselines for the platform
+ * are committed, so they only run when asked for: with a grep for @visual
+ * (npm run test:visual) or VISUAL_TESTS=true.
+ */
+const runVisualTests = env.visualTests || process.argv.some((arg) => arg.includes('@visual'));
+
+/*
+ * One TestData seed per run, shared with the workers through their
+ * environment; tests mix it with their ID (utils/data-factory.ts). Workers
+ * inherit it, so only the runner picks and prints one.
+ */
+if (env.testSeed === undefined) {
+  process.env.TEST_SEED = deriveTestSeed(Date.now(), process.pid);
+  // eslint-disable-next-line no-console
+  console.log(`[test-data] TEST_SEED=${process.env.TEST_SEED} — set it to regenerate this run's test data.`);
+}
 
 export default defineConfig({
   /* Directory where test files are located */
@@ -41,29 +65,45 @@ export default defineConfig({
   /* Maximum time expect() assertions can wait */
   expect: {
     timeout: Timeouts.MEDIUM,
+
+    /* Screenshot baselines per platform and browser project (utils/visual.ts) */
+    toHaveScreenshot: {
+      pathTemplate: '{snapshotDir}/__screenshots__/{platform}/{projectName}/{testFilePath}/{arg}{ext}',
+    },
   },
 
   /* Run tests in parallel within each file */
   fullyParallel: true,
 
+  /* Leave out the screenshot comparisons unless asked for (see runVisualTests) */
+  grepInvert: runVisualTests ? undefined : /@visual/,
+
   /* Fail the build on CI if test.only is left in source code */
-  forbidOnly: !!process.env.CI,
+  forbidOnly: env.ci,
 
   /* Retry failed tests: 2 on CI, 1 locally (catches flaky tests during dev) */
-  retries: process.env.CI ? 2 : 1,
+  retries: env.ci ? 2 : 1,
 
   /* Limit parallel workers on CI to avoid resource contention */
-  workers: process.env.CI ? 1 : undefined,
+  workers: env.ci ? 1 : undefined,
 
   /* Reporter configuration */
-  reporter: process.env.CI
-    ? [['html', { open: 'never' }], ['list'], ['junit', { outputFile: 'test-results/junit.xml' }]]
-    : [['html', { open: 'on-failure' }], ['list']],
+  /* selector-drift lists page object selectors that needed a fallback (utils/locator-fallback.ts) */
+  /* visual-reporter records screenshots that differ from their baselines (npm run visual:review) */
+  reporter: env.ci
+    ? [
+      ['html', { open: 'never' }],
+      ['list'],
+      ['junit', { outputFile: 'test-results/junit.xml' }],
+      ['./utils/selector-drift-reporter.ts'],
+      ['./utils/visual-reporter.ts'],
+    ]
+    : [['html', { open: 'on-failure' }], ['list'], ['./utils/selector-drift-reporter.ts'], ['./utils/visual-reporter.ts']],
 
   /* Shared settings applied to all projects below */
   use: {
     /* Base URL for navigation actions like page.goto('/') */
-    baseURL: process.env.BASE_URL || 'http://localhost:3000',
+    baseURL: env.baseUrl,
 
     /* Timeout for actions like click(), fill(), etc. — fail fast instead of hanging */
     actionTimeout: Timeouts.LONG,
@@ -93,9 +133,10 @@ export default defineConfig({
       testMatch: /.*\.setup\.ts/,
     },
 
-    /* ---- UI browser projects (depend on auth setup) ---- */
+    /* ---- UI browser projects (depend on auth setup; tests/api runs in the api project only) ---- */
     {
       name: 'chromium',
+      testDir: './tests/ui',
       use: {
         ...devices['Desktop Chrome'],
         storageState: AUTH_STATE_PATH,
@@ -104,6 +145,7 @@ export default defineConfig({
     },
     {
       name: 'firefox',
+      testDir: './tests/ui',
       use: {
         ...devices['Desktop Firefox'],
         storageState: AUTH_STATE_PATH,
@@ -112,6 +154,7 @@ export default defineConfig({
     },
     {
       name: 'webkit',
+      testDir: './tests/ui',
       use: {
         ...devices['Desktop Safari'],
         storageState: AUTH_STATE_PATH,
@@ -120,11 +163,12 @@ export default defineConfig({
     },
 
     /* ---- API project (no browser — faster, cleaner separation) ---- */
+    /* Without API_BASE_URL, the apiContext fixture targets the bundled stub server */
     {
       name: 'api',
       testDir: './tests/api',
       use: {
-        baseURL: process.env.API_BASE_URL || 'https://httpbin.org',
+        baseURL: env.apiBaseUrl,
       },
     },
   ],
@@ -0,0 +1,58 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { convertCollection } from './lib/postman-converter';
+import { loadPostmanCollection, loadPostmanEnvironment } from '../utils/postman-collection';
+
+/**
+ * Convert a Postman Collection into a Playwright Spec
+ *
+ * Reads a Postman v2.1 collection export and writes a spec that uses the
+ * `test`/`apiContext` fixtures, so the requests run in the Playwright
+ * runner and reports instead of Newman. Review the TODO(postman) markers
+ * in the output — they flag script lines with no safe translation.
+ *
+ * Usage:
+ *   npm run convert:postman -- [collection] [--environment <file>] [--out <file>]
+ *
+ *   collection     Collection file (default: postman/collection.json)
+ *   --environment  Environment file whose values become defaults
+ *                  (default: postman/environment.json, if it exists)
+ *   --out          Output spec (default: tests/api/<collection-name>.spec.ts)
+ *
+ * @example
+ *   npm run convert:postman -- postman/orders.json --out tests/api/orders.spec.ts
+ */
+
+const { values, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    environment: { type: 'string', default: 'postman/environment.json' },
+    out: { type: 'string' },
+  },
+});
+
+const collectionPath = positionals[0] ?? 'postman/collection.json';
+const collection = loadPostmanCollection(collectionPath);
+
+const slug = collection.info.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'postman';
+const outPath = values.out ?? path.join('tests', 'api', `${slug}.spec.ts`);
+
+/** Import specifier for a repo file, relative to the output spec. */
+const importFrom = (target: string) => {
+  const relative = path.relative(path.dirname(path.resolve(outPath)), path.resolve(target)).split(path.sep).join('/');
+  return relative.startsWith('.') ? relative : `./${relative}`;
+};
+
+const result = convertCollection(collection, {
+  source: path.relative(process.cwd(), path.resolve(collectionPath)).split(path.sep).join('/'),
+  fixturesImport: importFrom('tests/fixtures/base.fixture'),
+  utilsImport: importFrom('utils'),
+  environment: loadPostmanEnvironment(values.environment!),
+});
+
+fs.mkdirSync(path.dirname(outPath), { recursive: true });
+fs.writeFileSync(outPath, result.source);
+
+// eslint-disable-next-line no-console
+console.log(`[postman] Wrote ${result.tests} test(s) to ${outPath} — ${result.todos} TODO(postman) marker(s) to review.`);
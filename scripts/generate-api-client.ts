@@ -0,0 +1,45 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { generateClient, loadOpenApiDocument } from './lib/openapi-codegen';
+
+/**
+ * Generate a Typed API Client from an OpenAPI Document
+ *
+ * Reads a local OpenAPI 3 JSON/YAML file and writes a TypeScript module
+ * with one typed method per operation, wrapping Playwright's
+ * APIRequestContext. The `apiClient` fixture exposes the default client.
+ *
+ * Usage:
+ *   npm run generate:api-client -- [spec] [--out <file>] [--name <ClassName>]
+ *
+ *   spec    OpenAPI file (default: openapi/stub-api.yaml)
+ *   --out   Output file (default: utils/api-client.generated.ts)
+ *   --name  Client class name (default: ApiClient)
+ *
+ * @example
+ *   npm run generate:api-client -- openapi/my-api.yaml --out utils/my-api.generated.ts --name MyApiClient
+ */
+
+const { values, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    out: { type: 'string', default: 'utils/api-client.generated.ts' },
+    name: { type: 'string', default: 'ApiClient' },
+  },
+});
+
+const specPath = positionals[0] ?? 'openapi/stub-api.yaml';
+const outPath = values.out!;
+
+const doc = loadOpenApiDocument(specPath);
+const source = generateClient(doc, {
+  className: values.name!,
+  source: path.relative(process.cwd(), path.resolve(specPath)).split(path.sep).join('/'),
+});
+
+fs.mkdirSync(path.dirname(outPath), { recursive: true });
+fs.writeFileSync(outPath, source);
+
+// eslint-disable-next-line no-console
+console.log(`[openapi] Wrote ${values.name} (${Object.keys(doc.paths ?? {}).length} paths) to ${outPath}`);
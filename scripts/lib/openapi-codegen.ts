@@ -0,0 +1,534 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { parse as parseYaml } from 'yaml';
+
+/**
+ * OpenAPI Client Code Generator
+ *
+ * Turns an OpenAPI 3.0/3.1 document into a single TypeScript module with:
+ *   - one type alias per `components.schemas` entry
+ *   - a `<Operation>Params` interface per operation (path, query, headers, body)
+ *   - a `<Operation>Response` union per operation, discriminated by status code
+ *   - a client class with one method per operation, wrapping APIRequestContext
+ *
+ * Only local `$ref`s ('#/...') are supported. Schemas the generator cannot
+ * express become `unknown` rather than failing the run. `$ref`s outside
+ * `components.schemas` are inlined, except recursive ones, which get a
+ * named type alias of their own (named after the pointer's last segment).
+ *
+ * Used by scripts/generate-api-client.ts — see that file for CLI usage.
+ */
+
+/** The subset of a JSON Schema object the generator understands. */
+interface SchemaObject {
+  $ref?: string;
+  type?: string | string[];
+  enum?: unknown[];
+  const?: unknown;
+  nullable?: boolean;
+  description?: string;
+  properties?: Record<string, SchemaObject>;
+  required?: string[];
+  additionalProperties?: boolean | SchemaObject;
+  items?: SchemaObject;
+  oneOf?: SchemaObject[];
+  anyOf?: SchemaObject[];
+  allOf?: SchemaObject[];
+}
+
+interface ParameterObject {
+  $ref?: string;
+  name: string;
+  in: 'path' | 'query' | 'header' | 'cookie';
+  required?: boolean;
+  description?: string;
+  schema?: SchemaObject;
+}
+
+interface MediaTypes {
+  content?: Record<string, { schema?: SchemaObject }>;
+}
+
+interface OperationObject {
+  operationId?: string;
+  summary?: string;
+  description?: string;
+  parameters?: ParameterObject[];
+  requestBody?: MediaTypes & { $ref?: string; required?: boolean };
+  responses?: Record<string, MediaTypes & { $ref?: string; description?: string }>;
+}
+
+type PathItem = Partial<Record<HttpMethod, OperationObject>> & { parameters?: ParameterObject[] };
+
+/** A parsed OpenAPI 3 document. */
+export interface OpenApiDocument {
+  openapi: string;
+  info?: { title?: string; version?: string };
+  paths?: Record<string, PathItem>;
+  components?: { schemas?: Record<string, SchemaObject> } & Record<string, unknown>;
+}
+
+/** Options for generateClient(). */
+export interface GenerateOptions {
+  /** Name of the generated client class */
+  className: string;
+  /** Source file path, recorded in the generated header comment */
+  source: string;
+}
+
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'patch', 'head', 'options'] as const;
+type HttpMethod = (typeof HTTP_METHODS)[number];
+
+// ---------------------------------------------------------------------------
+// Loading
+// ---------------------------------------------------------------------------
+
+/**
+ * Read an OpenAPI 3 document from a .json, .yaml or .yml file.
+ *
+ * @throws Error if the file is not an OpenAPI 3 document
+ */
+export function loadOpenApiDocument(filePath: string): OpenApiDocument {
+  const raw = fs.readFileSync(filePath, 'utf-8');
+  const doc = path.extname(filePath) === '.json' ? JSON.parse(raw) : parseYaml(raw);
+
+  if (!doc || typeof doc.openapi !== 'string' || !doc.openapi.startsWith('3.')) {
+    throw new Error(`[openapi] ${filePath} is not an OpenAPI 3 document (missing "openapi: 3.x").`);
+  }
+  return doc as OpenApiDocument;
+}
+
+// ---------------------------------------------------------------------------
+// Naming
+// ---------------------------------------------------------------------------
+
+/** 'get user-by id' → 'GetUserById' */
+function pascalCase(value: string): string {
+  return value
+    .replace(/[^A-Za-z0-9]+/g, ' ')
+    .trim()
+    .split(' ')
+    .filter(Boolean)
+    .map((word) => word[0].toUpperCase() + word.slice(1))
+    .join('');
+}
+
+/** 'get user-by id' → 'getUserById' */
+function camelCase(value: string): string {
+  const pascal = pascalCase(value);
+  return pascal[0].toLowerCase() + pascal.slice(1);
+}
+
+/** Derive a method name when an operation has no operationId: GET /users/{id} → getUsersById */
+function operationName(method: HttpMethod, route: string, operation: OperationObject): string {
+  if (operation.operationId) {
+    return camelCase(operation.operationId);
+  }
+  const segments = route.split('/').filter(Boolean).map((segment) => {
+    const param = segment.match(/^\{(.+)\}$/);
+    return param ? `by ${param[1]}` : segment;
+  });
+  return camelCase(`${method} ${segments.join(' ')}`);
+}
+
+/** Render a value as a TypeScript literal, single-quoting strings. */
+function literal(value: unknown): string {
+  return typeof value === 'string'
+    ? `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`
+    : JSON.stringify(value);
+}
+
+/** Quote property names that are not valid identifiers. */
+function propertyKey(name: string): string {
+  return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(name) ? name : literal(name);
+}
+
+/** Render a JSDoc line, or nothing when there is no text. */
+function docComment(text: string | undefined, indent: string): string {
+  if (!text) return '';
+  return `${indent}/** ${text.replace(/\*\//g, '*\\/').replace(/\s*\n\s*/g, ' ').trim()} */\n`;
+}
+
+// ---------------------------------------------------------------------------
+// Schema → TypeScript
+// ---------------------------------------------------------------------------
+
+/** Resolve a local JSON pointer ('#/components/parameters/Id'). */
+function resolveRef<T>(doc: OpenApiDocument, ref: string): T {
+  if (!ref.startsWith('#/')) {
+    throw new Error(`[openapi] Only local $refs are supported, got "${ref}".`);
+  }
+  let node: unknown = doc;
+  for (const token of ref.slice(2).split('/')) {
+    const key = token.replace(/~1/g, '/').replace(/~0/g, '~');
+    node = (node as Record<string, unknown> | undefined)?.[key];
+  }
+  if (node === undefined) {
+    throw new Error(`[openapi] Unresolvable $ref "${ref}".`);
+  }
+  return node as T;
+}
+
+/**
+ * Follow $ref chains for parameters, request bodies and responses.
+ *
+ * @throws Error if the chain refers back to itself
+ */
+function deref<T extends { $ref?: string }>(doc: OpenApiDocument, value: T): T {
+  const seen = new Set<string>();
+  let current = value;
+  while (current.$ref) {
+    if (seen.has(current.$ref)) {
+      throw new Error(`[openapi] Circular $ref "${current.$ref}".`);
+    }
+    seen.add(current.$ref);
+    current = resolveRef<T>(doc, current.$ref);
+  }
+  return current;
+}
+
+/** The document being rendered, and the $refs met on the way. */
+interface TypeContext {
+  doc: OpenApiDocument;
+  /** Non-component $refs being inlined right now, outermost first */
+  inlining: string[];
+  /** Recursive non-component $refs → the type alias emitted for each */
+  named: Map<string, string>;
+  /** Every type name taken so far, so hoisted aliases don't clash */
+  taken: Set<string>;
+}
+
+/** Give a recursive $ref a type alias name: '#/components/responses/Tree/.../Node' → 'Node'. */
+function nameRef(context: TypeContext, ref: string): string {
+  const base = pascalCase(ref.slice(ref.lastIndexOf('/') + 1).replace(/~1/g, '/').replace(/~0/g, '~')) || 'Schema';
+  let name = base;
+  for (let suffix = 2; context.taken.has(name); suffix++) {
+    name = `${base}${suffix}`;
+  }
+  context.taken.add(name);
+  context.named.set(ref, name);
+  return name;
+}
+
+/** Wrap union/intersection types in parentheses before suffixing with [] etc. */
+function group(type: string): string {
+  const isObjectLiteral = type.startsWith('{') && type.endsWith('}');
+  return !isObjectLiteral && /[|&]/.test(type) ? `(${type})` : type;
+}
+
+function schemaToType(schema: SchemaObject | undefined, context: TypeContext, indent = ''): string {
+  if (!schema) {
+    return 'unknown';
+  }
+
+  if (schema.$ref) {
+    const component = schema.$ref.match(/^#\/components\/schemas\/([^/]+)$/);
+    if (component) {
+      return pascalCase(component[1]);
+    }
+    // Inline the target unless it refers back to itself; then refer to it by name
+    const named = context.named.get(schema.$ref);
+    if (named || context.inlining.includes(schema.$ref)) {
+      return named ?? nameRef(context, schema.$ref);
+    }
+    context.inlining.push(schema.$ref);
+    const inline = schemaToType(resolveRef(context.doc, schema.$ref), context, indent);
+    context.inlining.pop();
+    return context.named.get(schema.$ref) ?? inline;
+  }
+
+  let type: string;
+  if (schema.enum) {
+    type = schema.enum.map(literal).join(' | ');
+  } else if (schema.const !== undefined) {
+    type = literal(schema.const);
+  } else if (schema.oneOf || schema.anyOf) {
+    type = (schema.oneOf ?? schema.anyOf)!.map((member) => schemaToType(member, context, indent)).join(' | ');
+  } else if (schema.allOf) {
+    type = schema.allOf.map((member) => group(schemaToType(member, context, indent))).join(' & ');
+  } else if (Array.isArray(schema.type)) {
+    type = schema.type.map((member) => schemaToType({ ...schema, type: member }, context, indent)).join(' | ');
+  } else {
+    switch (schema.type) {
+      case 'string':
+        type = 'string';
+        break;
+      case 'integer':
+      case 'number':
+        type = 'number';
+        break;
+      case 'boolean':
+        type = 'boolean';
+        break;
+      case 'null':
+        type = 'null';
+        break;
+      case 'array':
+        type = `${group(schemaToType(schema.items, context, indent))}[]`;
+        break;
+      case 'object':
+        type = objectToType(schema, context, indent);
+        break;
+      default:
+        type = schema.properties ? objectToType(schema, context, indent) : 'unknown';
+    }
+  }
+
+  return schema.nullable ? `${type} | null` : type;
+}
+
+function objectToType(schema: SchemaObject, context: TypeContext, indent: string): string {
+  const properties = Object.entries(schema.properties ?? {});
+  const extra = schema.additionalProperties;
+
+  if (properties.length === 0) {
+    const valueType = typeof extra === 'object' ? schemaToType(extra, context, indent) : 'unknown';
+    return `Record<string, ${valueType}>`;
+  }
+
+  const inner = `${indent}  `;
+  const required = new Set(schema.required ?? []);
+  const lines = properties.map(([name, property]) =>
+    docComment(property.description, inner) +
+    `${inner}${propertyKey(name)}${required.has(name) ? '' : '?'}: ${schemaToType(property, context, inner)};`,
+  );
+  if (extra) {
+    lines.push(`${inner}[key: string]: unknown;`);
+  }
+  return `{\n${lines.join('\n')}\n${indent}}`;
+}
+
+/** Pick the JSON media type (or the first one) and return its TS body type. */
+function contentToType(media: MediaTypes, context: TypeContext, indent: string): string {
+  const entries = Object.entries(media.content ?? {});
+  if (entries.length === 0) {
+    return 'undefined';
+  }
+  const json = entries.find(([mediaType]) => /[/+]json\b/.test(mediaType));
+  if (json) {
+    return schemaToType(json[1].schema, context, indent);
+  }
+  return 'string';
+}
+
+// ---------------------------------------------------------------------------
+// Operations
+// ---------------------------------------------------------------------------
+
+interface OperationModel {
+  name: string;
+  typeName: string;
+  method: HttpMethod;
+  route: string;
+  doc: string | undefined;
+  paramsType: string | null;
+  paramsOptional: boolean;
+  responseType: string;
+}
+
+function buildOperation(
+  context: TypeContext,
+  route: string,
+  method: HttpMethod,
+  pathItem: PathItem,
+  operation: OperationObject,
+): OperationModel {
+  const name = operationName(method, route, operation);
+  const typeName = pascalCase(name);
+
+  // Operation-level parameters override path-level ones with the same name + location.
+  const parameters = new Map<string, ParameterObject>();
+  for (const raw of [...(pathItem.parameters ?? []), ...(operation.parameters ?? [])]) {
+    const parameter = deref(context.doc, raw);
+    parameters.set(`${parameter.in}:${parameter.name}`, parameter);
+  }
+
+  const groups: string[] = [];
+  let allOptional = true;
+  for (const location of ['path', 'query', 'header'] as const) {
+    const members = [...parameters.values()].filter((parameter) => parameter.in === location);
+    if (members.length === 0) continue;
+
+    const groupRequired = members.some((parameter) => parameter.required || location === 'path');
+    allOptional &&= !groupRequired;
+    const fields = members.map((parameter) => {
+      const optional = parameter.required || location === 'path' ? '' : '?';
+      return docComment(parameter.description, '    ') +
+        `    ${propertyKey(parameter.name)}${optional}: ${schemaToType(parameter.schema, context, '    ')};`;
+    });
+    const key = location === 'header' ? 'headers' : location;
+    groups.push(`  ${key}${groupRequired ? '' : '?'}: {\n${fields.join('\n')}\n  };`);
+  }
+
+  if (operation.requestBody) {
+    const body = deref(context.doc, operation.requestBody);
+    allOptional &&= !body.required;
+    groups.push(`  body${body.required ? '' : '?'}: ${contentToType(body, context, '  ')};`);
+  }
+
+  const responses = Object.entries(operation.responses ?? {}).map(([status, raw]) => {
+    const response = deref(context.doc, raw);
+    const statusType = /^\d{3}$/.test(status) ? status : 'number';
+    return `  | { status: ${statusType}; body: ${contentToType(response, context, '  ')} }`;
+  });
+
+  return {
+    name,
+    typeName,
+    method,
+    route,
+    doc: operation.summary ?? operation.description,
+    paramsType: groups.length ? `{\n${groups.join('\n')}\n}` : null,
+    paramsOptional: allOptional,
+    responseType: responses.length ? `\n${responses.join('\n')}` : ' { status: number; body: unknown }',
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Emit
+// ---------------------------------------------------------------------------
+
+/**
+ * Generate the client module source for an OpenAPI document.
+ *
+ * @param doc - The parsed OpenAPI document
+ * @param options - Class name and source path for the header
+ * @returns TypeScript source code
+ */
+export function generateClient(doc: OpenApiDocument, options: GenerateOptions): string {
+  const { className, source } = options;
+  const out: string[] = [];
+
+  out.push(`// AUTO-GENERATED by scripts/generate-api-client.ts from ${source}. Do not edit by hand.
+// Regenerate with: npm run generate:api-client -- ${source}
+
+import { APIRequestContext, APIResponse } from '@playwright/test';
+
+/**
+ * ${className} — typed client for ${doc.info?.title ?? 'the API'}${doc.info?.version ? ` v${doc.info.version}` : ''}.
+ *
+ * Every method returns the raw APIResponse plus its status and parsed body.
+ * Narrow on \`status\` to get the body type for that status code:
+ *
+ *   const result = await client.someOperation({ ... });
+ *   if (result.status === 200) {
+ *     result.body; // typed for 200
+ *   }
+ */
+`);
+
+  const schemas = Object.entries(doc.components?.schemas ?? {});
+  const context: TypeContext = {
+    doc,
+    inlining: [],
+    named: new Map(),
+    taken: new Set(schemas.map(([name]) => pascalCase(name))),
+  };
+
+  const schemaTypes = schemas.map(
+    ([name, schema]) => `${docComment(schema.description, '')}export type ${pascalCase(name)} = ${schemaToType(schema, context)};\n`,
+  );
+
+  const operations: OperationModel[] = [];
+  for (const [route, pathItem] of Object.entries(doc.paths ?? {})) {
+    for (const method of HTTP_METHODS) {
+      const operation = pathItem[method];
+      if (operation) {
+        operations.push(buildOperation(context, route, method, pathItem, operation));
+      }
+    }
+  }
+
+  // Recursive $refs met above; rendering one may name further refs, which the loop visits too
+  for (const [ref, name] of context.named) {
+    const target = resolveRef<SchemaObject>(doc, ref);
+    schemaTypes.push(`${docComment(target.description, '')}export type ${name} = ${schemaToType(target, context)};\n`);
+  }
+
+  if (schemaTypes.length) {
+    out.push('// ---------------------------------------------------------------------------');
+    out.push('// Schemas');
+    out.push('// ---------------------------------------------------------------------------\n');
+    out.push(...schemaTypes);
+  }
+
+  out.push('// ---------------------------------------------------------------------------');
+  out.push('// Operations');
+  out.push('// ---------------------------------------------------------------------------\n');
+  for (const operation of operations) {
+    if (operation.paramsType) {
+      out.push(`/** Parameters for ${operation.method.toUpperCase()} ${operation.route} */`);
+      out.push(`export interface ${operation.typeName}Params ${operation.paramsType}\n`);
+    }
+    out.push(`/** Responses for ${operation.method.toUpperCase()} ${operation.route}, by status code */`);
+    out.push(`export type ${operation.typeName}Response =${operation.responseType};\n`);
+  }
+
+  out.push(`// ---------------------------------------------------------------------------
+// Client
+// ---------------------------------------------------------------------------
+
+/** A typed response: the raw APIResponse plus its status and parsed body. */
+export type ApiResult<R extends { status: number; body: unknown }> = R & { response: APIResponse };
+
+/** Untyped request parts shared by every operation. */
+interface RequestParts {
+  path?: Record<string, unknown>;
+  query?: Record<string, unknown>;
+  headers?: Record<string, unknown>;
+  body?: unknown;
+}
+
+export class ${className} {
+  constructor(private readonly request: APIRequestContext) {}
+`);
+
+  for (const operation of operations) {
+    const signature = operation.paramsType
+      ? `params: ${operation.typeName}Params${operation.paramsOptional ? ' = {}' : ''}`
+      : '';
+    out.push(`${docComment(operation.doc, '  ')}  async ${operation.name}(${signature}): Promise<ApiResult<${operation.typeName}Response>> {
+    return this.send('${operation.method.toUpperCase()}', '${operation.route}', ${operation.paramsType ? 'params' : '{}'});
+  }
+`);
+  }
+
+  out.push(`  /** Build the URL, send the request and parse the body by content type. */
+  private async send<R extends { status: number; body: unknown }>(
+    method: string,
+    route: string,
+    parts: RequestParts,
+  ): Promise<ApiResult<R>> {
+    const url = route.replace(/\\{([^}]+)\\}/g, (_, name: string) => encodeURIComponent(String(parts.path?.[name])));
+
+    const search = new URLSearchParams();
+    for (const [name, value] of Object.entries(parts.query ?? {})) {
+      if (value === undefined) continue;
+      for (const item of Array.isArray(value) ? value : [value]) {
+        search.append(name, String(item));
+      }
+    }
+    const query = search.toString();
+
+    const headers: Record<string, string> = {};
+    for (const [name, value] of Object.entries(parts.headers ?? {})) {
+      if (value !== undefined) headers[name] = String(value);
+    }
+
+    const response = await this.request.fetch(query ? \`\${url}?\${query}\` : url, {
+      method,
+      headers,
+      data: parts.body,
+    });
+
+    const text = await response.text();
+    const contentType = response.headers()['content-type'] ?? '';
+    const body = text && /[/+]json\\b/.test(contentType) ? JSON.parse(text) : text || undefined;
+
+    return { status: response.status(), body, response } as ApiResult<R>;
+  }
+}
+`);
+
+  return out.join('\n');
+}
@@ -0,0 +1,748 @@
+import {
+  PostmanAuth,
+  PostmanBody,
+  PostmanCollection,
+  PostmanItem,
+  PostmanKeyValue,
+  PostmanScope,
+  collectionScope,
+  isBaseUrlVariable,
+  itemScope,
+  keyValues,
+  postmanEnvName,
+  rawUrl,
+  requestOf,
+  stripBaseUrl,
+} from '../../utils/postman-collection';
+import { getRedactionRules } from '../../utils/redaction';
+
+/**
+ * Postman Collection → Playwright Spec Converter
+ *
+ * Turns a Postman v2.1 collection into one spec file built on the repo's
+ * fixtures:
+ *   - folders become test.describe blocks, requests become tests
+ *   - requests go through `apiContext`; a leading {{baseUrl}}-style variable
+ *     is dropped so URLs resolve against the API base URL
+ *   - other {{variables}} resolve at runtime via PostmanVariables
+ *     (POSTMAN_<NAME> env vars first, then the embedded defaults)
+ *   - pm.test blocks become test.step; common pm.expect / pm.response.to
+ *     assertions become expect / assertStatus
+ *   - pm.environment.set chains values between requests (the describe is
+ *     then run serially)
+ *
+ * Anything it cannot translate is kept as a `// TODO(postman):` comment, so
+ * the generated file always compiles and nothing is silently dropped.
+ *
+ * Used by scripts/convert-postman.ts — see that file for CLI usage.
+ */
+
+/** Options for convertCollection(). */
+export interface ConvertOptions {
+  /** Source file path, recorded in the generated header comment */
+  source: string;
+  /** Import path of the fixtures module, relative to the output file */
+  fixturesImport: string;
+  /** Import path of the utils barrel, relative to the output file */
+  utilsImport: string;
+  /** Postman environment values to embed as defaults (secret-looking ones are left to env vars) */
+  environment?: Record<string, string>;
+}
+
+/** Result of converting a collection. */
+export interface ConvertResult {
+  /** The spec file source */
+  source: string;
+  /** Number of tests generated */
+  tests: number;
+  /** Number of TODO(postman) markers emitted */
+  todos: number;
+}
+
+const TODO = 'TODO(postman):';
+const VERBS = ['get', 'post', 'put', 'patch', 'delete', 'head'];
+
+/** Chai words that only make an assertion read like English. */
+const CHAI_CHAINS = new Set(['to', 'be', 'been', 'is', 'that', 'which', 'and', 'has', 'have', 'with', 'at', 'of', 'same', 'does', 'still', 'also']);
+
+/** Names the generated test body already declares; scripts cannot redeclare them. */
+const GENERATED_NAMES = new Set(['apiContext', 'response', 'vars', 'basicAuth', 'test', 'expect', 'assertStatus', 'PostmanVariables']);
+
+/** Globals and keywords translated code may read besides GENERATED_NAMES and the script's own declarations. */
+const KNOWN_GLOBALS = new Set([
+  'JSON', 'Math', 'Number', 'String', 'Boolean', 'Array', 'Object', 'Date', 'RegExp', 'parseInt', 'parseFloat', 'isNaN',
+  'undefined', 'NaN', 'Infinity', 'null', 'true', 'false', 'await', 'typeof', 'instanceof', 'new', 'in', 'void',
+]);
+
+// ---------------------------------------------------------------------------
+// Source helpers
+// ---------------------------------------------------------------------------
+
+/** Render a string as a single-quoted TypeScript literal. */
+function literal(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\n/g, '\\n')}'`;
+}
+
+/** Quote property names that are not valid identifiers. */
+function propertyKey(name: string): string {
+  return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(name) ? name : literal(name);
+}
+
+/** A string that may contain {{variables}}: a literal, or vars.resolve('...'). */
+function templated(value: string): string {
+  return /\{\{[^{}]+\}\}/.test(value) ? `vars.resolve(${literal(value)})` : literal(value);
+}
+
+/** Render a JSON value as a TypeScript literal (multi-line objects/arrays); strings may contain {{variables}}. */
+function toSource(value: unknown, indent: string): string {
+  if (typeof value === 'string') return templated(value);
+  if (value === null || typeof value !== 'object') return JSON.stringify(value);
+
+  const inner = `${indent}  `;
+  if (Array.isArray(value)) {
+    if (value.length === 0) return '[]';
+    return `[\n${value.map((item) => `${inner}${toSource(item, inner)},`).join('\n')}\n${indent}]`;
+  }
+  const entries = Object.entries(value);
+  if (entries.length === 0) return '{}';
+  return `{\n${entries.map(([key, item]) => `${inner}${propertyKey(key)}: ${toSource(item, inner)},`).join('\n')}\n${indent}}`;
+}
+
+/** Render a string map as an object literal whose values may contain {{variables}}. */
+function templatedObject(values: Record<string, string>, indent: string): string {
+  const inner = `${indent}  `;
+  const entries = Object.entries(values).map(([key, value]) => `${inner}${propertyKey(key)}: ${templated(value)},`);
+  return `{\n${entries.join('\n')}\n${indent}}`;
+}
+
+/** Convert "double-quoted" string literals to single quotes where that is a plain swap. */
+function singleQuote(code: string): string {
+  return code.replace(/"((?:[^"'\\\n])*)"/g, "'$1'");
+}
+
+/** Split an argument list on top-level commas. */
+function splitArgs(args: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let current = '';
+
+  for (let i = 0; i < args.length; i++) {
+    const char = args[i];
+    if (quote) {
+      if (char === '\\') {
+        current += char + args[++i];
+        continue;
+      }
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'" || char === '`') {
+      quote = char;
+    } else if ('([{'.includes(char)) {
+      depth++;
+    } else if (')]}'.includes(char)) {
+      depth--;
+    } else if (char === ',' && depth === 0) {
+      parts.push(current.trim());
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  if (current.trim()) parts.push(current.trim());
+  return parts;
+}
+
+/** Index of the parenthesis closing the one at `open`, or -1. */
+function closingParen(code: string, open: number): number {
+  let depth = 0;
+  let quote: string | null = null;
+  for (let i = open; i < code.length; i++) {
+    const char = code[i];
+    if (quote) {
+      if (char === '\\') i++;
+      else if (char === quote) quote = null;
+    } else if (char === '"' || char === "'" || char === '`') {
+      quote = char;
+    } else if (char === '(') {
+      depth++;
+    } else if (char === ')' && --depth === 0) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/** Blank out string and regex literals, so only code is left to scan. */
+function stripLiterals(code: string): string {
+  return code
+    .replace(/'(?:[^'\\\n]|\\.)*'|"(?:[^"\\\n]|\\.)*"/g, "''")
+    .replace(/(^|[(,=:[!&|?{};]\s*)\/(?![*/])(?:\\.|\[(?:\\.|[^\]\\])*\]|[^/\\\n[])+\/[a-z]*/g, "$1''");
+}
+
+/** Opening minus closing brackets, outside string and regex literals. */
+function bracketDelta(code: string): number {
+  const stripped = stripLiterals(code);
+  return (stripped.match(/[{[(]/g) ?? []).length - (stripped.match(/[}\])]/g) ?? []).length;
+}
+
+/** Identifiers code reads: not property names (`a.b`) or object keys (`{ b: 1 }`). */
+function freeIdentifiers(code: string): string[] {
+  const stripped = stripLiterals(code);
+  const names: string[] = [];
+  for (const match of stripped.matchAll(/(?<![\w$.])[A-Za-z_$][\w$]*/g)) {
+    const before = stripped.slice(0, match.index).trimEnd();
+    const after = stripped.slice(match.index + match[0].length).trimStart();
+    const isKey = /[{,]$/.test(before) && after.startsWith(':');
+    if (!isKey) names.push(match[0]);
+  }
+  return names;
+}
+
+/** Parse a property/call chain ('.to.have.property("a", 1)') into [name, args?] links. */
+function parseChain(chain: string): [string, string | undefined][] | undefined {
+  const links: [string, string | undefined][] = [];
+  let rest = chain.trim();
+  while (rest) {
+    const name = rest.match(/^\.([A-Za-z_$][\w$]*)/);
+    if (!name) return undefined;
+    rest = rest.slice(name[0].length);
+    if (rest.startsWith('(')) {
+      const close = closingParen(rest, 0);
+      if (close === -1) return undefined;
+      links.push([name[1], rest.slice(1, close)]);
+      rest = rest.slice(close + 1);
+    } else {
+      links.push([name[1], undefined]);
+    }
+  }
+  return links;
+}
+
+// ---------------------------------------------------------------------------
+// Script translation
+// ---------------------------------------------------------------------------
+
+/** Rewrite pm.* reads into Playwright equivalents; undefined if any pm.* remains. */
+function translateExpression(expression: string): string | undefined {
+  let code = expression
+    .replace(/JSON\.parse\(\s*responseBody\s*\)/g, '(await response.json())')
+    .replace(/\bpm\.response\.json\(\)/g, '(await response.json())')
+    .replace(/\bpm\.response\.text\(\)/g, '(await response.text())')
+    .replace(/\bresponseBody\b/g, '(await response.text())')
+    .replace(/\bpm\.response\.code\b|\bresponseCode\.code\b/g, 'response.status()')
+    .replace(/\bpm\.response\.status\b/g, 'response.statusText()')
+    .replace(/\bpm\.(?:environment|variables|collectionVariables|globals)\.get\(/g, 'vars.get(')
+    .replace(/\bpostman\.getEnvironmentVariable\(/g, 'vars.get(');
+
+  code = code.replace(/\bpm\.response\.headers\.get\(\s*'([^']*)'\s*\)/g, (_, name: string) =>
+    `response.headers()[${literal(name.toLowerCase())}]`);
+
+  if (/\bpm\.|\bpostman\.|\btests\[/.test(code)) return undefined;
+
+  // A lone `(await x)` does not need its parentheses
+  const bare = code.match(/^\((await [^()]*\(\))\)$/);
+  return bare ? bare[1] : code;
+}
+
+/** Translate pm.expect(actual[, message]).<chai chain>; undefined if unsupported. */
+function translateExpect(statement: string): string | undefined {
+  const open = 'pm.expect'.length;
+  const close = closingParen(statement, open);
+  if (close === -1) return undefined;
+
+  const [actualSource, messageSource, ...extra] = splitArgs(statement.slice(open + 1, close));
+  const links = parseChain(statement.slice(close + 1));
+  const actual = actualSource === undefined ? undefined : translateExpression(actualSource);
+  if (!links || actual === undefined || extra.length) return undefined;
+
+  let negated = false;
+  let deep = false;
+  const assertions = links.filter(([name, args]) => {
+    if (name === 'not') negated = !negated;
+    else if (name === 'deep') deep = true;
+    else if (CHAI_CHAINS.has(name) || ((name === 'a' || name === 'an') && args === undefined)) return false;
+    else return true;
+    return false;
+  });
+  if (assertions.length !== 1) return undefined;
+
+  const [name, rawArgs] = assertions[0];
+  const args = rawArgs === undefined ? [] : splitArgs(rawArgs).map(translateExpression);
+  if (args.some((arg) => arg === undefined)) return undefined;
+  const argList = args.join(', ');
+  const message = messageSource ? `, ${messageSource}` : '';
+  const not = negated ? '.not' : '';
+  const subject = `expect(${actual}${message})${not}`;
+
+  switch (name) {
+    case 'equal': case 'equals': case 'eq':
+      return `${subject}.${deep ? 'toEqual' : 'toBe'}(${argList});`;
+    case 'eql': case 'eqls':
+      return `${subject}.toEqual(${argList});`;
+    case 'true': case 'false': case 'null': case 'undefined': case 'NaN':
+      if (rawArgs !== undefined) return undefined;
+      return name === 'true' || name === 'false' ? `${subject}.toBe(${name});` : `${subject}.toBe${name === 'NaN' ? 'NaN' : name[0].toUpperCase() + name.slice(1)}();`;
+    case 'exist':
+      return `${subject}.toBeDefined();`;
+    case 'ok':
+      return `${subject}.toBeTruthy();`;
+    case 'empty':
+      return `${subject}.toHaveLength(0);`;
+    case 'include': case 'includes': case 'contain': case 'contains':
+      return args[0]?.trim().startsWith('{') ? `${subject}.toMatchObject(${argList});` : `${subject}.toContain(${argList});`;
+    case 'property':
+      return `${subject}.toHaveProperty(${argList});`;
+    case 'lengthOf': case 'length':
+      return `${subject}.toHaveLength(${argList});`;
+    case 'above': case 'gt': case 'greaterThan':
+      return `${subject}.toBeGreaterThan(${argList});`;
+    case 'below': case 'lt': case 'lessThan':
+      return `${subject}.toBeLessThan(${argList});`;
+    case 'least': case 'gte':
+      return `${subject}.toBeGreaterThanOrEqual(${argList});`;
+    case 'most': case 'lte':
+      return `${subject}.toBeLessThanOrEqual(${argList});`;
+    case 'match':
+      return `${subject}.toMatch(${argList});`;
+    case 'a': case 'an':
+      return args[0] === "'array'"
+        ? `expect(Array.isArray(${actual})${message}).toBe(${!negated});`
+        : `expect(typeof ${actual}${message})${not}.toBe(${argList});`;
+    case 'oneOf':
+      return `expect(${argList}${message})${not}.toContain(${actual});`;
+    default:
+      return undefined;
+  }
+}
+
+/** Translate pm.response.to.<chain>; undefined if unsupported. */
+function translateResponseAssertion(statement: string): string | undefined {
+  const links = parseChain(statement.slice('pm.response'.length));
+  if (!links) return undefined;
+
+  const negated = links.some(([name]) => name === 'not');
+  const not = negated ? '.not' : '';
+  const assertions = links.filter(([name]) => name !== 'not' && !CHAI_CHAINS.has(name));
+  if (assertions.length !== 1) return undefined;
+
+  const [name, rawArgs] = assertions[0];
+  const args = rawArgs === undefined ? [] : splitArgs(rawArgs);
+
+  switch (name) {
+    case 'status':
+      if (/^\d+$/.test(args[0] ?? '')) {
+        return negated ? `expect(response.status()).not.toBe(${args[0]});` : `await assertStatus(response, ${args[0]});`;
+      }
+      return args.length === 1 ? `expect(response.statusText())${not}.toBe(${args[0]});` : undefined;
+    case 'ok': case 'success':
+      return `expect(response.ok()).toBe(${!negated});`;
+    case 'notFound':
+      return `expect(response.status())${not}.toBe(404);`;
+    case 'json':
+      return `expect(response.headers()['content-type'])${not}.toContain('json');`;
+    case 'jsonBody':
+      return args.length === 0 ? `expect(response.headers()['content-type'])${not}.toContain('json');` : undefined;
+    case 'header': {
+      const header = args[0]?.match(/^'([^']*)'$/);
+      if (!header) return undefined;
+      const key = literal(header[1].toLowerCase());
+      return args.length === 1
+        ? `expect(response.headers())${not}.toHaveProperty(${key});`
+        : `expect(response.headers()[${key}])${not}.toBe(${args[1]});`;
+    }
+    case 'body':
+      return args.length === 1 ? `expect(await response.text())${not}.toBe(${args[0]});` : undefined;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Names a script's translated statements can read: its own declarations
+ * by pm.test step (innermost last), on top of the generated ones.
+ */
+type DeclaredNames = Set<string>[];
+
+/** Whether translated code only reads names that exist in the generated spec. */
+function readsKnownNames(code: string, declared: DeclaredNames): boolean {
+  return freeIdentifiers(code).every(
+    (name) => GENERATED_NAMES.has(name) || KNOWN_GLOBALS.has(name) || declared.some((scope) => scope.has(name)),
+  );
+}
+
+/**
+ * Translate one statement; undefined if it has no safe translation.
+ *
+ * A declaration is translated only if its initializer is complete on the
+ * line and reads nothing the spec lacks (e.g. the sandbox's `_` or `tv4`);
+ * its name is then added to the innermost scope of `declared`.
+ */
+function translateStatement(line: string, declared: DeclaredNames): string | undefined {
+  const statement = singleQuote(line.trim()).replace(/;$/, '').trim();
+
+  const declaration = statement.match(/^(?:var|let|const)\s+([A-Za-z_$][\w$]*)\s*=\s*(.+)$/);
+  if (declaration) {
+    const [, name, initializer] = declaration;
+    if (bracketDelta(initializer) !== 0 || GENERATED_NAMES.has(name) || declared.some((scope) => scope.has(name))) return undefined;
+    const value = translateExpression(initializer);
+    if (value === undefined || !readsKnownNames(value, declared)) return undefined;
+    declared[declared.length - 1].add(name);
+    return `const ${name} = ${value};`;
+  }
+
+  const translated = translateOther(statement);
+  return translated !== undefined && readsKnownNames(translated, declared) ? translated : undefined;
+}
+
+/** Translate a statement other than a declaration; undefined if it has no translation. */
+function translateOther(statement: string): string | undefined {
+  const setter = statement.match(/^(?:pm\.(?:environment|variables|collectionVariables|globals)\.set|postman\.setEnvironmentVariable)\((.*)\)$/);
+  if (setter) {
+    const args = splitArgs(setter[1]).map(translateExpression);
+    return args.length === 2 && args.every(Boolean) ? `vars.set(${args.join(', ')});` : undefined;
+  }
+
+  const unsetter = statement.match(/^pm\.(?:environment|variables|collectionVariables|globals)\.unset\((.*)\)$/);
+  if (unsetter) {
+    return `vars.unset(${unsetter[1]});`;
+  }
+
+  // Legacy sandbox: tests["name"] = condition
+  const legacy = statement.match(/^tests\[\s*('[^']*')\s*\]\s*=\s*(.+)$/);
+  if (legacy) {
+    const condition = translateExpression(legacy[2]);
+    return condition === undefined ? undefined : `expect(${condition}, ${legacy[1]}).toBe(true);`;
+  }
+
+  if (statement.startsWith('pm.expect(')) return translateExpect(statement);
+  if (statement.startsWith('pm.response.to.')) return translateResponseAssertion(statement);
+  return undefined;
+}
+
+/** Translation state shared across the scripts of one collection. */
+interface ScriptContext {
+  todos: number;
+  setsVariables: boolean;
+  usesAssertStatus: boolean;
+}
+
+/**
+ * Translate a pre-request or test script into test body lines.
+ *
+ * pm.test blocks become test.step; untranslatable lines (and whole blocks
+ * they open, so nothing runs outside its original condition) become TODOs.
+ */
+function translateScript(lines: string[], indent: string, context: ScriptContext, declared: DeclaredNames): string[] {
+  const out: string[] = [];
+  const steps: number[] = [];
+  let skippedDepth = 0;
+
+  const todo = (line: string) => {
+    context.todos++;
+    out.push(`${indent}${'  '.repeat(steps.length)}// ${TODO} ${line.trim()}`);
+  };
+
+  for (const line of lines) {
+    const trimmed = line.trim();
+    const pad = `${indent}${'  '.repeat(steps.length)}`;
+
+    if (skippedDepth > 0) {
+      skippedDepth += bracketDelta(trimmed);
+      todo(line);
+      continue;
+    }
+    if (!trimmed) {
+      out.push('');
+      continue;
+    }
+    if (trimmed.startsWith('//')) {
+      out.push(`${pad}${trimmed}`);
+      continue;
+    }
+
+    const step = trimmed.match(/^pm\.test\(\s*(["'`])(.*?)\1\s*,\s*(?:async\s*)?(?:function\s*\(\s*\)|\(\s*\)\s*=>)\s*\{(.*)$/);
+    if (step) {
+      const inline = step[3].match(/^(.*?)\}\s*\)\s*;?\s*$/);
+      out.push(`${pad}await test.step(${literal(step[2])}, async () => {`);
+      if (inline) {
+        // One-line pm.test("name", function () { a; b; });
+        steps.push(0);
+        declared.push(new Set());
+        for (const statement of inline[1].split(';').filter((part) => part.trim())) {
+          emit(statement);
+        }
+        steps.pop();
+        declared.pop();
+        out.push(`${pad}});`);
+      } else {
+        steps.push(0);
+        declared.push(new Set());
+      }
+      continue;
+    }
+
+    if (/^\}\s*\)\s*;?$/.test(trimmed) && steps.length > 0) {
+      steps.pop();
+      declared.pop();
+      out.push(`${indent}${'  '.repeat(steps.length)}});`);
+      continue;
+    }
+
+    emit(line);
+  }
+
+  /** Emit a translated statement, or a TODO (skipping the block it opens). */
+  function emit(line: string): void {
+    const translated = translateStatement(line, declared);
+    if (translated === undefined) {
+      todo(line);
+      skippedDepth = Math.max(0, bracketDelta(line.trim()));
+      return;
+    }
+    if (translated.startsWith('vars.set(') || translated.startsWith('vars.unset(')) context.setsVariables = true;
+    if (translated.includes('assertStatus(')) context.usesAssertStatus = true;
+    out.push(`${indent}${'  '.repeat(steps.length)}${translated}`);
+  }
+
+  // Close any pm.test left open by a malformed script
+  while (steps.length > 0) {
+    steps.pop();
+    declared.pop();
+    out.push(`${indent}${'  '.repeat(steps.length)}});`);
+  }
+  return out;
+}
+
+// ---------------------------------------------------------------------------
+// Requests
+// ---------------------------------------------------------------------------
+
+/** Headers for a Postman auth block; undefined (with a TODO) for unsupported types. */
+function authHeaders(auth: PostmanAuth | undefined, indent: string, context: ScriptContext, out: string[]): Record<string, string> {
+  if (!auth || auth.type === 'noauth') return {};
+  const settings = keyValues(auth[auth.type] as PostmanKeyValue[] | undefined);
+
+  switch (auth.type) {
+    case 'bearer':
+      return { Authorization: `Bearer ${settings.token ?? ''}` };
+    case 'apikey':
+      if ((settings.in ?? 'header') === 'header') return { [settings.key ?? 'X-Api-Key']: settings.value ?? '' };
+      break;
+    case 'basic':
+      out.push(`${indent}const basicAuth = Buffer.from(${templated(`${settings.username ?? ''}:${settings.password ?? ''}`)}).toString('base64');`);
+      return { Authorization: '${basicAuth}' };
+  }
+  context.todos++;
+  out.push(`${indent}// ${TODO} "${auth.type}" auth is not converted — add the credentials it sends.`);
+  return {};
+}
+
+/** The request options literal (headers/data/form/multipart), or undefined when empty. */
+function requestOptions(
+  headers: Record<string, string>,
+  body: PostmanBody | undefined,
+  indent: string,
+  context: ScriptContext,
+  preamble: string[],
+): string | undefined {
+  const inner = `${indent}  `;
+  const parts: string[] = [];
+
+  const headerEntries = Object.entries(headers).map(([key, value]) => {
+    const source = value === '${basicAuth}' ? '`Basic ${basicAuth}`' : templated(value);
+    return `${inner}  ${propertyKey(key)}: ${source},`;
+  });
+  if (headerEntries.length) parts.push(`${inner}headers: {\n${headerEntries.join('\n')}\n${inner}},`);
+
+  switch (body?.mode) {
+    case undefined:
+      break;
+    case 'raw': {
+      const raw = body.raw ?? '';
+      if (!raw.trim()) break;
+      let json: unknown;
+      try {
+        json = JSON.parse(raw);
+      } catch {
+        json = undefined;
+      }
+      if (json !== undefined && body.options?.raw?.language !== 'text') {
+        // {{variables}} inside JSON strings resolve per value
+        parts.push(`${inner}data: ${toSource(json, inner)},`);
+      } else if (/^\s*[[{]/.test(raw) && /\{\{[^{}]+\}\}/.test(raw)) {
+        // Unquoted {{variables}} (e.g. "age": {{age}}) — resolve the text, then parse
+        parts.push(`${inner}data: JSON.parse(${templated(raw)}),`);
+      } else {
+        parts.push(`${inner}data: ${templated(raw)},`);
+      }
+      break;
+    }
+    case 'urlencoded':
+      parts.push(`${inner}form: ${templatedObject(keyValues(body.urlencoded), inner)},`);
+      break;
+    case 'formdata': {
+      const fields = (body.formdata ?? []).filter((field) => !field.disabled);
+      const files = fields.filter((field) => field.type === 'file');
+      if (files.length) {
+        context.todos++;
+        preamble.push(`${indent}// ${TODO} file fields (${files.map((field) => field.key).join(', ')}) are not converted — attach them with { name, mimeType, buffer }.`);
+      }
+      const text = Object.fromEntries(fields.filter((field) => field.type !== 'file').map((field) => [field.key, field.value ?? '']));
+      parts.push(`${inner}multipart: ${templatedObject(text, inner)},`);
+      break;
+    }
+    case 'graphql': {
+      const query = templated(body.graphql?.query ?? '');
+      const variables = body.graphql?.variables?.trim() ? `JSON.parse(${templated(body.graphql.variables)})` : '{}';
+      parts.push(`${inner}data: { query: ${query}, variables: ${variables} },`);
+      break;
+    }
+    default:
+      context.todos++;
+      preamble.push(`${indent}// ${TODO} "${body?.mode}" request bodies are not converted.`);
+  }
+
+  return parts.length ? `{\n${parts.join('\n')}\n${indent}}` : undefined;
+}
+
+/** Emit the test for one request item. */
+function convertRequest(
+  item: PostmanItem,
+  parent: PostmanScope,
+  indent: string,
+  defaults: Record<string, string>,
+  context: ScriptContext,
+): string[] {
+  const request = requestOf(item);
+  const scope = itemScope(parent, item);
+  const method = (request.method ?? 'GET').toUpperCase();
+  const body = `${indent}  `;
+  const out: string[] = [`${indent}test(${literal(item.name)}, async ({ apiContext }) => {`];
+  // Both scripts land in the same test body, so they share its top-level names
+  const declared: DeclaredNames = [new Set()];
+
+  if (scope.prerequest.length) {
+    out.push(...translateScript(scope.prerequest, body, context, declared), '');
+  }
+
+  const preamble: string[] = [];
+  const headers = {
+    ...authHeaders(scope.auth, body, context, preamble),
+    ...keyValues(request.header),
+  };
+  const options = requestOptions(headers, request.body, body, context, preamble);
+  const url = templated(stripBaseUrl(rawUrl(request.url), (name) => defaults[name]));
+
+  out.push(...preamble);
+  if (VERBS.includes(method.toLowerCase())) {
+    out.push(`${body}const response = await apiContext.${method.toLowerCase()}(${url}${options ? `, ${options}` : ''});`);
+  } else {
+    const fetchOptions = options ? options.replace(/^\{\n/, `{\n${body}  method: ${literal(method)},\n`) : `{ method: ${literal(method)} }`;
+    out.push(`${body}const response = await apiContext.fetch(${url}, ${fetchOptions});`);
+  }
+
+  if (scope.test.length) {
+    out.push('', ...translateScript(scope.test, body, context, declared));
+  } else {
+    out.push('', `${body}// No Postman tests — at least check the request succeeded`);
+    out.push(`${body}expect(response.ok()).toBe(true);`);
+  }
+
+  out.push(`${indent}});`);
+  return out;
+}
+
+/** Emit a folder (describe block) and everything in it. */
+function convertItems(
+  items: PostmanItem[],
+  parent: PostmanScope,
+  indent: string,
+  defaults: Record<string, string>,
+  context: ScriptContext,
+  counter: { tests: number },
+): string[] {
+  const out: string[] = [];
+  for (const item of items) {
+    if (out.length) out.push('');
+    if (item.item) {
+      out.push(`${indent}test.describe(${literal(item.name)}, () => {`);
+      out.push(...convertItems(item.item, itemScope(parent, item), `${indent}  `, defaults, context, counter));
+      out.push(`${indent}});`);
+    } else {
+      counter.tests++;
+      out.push(...convertRequest(item, parent, indent, defaults, context));
+    }
+  }
+  return out;
+}
+
+// ---------------------------------------------------------------------------
+// Emit
+// ---------------------------------------------------------------------------
+
+/**
+ * Convert a Postman collection into a Playwright spec.
+ *
+ * @param collection - The parsed collection
+ * @param options - Source path, import paths and optional environment values
+ * @returns The spec source, plus test and TODO counts
+ */
+export function convertCollection(collection: PostmanCollection, options: ConvertOptions): ConvertResult {
+  const context: ScriptContext = { todos: 0, setsVariables: false, usesAssertStatus: false };
+  const collectionVars = keyValues(collection.variable);
+  const environment = options.environment ?? {};
+  const defaults = { ...collectionVars, ...environment };
+
+  const counter = { tests: 0 };
+  const body = convertItems(collection.item, collectionScope(collection), '  ', defaults, context, counter);
+
+  // Embed non-secret defaults; secrets must come from POSTMAN_* env vars
+  const secretKeys = getRedactionRules().keys;
+  const isSecret = (name: string) => secretKeys.some((pattern) => pattern.test(name));
+  const embed = (values: Record<string, string>) =>
+    Object.fromEntries(Object.entries(values).filter(([name, value]) => !isSecret(name) && !isBaseUrlVariable(name, value)));
+  const secrets = Object.keys(defaults).filter(isSecret);
+
+  const utilsImports = ['PostmanVariables', ...(context.usesAssertStatus ? ['assertStatus'] : [])].sort();
+  const title = `${collection.info.name} @api`;
+
+  const out: string[] = [];
+  out.push(`// Converted by scripts/convert-postman.ts from ${options.source}.
+// Review the TODO(postman) markers, then maintain this file like any other spec.
+
+import { test, expect } from '${options.fixturesImport}';
+import { ${utilsImports.join(', ')} } from '${options.utilsImport}';
+
+/**
+ * ${collection.info.name} - @api
+ *${collection.info.description ? `\n * ${collection.info.description.replace(/\*\//g, '*\\/').split('\n').join('\n * ')}\n *` : ''}
+ * {{variables}} resolve from POSTMAN_<NAME> environment variables first
+ * (e.g. {{userId}} → POSTMAN_USER_ID), then the defaults below. Requests
+ * are relative to the API base URL (API_BASE_URL, or the stub server).
+ */
+`);
+
+  const environmentDefaults = embed(environment);
+  const collectionDefaults = embed(collectionVars);
+  out.push(`const vars = new PostmanVariables(`);
+  out.push(`  ${toSource(environmentDefaults, '  ')},`);
+  out.push(`  ${toSource(collectionDefaults, '  ')},`);
+  out.push(`);`);
+  if (secrets.length) {
+    context.todos++;
+    out.push(`// ${TODO} set ${secrets.map(postmanEnvName).join(', ')} in .env — secret values are not copied from Postman.`);
+  }
+  out.push('');
+
+  out.push(`test.describe(${literal(title)}, () => {`);
+  if (context.setsVariables) {
+    out.push(`  // Requests pass values to each other through vars, so run them in order`);
+    out.push(`  test.describe.configure({ mode: 'serial' });`);
+    out.push('');
+  }
+  out.push(...body);
+  out.push('});');
+
+  const source = `${out.join('\n').replace(/[ \t]+$/gm, '')}\n`;
+  return { source, tests: counter.tests, todos: context.todos };
+}
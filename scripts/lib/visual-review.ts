@@ -0,0 +1,90 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { VisualChange } from '../../utils/visual';
+
+/**
+ * Visual Baseline Review
+ *
+ * Reads the screenshot changes the visual reporter recorded
+ * (test-results/visual-changes.json), renders a side-by-side review page
+ * (baseline, actual, diff) and approves changes by copying the actual
+ * screenshot over the baseline.
+ *
+ * Used by scripts/visual-review.ts — see that file for CLI usage.
+ */
+
+/**
+ * Load the recorded changes.
+ *
+ * @returns The changes, or an empty list if the file does not exist
+ */
+export function loadVisualChanges(file: string): VisualChange[] {
+  if (!fs.existsSync(file)) return [];
+  return JSON.parse(fs.readFileSync(file, 'utf8')) as VisualChange[];
+}
+
+/**
+ * Whether a change matches any of the filters (substrings of its name,
+ * project, test title or baseline path). No filters match everything.
+ */
+export function matchesFilters(change: VisualChange, filters: string[]): boolean {
+  if (filters.length === 0) return true;
+  const haystack = [change.name, change.project, change.test, change.baseline].join('\n');
+  return filters.some((filter) => haystack.includes(filter));
+}
+
+/** Accept a change: the actual screenshot becomes the baseline. */
+export function approveVisualChange(change: VisualChange): void {
+  fs.mkdirSync(path.dirname(change.baseline), { recursive: true });
+  fs.copyFileSync(change.actual, change.baseline);
+}
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"]/g, (char) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' })[char]!);
+
+/**
+ * Render an HTML page showing each change's baseline, actual screenshot
+ * and diff side by side.
+ *
+ * @param changes - The changes to show
+ * @param htmlFile - Where the page will be written (image paths are relative to it)
+ * @returns The HTML source
+ */
+export function renderVisualReview(changes: VisualChange[], htmlFile: string): string {
+  const src = (file: string) => escapeHtml(path.relative(path.dirname(htmlFile), file).split(path.sep).join('/'));
+  const image = (label: string, file: string | undefined) =>
+    file && fs.existsSync(file)
+      ? `<figure><figcaption>${label}</figcaption><a href="${src(file)}"><img src="${src(file)}" alt="${label}"></a></figure>`
+      : `<figure><figcaption>${label}</figcaption><p>(none)</p></figure>`;
+
+  const sections = changes.map((change, index) => `
+  <section>
+    <h2>${index + 1}. ${escapeHtml(change.name)} <small>${escapeHtml(change.project)} — ${change.status}</small></h2>
+    <p>${escapeHtml(change.test)}<br><code>${escapeHtml(change.baseline)}</code></p>
+    <div class="images">
+      ${change.status === 'changed' ? image('Baseline', change.baseline) : ''}
+      ${image('Actual', change.actual)}
+      ${image('Diff', change.diff)}
+    </div>
+  </section>`);
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>Visual review — ${changes.length} change(s)</title>
+  <style>
+    body { font-family: system-ui, sans-serif; margin: 2rem; }
+    .images { display: flex; gap: 1rem; align-items: flex-start; }
+    figure { margin: 0; flex: 1; }
+    img { max-width: 100%; border: 1px solid #888; }
+  </style>
+</head>
+<body>
+  <h1>Visual review — ${changes.length} change(s)</h1>
+  <p>Approve with <code>npm run visual:review -- --approve [filter...]</code></p>
+${sections.join('\n')}
+</body>
+</html>
+`;
+}
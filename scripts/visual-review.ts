@@ -0,0 +1,89 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { approveVisualChange, loadVisualChanges, matchesFilters, renderVisualReview } from './lib/visual-review';
+import { VISUAL_CHANGES_FILE } from '../utils/visual';
+
+/**
+ * Review and Approve Visual Baselines
+ *
+ * Lists the screenshots that differed from their baselines in the last
+ * run (recorded by utils/visual-reporter.ts), with paths to the baseline,
+ * actual and diff images, and writes test-results/visual-review.html to
+ * compare them side by side. With --approve, copies the actual screenshots
+ * over the baselines — review the diffs first, then commit the baselines.
+ *
+ * Usage:
+ *   npm run visual:review -- [filter...] [--approve] [--results <dir>]
+ *
+ *   filter     Only changes whose name, project, test or baseline path
+ *              contains one of these (default: all)
+ *   --approve  Accept the (filtered) changes as the new baselines
+ *   --results  Output dir of the run (default: test-results)
+ *
+ * @example
+ *   npm run visual:review
+ *   npm run visual:review -- --approve dashboard.png
+ */
+
+const { values, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    approve: { type: 'boolean', default: false },
+    results: { type: 'string', default: 'test-results' },
+  },
+});
+
+const changesFile = path.join(values.results!, VISUAL_CHANGES_FILE);
+const allChanges = loadVisualChanges(changesFile);
+const changes = allChanges.filter((change) => matchesFilters(change, positionals));
+const relative = (file: string) => path.relative(process.cwd(), file);
+
+if (changes.length === 0) {
+  // eslint-disable-next-line no-console
+  console.log(
+    allChanges.length === 0
+      ? `[visual] No visual changes recorded in ${changesFile} — run the visual tests first.`
+      : `[visual] None of the ${allChanges.length} change(s) match ${positionals.join(', ')}.`,
+  );
+  process.exit(0);
+}
+
+if (values.approve) {
+  for (const change of changes) approveVisualChange(change);
+
+  const remaining = allChanges.filter((change) => !changes.includes(change));
+  if (remaining.length > 0) {
+    fs.writeFileSync(changesFile, `${JSON.stringify(remaining, null, 2)}\n`);
+  } else {
+    fs.rmSync(changesFile);
+  }
+
+  // eslint-disable-next-line no-console
+  console.log(
+    [
+      `[visual] Approved ${changes.length} baseline(s):`,
+      ...changes.map((change) => `  ${relative(change.baseline)}`),
+      'Commit the updated baselines with the change that caused them.',
+    ].join('\n'),
+  );
+  process.exit(0);
+}
+
+const htmlFile = path.join(values.results!, 'visual-review.html');
+fs.writeFileSync(htmlFile, renderVisualReview(changes, htmlFile));
+
+// eslint-disable-next-line no-console
+console.log(
+  [
+    `[visual] ${changes.length} screenshot change(s):`,
+    ...changes.flatMap((change, index) => [
+      `  ${index + 1}. [${change.status}] ${change.project} › ${change.name} — ${change.test}`,
+      `       baseline: ${relative(change.baseline)}`,
+      `       actual:   ${relative(change.actual)}`,
+      ...(change.diff ? [`       diff:     ${relative(change.diff)}`] : []),
+    ]),
+    `Side by side: ${relative(htmlFile)}`,
+    'Approve: npm run visual:review -- --approve [filter...]',
+  ].join('\n'),
+);
@@ -0,0 +1,48 @@
+import { test, expect } from '../fixtures/base.fixture';
+import { getApiBaseUrl } from '../../utils';
+
+/**
+ * Typed API Client Tests - @api
+ *
+ * These tests use the `apiClient` fixture, generated from
+ * openapi/stub-api.yaml by `npm run generate:api-client`. Compared with
+ * apiContext, paths and payloads are checked at compile time and response
+ * bodies are typed per status code — no casting `response.json()`.
+ *
+ * When you point the generator at your own OpenAPI document, replace these
+ * operations with your API's.
+ */
+
+test.skip(!!getApiBaseUrl(), 'The example OpenAPI document describes the stub server');
+
+test.describe('Typed API Client @api', () => {
+
+  test('GET returns a typed body', async ({ apiClient }) => {
+    const result = await apiClient.getEcho({ query: { search: 'shoes' } });
+
+    expect(result.status).toBe(200);
+    expect(result.body.args.search).toBe('shoes');
+  });
+
+  test('POST sends a typed payload', async ({ apiClient }) => {
+    const payload = { name: 'test-user', email: 'test@example.com' };
+
+    const result = await apiClient.postEcho({ body: payload });
+
+    expect(result.status).toBe(200);
+    expect(result.body.json).toEqual(payload);
+  });
+
+  test('path parameters are substituted', async ({ apiClient }) => {
+    const result = await apiClient.getStatus({ path: { code: 404 } });
+
+    expect(result.status).toBe(404);
+    expect(result.response.ok()).toBeFalsy();
+  });
+
+  test('non-JSON bodies are returned as text', async ({ apiClient }) => {
+    const result = await apiClient.getHtml();
+
+    expect(result.body).toContain('<h1>Stub API</h1>');
+  });
+});
@@ -0,0 +1,104 @@
+import { test, expect } from '../fixtures/base.fixture';
+import { CreatedDataRegistry, TestData, defineFactory } from '../../utils';
+
+/**
+ * Created Test Data Tests - @api
+ *
+ * factory.create() POSTs a built object and records the new resource.
+ * When the test ends — pass or fail — apiContext deletes everything it
+ * created, newest first. Anything that cannot be deleted is reported as
+ * a warning and a test-data-leftovers.json attachment.
+ *
+ * The stub server plays a small /api/projects and /api/tasks API here.
+ */
+
+interface ProjectData {
+  name: string;
+  owner: string;
+}
+
+interface TaskData {
+  title: string;
+  projectId?: string | number;
+}
+
+const projectFactory = defineFactory('project', {
+  build: ({ sequence }): ProjectData => ({ name: `Project ${sequence}`, owner: TestData.email('owner') }),
+  persist: { createPath: '/api/projects', deletePath: '/api/projects/{id}' },
+});
+
+const taskFactory = defineFactory('task', {
+  build: ({ sequence }): TaskData => ({ title: `Task ${sequence}` }),
+  persist: { createPath: '/api/tasks', deletePath: '/api/tasks/{id}', idField: 'key' },
+});
+
+/** DELETE requests the stub API received during the current test. */
+let deleted: string[] = [];
+
+test.describe('Created Test Data @api', () => {
+  test.beforeEach(async ({ stubServer }) => {
+    deleted = [];
+    let nextId = 1;
+    stubServer.route({
+      method: 'POST',
+      path: /^\/api\/(projects|tasks)$/,
+      handler: (request) => {
+        const id = nextId++;
+        const body = JSON.parse(request.body);
+        return { status: 201, body: request.path === '/api/tasks' ? { ...body, key: `T-${id}` } : { ...body, id } };
+      },
+    });
+    stubServer.route({
+      method: 'DELETE',
+      path: /^\/api\/(projects|tasks)\/[^/]+$/,
+      handler: (request) => {
+        deleted.push(request.path);
+        return { status: request.path.endsWith('/locked') ? 409 : 204 };
+      },
+    });
+  });
+
+  test('create() posts the built object and returns the created resource', async ({ createdData }) => {
+    const project = await projectFactory.create({ name: 'Apollo' });
+    const tasks = await taskFactory.createList(2, (index) => ({ title: `Step ${index + 1}`, projectId: project.id }));
+
+    expect(project).toMatchObject({ id: 1, name: 'Apollo', owner: expect.stringMatching(/^owner\./) });
+    expect(tasks.map((task) => [task.id, task.title, task.projectId])).toEqual([
+      ['T-2', 'Step 1', 1],
+      ['T-3', 'Step 2', 1],
+    ]);
+    expect(createdData.resources.map((resource) => resource.deletePath)).toEqual([
+      '/api/projects/1',
+      '/api/tasks/T-2',
+      '/api/tasks/T-3',
+    ]);
+  });
+
+  test('cleanup deletes the created resources newest first', async ({ createdData }) => {
+    const project = await projectFactory.create();
+    await taskFactory.createList(2, () => ({ projectId: project.id }));
+
+    // The fixture runs the same cleanup when the test ends; by then nothing is left
+    await expect(createdData.cleanup()).resolves.toEqual([]);
+    expect(deleted).toEqual(['/api/tasks/T-3', '/api/tasks/T-2', '/api/projects/1']);
+    expect(createdData.resources).toHaveLength(0);
+  });
+
+  test('resources that cannot be deleted are reported as leftovers', async ({ apiContext }) => {
+    const registry = new CreatedDataRegistry(apiContext);
+    registry.track({ factory: 'project', id: 'locked', deletePath: '/api/projects/locked' });
+    registry.track({ factory: 'project', id: 'gone', deletePath: '/api/missing/gone' });
+
+    const leftovers = await registry.cleanup();
+
+    // The 404 counts as already deleted; the 409 is left over
+    expect(leftovers).toEqual([
+      { factory: 'project', id: 'locked', deletePath: '/api/projects/locked', error: 'DELETE /api/projects/locked returned 409' },
+    ]);
+    expect(registry.resources).toHaveLength(0);
+  });
+
+  test('create() needs a persist endpoint', async () => {
+    await expect(TestData.address.create()).rejects.toThrow('[test-data] Factory "address" has no persist endpoint');
+  });
+});
@@ -0,0 +1,93 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { test, expect } from '../fixtures/base.fixture';
+import { loadEnvConfig } from '../../utils';
+
+/**
+ * Environment Configuration Tests - @api
+ *
+ * Loads the schema (utils/env.ts) against .env files in a temporary
+ * directory and explicit variables, so the real environment of the run
+ * does not leak in. No browser or network needed.
+ */
+
+const BASE_URL = 'https://app.example.test';
+
+let dir: string;
+
+test.beforeAll(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'env-spec-'));
+  fs.writeFileSync(path.join(dir, '.env'), 'BASE_URL=https://base.example.test\nADMIN_USERNAME=admin-from-env\n');
+  fs.writeFileSync(path.join(dir, '.env.staging'), 'BASE_URL=https://staging.example.test\n');
+});
+
+test.afterAll(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+test.describe('Environment Configuration @api', () => {
+  test('profiles are layered: variables over .env.<profile> over .env over defaults', async () => {
+    const dev = loadEnvConfig({}, dir);
+    expect(dev.testEnv).toBe('dev');
+    expect(dev.baseUrl).toBe('https://base.example.test');
+    expect(dev.adminUsername).toBe('admin-from-env');
+    expect(dev.authTokenEndpoint).toBe('/api/auth/login');
+
+    const staging = loadEnvConfig({ TEST_ENV: 'staging' }, dir);
+    expect(staging.baseUrl).toBe('https://staging.example.test');
+    expect(staging.adminUsername).toBe('admin-from-env');
+
+    const overridden = loadEnvConfig({ TEST_ENV: 'staging', BASE_URL }, dir);
+    expect(overridden.baseUrl).toBe(BASE_URL);
+  });
+
+  test('loading does not write the file values into the source', async () => {
+    const source: Record<string, string | undefined> = { TEST_ENV: 'staging' };
+    loadEnvConfig(source, dir);
+    expect(source).toEqual({ TEST_ENV: 'staging' });
+
+    // A second load with another profile is not shadowed by the first
+    expect(loadEnvConfig({ TEST_ENV: 'dev' }, dir).baseUrl).toBe('https://base.example.test');
+  });
+
+  test('values are coerced to their declared types', async () => {
+    const config = loadEnvConfig(
+      { BASE_URL, CI: 'yes', AUTH_TOKEN_EXPIRY_MARGIN_SECONDS: ' 15 ', RECORD_TRAFFIC: 'retain-on-failure' },
+      dir,
+    );
+    expect(config.ci).toBe(true);
+    expect(config.authTokenExpiryMarginSeconds).toBe(15);
+    expect(config.recordTraffic).toBe('retain-on-failure');
+    expect(loadEnvConfig({ BASE_URL, CI: '0' }, dir).ci).toBe(false);
+  });
+
+  test('blank values fall back to the default', async () => {
+    const config = loadEnvConfig({ BASE_URL, CI: '  ', API_BASE_URL: '' }, dir);
+    expect(config.ci).toBe(false);
+    expect(config.apiBaseUrl).toBeUndefined();
+  });
+
+  test('every malformed variable is reported in one error', async () => {
+    const load = () =>
+      loadEnvConfig(
+        {
+          BASE_URL: 'app.example.test/login',
+          CI: 'maybe',
+          AUTH_TOKEN_EXPIRY_MARGIN_SECONDS: 'soon',
+          RECORD_TRAFFIC: 'sometimes',
+        },
+        dir,
+      );
+
+    expect(load).toThrow('[env] Invalid environment configuration (profile: dev)');
+    expect(load).toThrow('BASE_URL: expected an absolute URL, got "app.example.test/login"');
+    expect(load).toThrow('CI: expected a boolean (true/false/1/0/yes/no), got "maybe"');
+    expect(load).toThrow('AUTH_TOKEN_EXPIRY_MARGIN_SECONDS: expected a number, got "soon"');
+    expect(load).toThrow('RECORD_TRAFFIC: expected one of off, on, retain-on-failure, got "sometimes"');
+  });
+
+  test('an unknown profile is rejected', async () => {
+    expect(() => loadEnvConfig({ BASE_URL, TEST_ENV: 'qa' }, dir)).toThrow('TEST_ENV: expected one of dev, staging, prod, got "qa"');
+  });
+});
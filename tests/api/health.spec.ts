@@ -3,24 +3,25 @@ import { test, expect } from '../fixtures/base.fixture';
 /**
  * API Health Check Tests - @api
  *
- * These tests verify basic API testing patterns using httpbin.org,
- * a freely available HTTP testing service. They serve as:
+ * These tests verify basic API testing patterns against httpbin-style
+ * endpoints. When API_BASE_URL is unset they run against the bundled stub
+ * server (utils/stub-server.ts), so they pass offline. They serve as:
  *   1. Proof that the framework works out of the box
  *   2. Examples of common API test patterns to adapt to your own API
  *
  * When you're ready to test your own API:
  *   1. Set API_BASE_URL in your .env file
- *   2. Replace the httpbin.org endpoints below with your real endpoints
+ *   2. Replace the httpbin-style endpoints below with your real endpoints
  *
  * @see https://playwright.dev/docs/api-testing
- * @see https://httpbin.org — public HTTP testing service
+ * @see https://httpbin.org — the public service the stub server mimics
  */
 
 test.describe('API Health Check Tests @api', () => {
 
   test('GET request returns 200 @smoke', async ({ apiContext }) => {
     // Send a GET request and verify a successful response.
-    // httpbin.org/get echoes back the request details.
+    // /get echoes back the request details.
     //
     // Adapt: Replace with your health check endpoint, e.g. '/api/health'
     const response = await apiContext.get('/get');
@@ -59,7 +60,7 @@ test.describe('API Health Check Tests @api', () => {
     expect(typeof body).toBe('object');
     expect(body).not.toBeNull();
 
-    // httpbin.org/get returns { url, headers, origin, args }
+    // /get returns { url, headers, origin, args }
     expect(body).toHaveProperty('url');
     expect(body).toHaveProperty('headers');
   });
@@ -75,7 +76,7 @@ test.describe('API Health Check Tests @api', () => {
 
     const duration = Date.now() - startTime;
 
-    // Assert response was received within 5 seconds (generous for a public API)
+    // Assert response was received within 5 seconds (generous for a remote API)
     // Tighten this threshold for your own API (e.g., 500ms for a health check)
     expect(duration).toBeLessThan(5000);
     expect(response.ok()).toBeTruthy();
@@ -83,7 +84,7 @@ test.describe('API Health Check Tests @api', () => {
 
   test('POST with JSON body returns expected data', async ({ apiContext }) => {
     // Verify that the framework can send JSON payloads and parse responses.
-    // httpbin.org/post echoes back whatever you send.
+    // /post echoes back whatever you send.
     //
     // Adapt: Replace with a real POST endpoint from your API
     const payload = { name: 'test-user', email: 'test@example.com' };
@@ -98,4 +99,30 @@ test.describe('API Health Check Tests @api', () => {
     expect(body).toHaveProperty('json');
     expect(body.json).toEqual(payload);
   });
+
+  test('POST response matches its contract snapshot', async ({ apiContext }) => {
+    // Snapshot the whole normalized response instead of asserting fields one by one.
+    // Volatile values (origin, host, URL with a random port) are masked so the
+    // snapshot only changes when the contract does. So are the transport
+    // headers the endpoint echoes back — they depend on the Playwright and
+    // Node versions, not on the API.
+    //
+    // Adapt: Mask your API's timestamps and generated IDs, e.g. '$.id', '$..createdAt'
+    const response = await apiContext.post('/post', {
+      data: { name: 'test-user', email: 'test@example.com' },
+    });
+
+    await expect(response).toMatchApiSnapshot('post-echo', {
+      mask: [
+        '$.headers.Date',
+        '$.origin',
+        '$.url',
+        '$.body.headers.Host',
+        '$.body.headers.User-Agent',
+        '$.body.headers.Accept-Encoding',
+        '$.body.headers.Connection',
+        '$.body.headers.Content-Length',
+      ],
+    });
+  });
 });
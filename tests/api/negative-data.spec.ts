@@ -0,0 +1,102 @@
+import { test, expect } from '../fixtures/base.fixture';
+import { DEFAULT_PASSWORD_POLICY, StubRequest, StubResponse, TestData } from '../../utils';
+
+/**
+ * Negative Test Data Tests - @api
+ *
+ * Data-driven negative tests: one test per labeled value from
+ * TestData.invalid (must be rejected) and TestData.edge (must be accepted
+ * and returned unchanged). The labels become the test titles.
+ *
+ * The stub server plays a /api/signup endpoint with typical validation.
+ */
+
+/** A signup endpoint that validates like a typical backend. */
+function signup(request: StubRequest): StubResponse {
+  const { email, password } = JSON.parse(request.body) as { email: string; password: string };
+  const errors: string[] = [];
+
+  const [local = '', domain = ''] = email.split('@');
+  const validEmail =
+    /^[^\s@]+@[^\s@]+\.[a-z]{2,}$/i.test(email) &&
+    !email.includes('..') &&
+    !local.startsWith('.') &&
+    local.length <= 64 &&
+    domain.length > 0 &&
+    email.length <= 254;
+  if (!validEmail) errors.push('email');
+
+  const { minLength, maxLength = Infinity } = DEFAULT_PASSWORD_POLICY;
+  const strongPassword =
+    password.length >= minLength &&
+    password.length <= maxLength &&
+    /[A-Z]/.test(password) &&
+    /[a-z]/.test(password) &&
+    /[0-9]/.test(password) &&
+    /[^A-Za-z0-9\s]/.test(password);
+  if (!strongPassword) errors.push('password');
+
+  return errors.length ? { status: 422, body: { errors } } : { status: 201, body: { email } };
+}
+
+test.describe('Negative Test Data @api', () => {
+  test.beforeEach(async ({ stubServer }) => {
+    stubServer.route({ method: 'POST', path: '/api/signup', handler: signup });
+  });
+
+  test('a valid signup is accepted', async ({ apiContext }) => {
+    const user = TestData.user();
+    const response = await apiContext.post('/api/signup', { data: { email: user.email, password: user.password } });
+    expect(response.status()).toBe(201);
+  });
+
+  for (const { label, value } of TestData.invalid.email()) {
+    test(`signup rejects email: ${label}`, async ({ apiContext }) => {
+      const response = await apiContext.post('/api/signup', { data: { email: value, password: TestData.password() } });
+      expect(response.status()).toBe(422);
+      expect((await response.json()).errors).toEqual(['email']);
+    });
+  }
+
+  for (const { label, value } of TestData.invalid.password()) {
+    test(`signup rejects password: ${label}`, async ({ apiContext }) => {
+      const response = await apiContext.post('/api/signup', { data: { email: TestData.email(), password: value } });
+      expect(response.status()).toBe(422);
+      expect((await response.json()).errors).toEqual(['password']);
+    });
+  }
+
+  for (const { label, value } of [...TestData.edge.string(), ...TestData.edge.injection()]) {
+    test(`free text round-trips unchanged: ${label}`, async ({ apiContext }) => {
+      const response = await apiContext.post('/post', { data: { name: value } });
+      expect((await response.json()).json.name).toBe(value);
+    });
+  }
+
+  test('ranges follow the configured limits', async () => {
+    const prices = TestData.invalid.price({ min: 1, max: 500 }).map((price) => price.value);
+    expect(prices).toEqual(expect.arrayContaining([0.99, 500.01]));
+    expect(TestData.edge.price({ min: 1, max: 500 }).map((price) => price.value)).toEqual([1, 1.01, 499.99, 500]);
+
+    const dates = TestData.invalid.date({ min: '2024-01-01', max: '2024-12-31' }).map((date) => date.value);
+    expect(dates).toEqual(expect.arrayContaining(['2023-12-31', '2025-01-01']));
+    expect(TestData.invalid.length(10, 2).map((text) => text.value.length)).toEqual([1, 11]);
+  });
+
+  test('labels are unique within each list', async () => {
+    const lists = [
+      TestData.invalid.blank(),
+      TestData.invalid.email(),
+      TestData.invalid.password(),
+      TestData.invalid.price(),
+      TestData.invalid.date(),
+      TestData.edge.string(),
+      TestData.edge.injection(),
+      TestData.edge.date(),
+    ];
+    for (const list of lists) {
+      const labels = list.map((item) => item.label);
+      expect(new Set(labels).size).toBe(labels.length);
+    }
+  });
+});
@@ -0,0 +1,135 @@
+import { test, expect } from '../fixtures/base.fixture';
+import { STUB_IDP_CLIENT, clientCredentialsToken, createPkcePair, decodeJwt, discoverOidc } from '../../utils';
+
+/**
+ * OIDC Tests - @api
+ *
+ * Runs the OAuth flows in utils/oidc.ts against the bundled stub identity
+ * provider, so they work offline. Point oidcConfig at a real issuer (or set
+ * OIDC_ISSUER etc. and drop the override) to run them against your own.
+ */
+
+test.describe('OIDC @api', () => {
+  test.use({
+    oidcConfig: async ({ stubIdp }, use) => use({ issuer: stubIdp.issuer, ...STUB_IDP_CLIENT }),
+  });
+
+  test('publishes discovery and signing keys', async ({ stubIdp, request }) => {
+    const metadata = await discoverOidc(request, stubIdp.issuer);
+    expect(metadata.issuer).toBe(stubIdp.issuer);
+    expect(metadata.token_endpoint).toBe(`${stubIdp.issuer}/token`);
+
+    const jwks = await (await request.get(metadata.jwks_uri!)).json();
+    expect(jwks.keys).toEqual([expect.objectContaining({ kty: 'RSA', alg: 'RS256', use: 'sig' })]);
+  });
+
+  test('issues signed client credentials tokens and caches them', async ({ stubIdp, request, oidcConfig }) => {
+    const tokens = await clientCredentialsToken(request, { ...oidcConfig!, audience: 'orders-api' });
+
+    expect(tokens.tokenType).toBe('Bearer');
+    expect(stubIdp.verifyJwt(tokens.accessToken)).toMatchObject({
+      sub: STUB_IDP_CLIENT.clientId,
+      aud: 'orders-api',
+    });
+    await expect(clientCredentialsToken(request, { ...oidcConfig!, audience: 'orders-api' })).resolves.toBe(tokens);
+  });
+
+  test('rejects a wrong client secret, even with a token cached for the right one', async ({ request, oidcConfig }) => {
+    await clientCredentialsToken(request, { ...oidcConfig!, scope: 'orders:read' });
+
+    await expect(clientCredentialsToken(request, { ...oidcConfig!, scope: 'orders:read', clientSecret: 'wrong' })).rejects.toThrow(
+      /\[oidc\] client_credentials token request failed with 401: [\s\S]*invalid_client/,
+    );
+  });
+
+  test('exchanges an authorization code only with the PKCE verifier', async ({ stubIdp, request }) => {
+    stubIdp.setUser('admin', { email: 'admin@example.com', roles: ['admin'] });
+    const redirectUri = 'http://localhost:3000/auth/callback';
+    const { verifier, challenge } = createPkcePair();
+
+    const authorize = async () => {
+      const response = await request.get(`${stubIdp.issuer}/authorize`, {
+        params: {
+          response_type: 'code',
+          client_id: STUB_IDP_CLIENT.clientId,
+          redirect_uri: redirectUri,
+          scope: 'openid email',
+          state: 'xyz',
+          login_hint: 'admin',
+          code_challenge: challenge,
+          code_challenge_method: 'S256',
+        },
+        maxRedirects: 0,
+      });
+      expect(response.status()).toBe(302);
+      const callback = new URL(response.headers().location);
+      expect(callback.searchParams.get('state')).toBe('xyz');
+      return callback.searchParams.get('code') ?? '';
+    };
+    const exchange = (code: string, codeVerifier: string) =>
+      request.post(`${stubIdp.issuer}/token`, {
+        form: {
+          grant_type: 'authorization_code',
+          code,
+          redirect_uri: redirectUri,
+          code_verifier: codeVerifier,
+          client_id: STUB_IDP_CLIENT.clientId,
+          client_secret: STUB_IDP_CLIENT.clientSecret,
+        },
+      });
+
+    const rejected = await exchange(await authorize(), createPkcePair().verifier);
+    expect(rejected.status()).toBe(400);
+    expect(await rejected.json()).toMatchObject({ error: 'invalid_grant' });
+
+    const accepted = await exchange(await authorize(), verifier);
+    expect(accepted.ok()).toBeTruthy();
+    const body = await accepted.json();
+    expect(decodeJwt(body.id_token)?.payload).toMatchObject({ sub: 'admin', email: 'admin@example.com', roles: ['admin'] });
+
+    const userinfo = await request.get(`${stubIdp.issuer}/userinfo`, { headers: { Authorization: `Bearer ${body.access_token}` } });
+    expect(await userinfo.json()).toEqual({ sub: 'admin', email: 'admin@example.com', roles: ['admin'] });
+  });
+
+  test.describe('users added by a test', () => {
+    test.describe.configure({ mode: 'serial' });
+
+    const authorizeAs = (issuer: string, loginHint: string) => ({
+      url: `${issuer}/authorize`,
+      params: {
+        response_type: 'code',
+        client_id: STUB_IDP_CLIENT.clientId,
+        redirect_uri: 'http://localhost:3000/auth/callback',
+        state: 'xyz',
+        login_hint: loginHint,
+        code_challenge: createPkcePair().challenge,
+        code_challenge_method: 'S256',
+      },
+    });
+
+    test('are known to the IdP during the test', async ({ stubIdp, request }) => {
+      stubIdp.setUser('temp-user', { email: 'temp@example.com' });
+      const { url, params } = authorizeAs(stubIdp.issuer, 'temp-user');
+
+      const response = await request.get(url, { params, maxRedirects: 0 });
+      expect(new URL(response.headers().location).searchParams.get('code')).toBeTruthy();
+    });
+
+    test('are gone in the next test', async ({ stubIdp, request }) => {
+      const { url, params } = authorizeAs(stubIdp.issuer, 'temp-user');
+
+      const response = await request.get(url, { params, maxRedirects: 0 });
+      expect(new URL(response.headers().location).searchParams.get('error')).toBe('access_denied');
+    });
+  });
+
+  test.describe('with apiAuth: oidc', () => {
+    test.use({ apiAuth: 'oidc' });
+
+    test('apiContext sends the bearer token', async ({ apiContext, stubIdp }) => {
+      const response = await apiContext.get('/headers');
+      const { headers } = await response.json();
+      expect(stubIdp.verifyJwt(headers.Authorization)).toMatchObject({ sub: STUB_IDP_CLIENT.clientId });
+    });
+  });
+});
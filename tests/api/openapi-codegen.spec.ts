@@ -0,0 +1,113 @@
+import { parse as parseYaml } from 'yaml';
+import { test, expect } from '../fixtures/base.fixture';
+import { OpenApiDocument, generateClient } from '../../scripts/lib/openapi-codegen';
+
+/**
+ * OpenAPI Client Generator Tests - @api
+ *
+ * Runs a small document through generateClient()
+ * (scripts/lib/openapi-codegen.ts) and checks the generated types: $refs,
+ * allOf, nullable schemas and schemas that refer to themselves. The
+ * committed client for openapi/stub-api.yaml is covered by api-client.spec.ts.
+ */
+
+const CATALOG = parseYaml(`
+openapi: 3.1.0
+info: { title: Catalog, version: 1.0.0 }
+paths:
+  /categories/{id}:
+    get:
+      operationId: getCategory
+      parameters:
+        - $ref: '#/components/parameters/Id'
+      responses:
+        '200':
+          content:
+            application/json:
+              schema: { $ref: '#/components/schemas/Category' }
+        '404':
+          $ref: '#/components/responses/NotFound'
+components:
+  parameters:
+    Id: { name: id, in: path, required: true, schema: { type: integer } }
+  responses:
+    NotFound:
+      content:
+        application/json:
+          schema:
+            type: object
+            required: [message]
+            properties:
+              message: { type: string }
+  schemas:
+    Node:
+      type: object
+      required: [name]
+      properties:
+        name: { type: string }
+        children: { type: array, items: { $ref: '#/components/schemas/Node' } }
+    Category:
+      allOf:
+        - $ref: '#/components/schemas/Node'
+        - type: object
+          properties:
+            parent: { allOf: [{ $ref: '#/components/schemas/Category' }], nullable: true }
+            slug: { type: [string, 'null'] }
+            status: { oneOf: [{ const: draft }, { const: live }] }
+    Menu:
+      type: object
+      properties:
+        root: { $ref: '#/components/schemas/Menu/$defs/Node' }
+      $defs:
+        Node:
+          description: A menu entry
+          type: object
+          properties:
+            label: { type: string }
+            entries: { type: array, items: { $ref: '#/components/schemas/Menu/$defs/Node' } }
+`) as OpenApiDocument;
+
+const generate = (doc: OpenApiDocument) => generateClient(doc, { className: 'CatalogClient', source: 'catalog.yaml' });
+
+test.describe('OpenAPI Client Generator @api', () => {
+  test('component $refs become type names; other $refs are inlined', async () => {
+    const source = generate(CATALOG);
+
+    expect(source).toContain('export type Node = {\n  name: string;\n  children?: Node[];\n};');
+    expect(source).toContain('export interface GetCategoryParams {\n  path: {\n    id: number;\n  };\n}');
+    expect(source).toContain('  | { status: 200; body: Category }\n  | { status: 404; body: {\n    message: string;\n  } };');
+  });
+
+  test('allOf becomes an intersection and nullable schemas allow null', async () => {
+    const source = generate(CATALOG);
+
+    expect(source).toContain(
+      "export type Category = Node & {\n  parent?: Category | null;\n  slug?: string | null;\n  status?: 'draft' | 'live';\n};",
+    );
+  });
+
+  test('a $ref that refers back to itself gets a named type', async () => {
+    const source = generate(CATALOG);
+
+    // 'Node' is taken by the component, so the menu's Node becomes Node2
+    expect(source).toContain('export type Menu = {\n  root?: Node2;\n};');
+    expect(source).toContain('/** A menu entry */\nexport type Node2 = {\n  label?: string;\n  entries?: Node2[];\n};');
+  });
+
+  test('a $ref chain that loops is an error', async () => {
+    const doc = parseYaml(`
+openapi: 3.0.3
+paths:
+  /items:
+    get:
+      parameters:
+        - $ref: '#/components/parameters/A'
+components:
+  parameters:
+    A: { $ref: '#/components/parameters/B' }
+    B: { $ref: '#/components/parameters/A' }
+`) as OpenApiDocument;
+
+    expect(() => generate(doc)).toThrow('[openapi] Circular $ref "#/components/parameters/A".');
+  });
+});
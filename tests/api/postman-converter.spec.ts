@@ -0,0 +1,267 @@
+import { test, expect } from '../fixtures/base.fixture';
+import { ConvertResult, convertCollection } from '../../scripts/lib/postman-converter';
+import { PostmanCollection } from '../../utils/postman-collection';
+
+/**
+ * Postman Converter Tests - @api
+ *
+ * Runs a small collection through convertCollection()
+ * (scripts/lib/postman-converter.ts) and checks the generated spec text:
+ * folders, variables, auth, body modes, scripts and the TODO(postman)
+ * markers left for anything without a safe translation. No network needed.
+ */
+
+const COLLECTION: PostmanCollection = {
+  info: { name: 'Orders API', description: 'Order endpoints.' },
+  variable: [
+    { key: 'baseUrl', value: 'https://api.example.test' },
+    { key: 'sku', value: 'A-1' },
+    { key: 'apiKey', value: 'live-secret' },
+  ],
+  auth: { type: 'bearer', bearer: [{ key: 'token', value: '{{token}}' }] },
+  item: [
+    {
+      name: 'Orders',
+      item: [
+        {
+          name: 'Create order',
+          event: [
+            {
+              listen: 'test',
+              script: {
+                exec: [
+                  'pm.test("Status is 201", function () {',
+                  '    pm.response.to.have.status(201);',
+                  '});',
+                  'var body = pm.response.json();',
+                  'pm.environment.set("orderId", body.id);',
+                  'pm.expect(body.sku).to.eql("A-1");',
+                  'setTimeout(function () {',
+                  '  console.log("later");',
+                  '}, 10);',
+                ],
+              },
+            },
+          ],
+          request: {
+            method: 'POST',
+            header: [{ key: 'X-Trace', value: '{{traceId}}' }],
+            body: { mode: 'raw', raw: '{"sku": "{{sku}}", "qty": 2}', options: { raw: { language: 'json' } } },
+            url: { raw: '{{baseUrl}}/orders' },
+          },
+        },
+        {
+          name: 'Get order',
+          request: {
+            method: 'GET',
+            url: '{{baseUrl}}/orders/{{orderId}}',
+            auth: { type: 'basic', basic: [{ key: 'username', value: 'admin' }, { key: 'password', value: '{{password}}' }] },
+          },
+        },
+      ],
+    },
+    {
+      name: 'Login form',
+      request: {
+        method: 'POST',
+        auth: { type: 'noauth' },
+        body: { mode: 'urlencoded', urlencoded: [{ key: 'user', value: '{{username}}' }] },
+        url: '{{baseUrl}}/login',
+      },
+    },
+    {
+      name: 'Upload',
+      request: {
+        method: 'POST',
+        body: {
+          mode: 'formdata',
+          formdata: [
+            { key: 'note', value: 'hi', type: 'text' },
+            { key: 'avatar', type: 'file', src: 'avatar.png' },
+          ],
+        },
+        url: '{{baseUrl}}/upload',
+      },
+    },
+    {
+      name: 'Search',
+      request: {
+        method: 'POST',
+        body: { mode: 'graphql', graphql: { query: 'query { orders { id } }', variables: '{"first": {{pageSize}}}' } },
+        url: '{{baseUrl}}/graphql',
+      },
+    },
+    {
+      name: 'Signed preflight',
+      request: {
+        method: 'OPTIONS',
+        auth: { type: 'awsv4', awsv4: [] },
+        body: { mode: 'file' },
+        url: '{{baseUrl}}/signed',
+      },
+    },
+  ],
+} as PostmanCollection;
+
+/** Convert COLLECTION with the import paths a spec in tests/api would use. */
+/** Declarations the spec can and cannot keep, in one request's test script. */
+const DECLARATIONS: PostmanCollection = {
+  info: { name: 'Declarations' },
+  item: [
+    {
+      name: 'List items',
+      event: [
+        {
+          listen: 'test',
+          script: {
+            exec: [
+              'var schema = {',
+              '  "type": "object",',
+              '  "required": ["items"]',
+              '};',
+              'pm.test("Schema is valid", function () {',
+              '    pm.expect(tv4.validate(pm.response.json(), schema)).to.be.true;',
+              '});',
+              'var ids = _.map(pm.response.json().items, "id");',
+              'pm.expect(ids).to.have.lengthOf(2);',
+              'var count = pm.response.json().items.length;',
+              'pm.test("First item", function () {',
+              '    var first = pm.response.json().items[0];',
+              '    pm.expect(first.id).to.eql(1);',
+              '});',
+              'pm.expect(first).to.exist;',
+              'var count = 3;',
+              'pm.expect(count).to.match(/^[0-9]+$/);',
+            ],
+          },
+        },
+      ],
+      request: { method: 'GET', url: '{{baseUrl}}/items' },
+    },
+  ],
+};
+
+function convert(): ConvertResult {
+  return convertCollection(COLLECTION, {
+    source: 'postman/orders.json',
+    fixturesImport: '../fixtures/base.fixture',
+    utilsImport: '../../utils',
+    environment: { traceId: 'trace-1', token: 'env-token' },
+  });
+}
+
+test.describe('Postman Converter @api', () => {
+  test('folders become describe blocks and requests become tests', async () => {
+    const { source, tests } = convert();
+
+    expect(tests).toBe(6);
+    expect(source).toContain("test.describe('Orders API @api', () => {");
+    expect(source).toContain("  test.describe('Orders', () => {\n    test('Create order', async ({ apiContext }) => {");
+    expect(source).toContain("    test('Get order', async ({ apiContext }) => {");
+    expect(source).toContain("  test('Login form', async ({ apiContext }) => {");
+    expect(source).toContain("import { test, expect } from '../fixtures/base.fixture';");
+    expect(source).toContain("import { PostmanVariables, assertStatus } from '../../utils';");
+    expect(source).toContain('// Converted by scripts/convert-postman.ts from postman/orders.json.');
+    expect(source).toContain(' * Order endpoints.');
+  });
+
+  test('variables resolve at runtime; defaults are embedded except secrets and the base URL', async () => {
+    const { source } = convert();
+
+    expect(source).toContain(
+      "const vars = new PostmanVariables(\n  {\n    traceId: 'trace-1',\n  },\n  {\n    sku: 'A-1',\n  },\n);",
+    );
+    expect(source).not.toContain('live-secret');
+    expect(source).not.toContain('env-token');
+    expect(source).toContain('// TODO(postman): set POSTMAN_API_KEY, POSTMAN_TOKEN in .env — secret values are not copied from Postman.');
+
+    // The {{baseUrl}} prefix is dropped so requests resolve against the API base URL
+    expect(source).not.toContain('baseUrl');
+    expect(source).toContain("apiContext.post('/orders', {");
+    expect(source).toContain("apiContext.get(vars.resolve('/orders/{{orderId}}'), {");
+  });
+
+  test('auth becomes request headers; unsupported types are left as TODOs', async () => {
+    const { source } = convert();
+
+    // Collection-level bearer auth is inherited by requests without their own
+    expect(source).toContain("Authorization: vars.resolve('Bearer {{token}}'),");
+    expect(source).toContain("const basicAuth = Buffer.from(vars.resolve('admin:{{password}}')).toString('base64');");
+    expect(source).toContain('Authorization: `Basic ${basicAuth}`,');
+    expect(source).toContain('// TODO(postman): "awsv4" auth is not converted — add the credentials it sends.');
+
+    const loginTest = source.slice(source.indexOf("test('Login form'"), source.indexOf("test('Upload'"));
+    expect(loginTest).not.toContain('Authorization');
+  });
+
+  test('each body mode maps to the matching request option', async () => {
+    const { source } = convert();
+
+    // raw JSON: {{variables}} resolve per value
+    expect(source).toContain("data: {\n          sku: vars.resolve('{{sku}}'),\n          qty: 2,\n        },");
+    expect(source).toContain("form: {\n        user: vars.resolve('{{username}}'),\n      },");
+    expect(source).toContain("multipart: {\n        note: 'hi',\n      },");
+    expect(source).toContain(
+      "data: { query: 'query { orders { id } }', variables: JSON.parse(vars.resolve('{\"first\": {{pageSize}}}')) },",
+    );
+    expect(source).toContain("const response = await apiContext.fetch('/signed', { method: 'OPTIONS' });");
+  });
+
+  test('scripts become steps and assertions; values chain through vars in a serial describe', async () => {
+    const { source } = convert();
+
+    expect(source).toContain("await test.step('Status is 201', async () => {\n        await assertStatus(response, 201);\n      });");
+    expect(source).toContain('const body = await response.json();');
+    expect(source).toContain("vars.set('orderId', body.id);");
+    expect(source).toContain("expect(body.sku).toEqual('A-1');");
+    expect(source).toContain("test.describe.configure({ mode: 'serial' });");
+
+    // Requests without Postman tests still check the response
+    expect(source).toContain('// No Postman tests — at least check the request succeeded\n      expect(response.ok()).toBe(true);');
+  });
+
+  test('anything without a safe translation is kept as a TODO(postman) comment', async () => {
+    const { source, todos } = convert();
+
+    // An untranslatable statement takes the whole block it opens with it
+    expect(source).toContain(
+      '      // TODO(postman): setTimeout(function () {\n' +
+        '      // TODO(postman): console.log("later");\n' +
+        '      // TODO(postman): }, 10);',
+    );
+    expect(source).toContain(
+      '// TODO(postman): file fields (avatar) are not converted — attach them with { name, mimeType, buffer }.',
+    );
+    expect(source).toContain('// TODO(postman): "file" request bodies are not converted.');
+    expect(todos).toBe(source.match(/TODO\(postman\):/g)!.length);
+  });
+
+  test('a declaration is kept only if it is complete and reads names the spec has', async () => {
+    const { source } = convertCollection(DECLARATIONS, {
+      source: 'postman/declarations.json',
+      fixturesImport: '../fixtures/base.fixture',
+      utilsImport: '../../utils',
+    });
+
+    // A multi-line initializer goes to TODOs as a whole, and so does code reading it
+    expect(source).not.toContain('const schema');
+    expect(source).toContain(
+      '    // TODO(postman): var schema = {\n' +
+        '    // TODO(postman): "type": "object",\n' +
+        '    // TODO(postman): "required": ["items"]\n' +
+        '    // TODO(postman): };',
+    );
+    expect(source).toContain('// TODO(postman): pm.expect(tv4.validate(pm.response.json(), schema)).to.be.true;');
+
+    // Sandbox globals such as lodash do not exist in the spec
+    expect(source).toContain('// TODO(postman): var ids = _.map(pm.response.json().items, "id");');
+    expect(source).toContain('// TODO(postman): pm.expect(ids).to.have.lengthOf(2);');
+
+    // Declarations are scoped like the generated code: per step, no redeclaring
+    expect(source).toContain('const count = (await response.json()).items.length;');
+    expect(source).toContain("const first = (await response.json()).items[0];\n      expect(first.id).toEqual(1);");
+    expect(source).toContain('// TODO(postman): pm.expect(first).to.exist;');
+    expect(source).toContain('// TODO(postman): var count = 3;');
+    expect(source).toContain('expect(count).toMatch(/^[0-9]+$/);');
+  });
+});
@@ -0,0 +1,114 @@
+import { test, expect } from '../fixtures/base.fixture';
+import { PostmanItem, PostmanScope, PostmanVariables, runPostmanRequest } from '../../utils';
+
+/**
+ * Postman Sandbox Tests - @api @postman
+ *
+ * Collection scripts are untrusted input. These run scripts through
+ * runPostmanRequest() (utils/postman-runner.ts) against the stub server
+ * and check that they cannot reach the test runner's process through the
+ * objects the sandbox hands them, while the supported pm.* API keeps working.
+ */
+
+const SCOPE: PostmanScope = { prerequest: [], test: [] };
+
+/** A GET /get request item with a test script. */
+function itemWithScript(lines: string[]): PostmanItem {
+  return {
+    name: 'sandbox',
+    request: { method: 'GET', url: '{{baseUrl}}/get' },
+    event: [{ listen: 'test', script: { exec: lines } }],
+  };
+}
+
+/** Ways to get from a sandbox value to the Function constructor of the realm that created it. */
+const ESCAPES: Record<string, string> = {
+  'console.log': 'console.log.constructor',
+  'pm.test': 'pm.test.constructor',
+  'pm.expect(...) chain': 'pm.expect(1).to.constructor.constructor',
+  'pm.environment.get': 'pm.environment.get.constructor',
+  'pm.response.json() result': 'pm.response.json().constructor.constructor',
+  'pm.response.headers.get': 'pm.response.headers.get.constructor',
+  'pm.request.headers.add': 'pm.request.headers.add.constructor',
+  'postman.getEnvironmentVariable': 'postman.getEnvironmentVariable.constructor',
+  'responseCode': 'responseCode.constructor.constructor',
+  'the global object': 'this.constructor.constructor',
+  'a failed assertion error': '(() => { try { pm.expect(1).to.eql(2); } catch (e) { return e.constructor.constructor; } })()',
+  'an unsupported API error': '(() => { try { pm.sendRequest; } catch (e) { return e.constructor.constructor; } })()',
+};
+
+test.describe('Postman Sandbox @api @postman', () => {
+  test('scripts cannot reach the host process through sandbox objects', async ({ apiContext }) => {
+    const script = Object.entries(ESCAPES).map(
+      ([label, path]) =>
+        `try { const p = (${path})('return typeof process === "undefined" ? undefined : process')(); ` +
+        `console.log(${JSON.stringify(label)} + (p && p.pid ? ': ESCAPED' : ': contained')); } ` +
+        `catch (e) { console.log(${JSON.stringify(label)} + ': blocked'); }`,
+    );
+
+    const result = await runPostmanRequest(itemWithScript(script), SCOPE, { apiContext, vars: new PostmanVariables() });
+
+    expect(result.scriptErrors).toEqual([]);
+    expect(result.console).toHaveLength(Object.keys(ESCAPES).length);
+    for (const line of result.console) expect(line).toMatch(/: (contained|blocked)$/);
+  });
+
+  test('Node globals are not defined in scripts', async ({ apiContext }) => {
+    const script = ['require', 'process', 'module', 'Buffer', 'setTimeout', 'fetch'].map(
+      (name) => `console.log('${name}: ' + typeof ${name});`,
+    );
+
+    const result = await runPostmanRequest(itemWithScript(script), SCOPE, { apiContext, vars: new PostmanVariables() });
+
+    expect(result.console).toEqual([
+      'require: undefined',
+      'process: undefined',
+      'module: undefined',
+      'Buffer: undefined',
+      'setTimeout: undefined',
+      'fetch: undefined',
+    ]);
+  });
+
+  test('the supported API still works across the boundary', async ({ apiContext }) => {
+    const vars = new PostmanVariables({ greeting: 'hello' });
+    const script = [
+      'pm.test("status and body", function () {',
+      '  pm.response.to.have.status(200);',
+      '  pm.expect(pm.response.json().url).to.match(/\\/get$/);',
+      '  pm.expect(pm.response.headers.get("Content-Type")).to.include("json");',
+      '  pm.expect(undefined).to.be.undefined;',
+      '  pm.expect(NaN).to.be.NaN;',
+      '  pm.expect([1, 2]).to.be.an("array").that.has.lengthOf(2);',
+      '  pm.expect({ a: { b: 1 } }).to.deep.equal({ a: { b: 1 } });',
+      '});',
+      'pm.test("a failing check", function () {',
+      '  pm.expect(pm.environment.get("greeting")).to.eql("bye");',
+      '});',
+      'pm.environment.set("stored", { id: 7 });',
+      'console.log("greeting", pm.variables.get("greeting"), { n: 1 });',
+      'tests["legacy check"] = responseCode.code === 200;',
+    ];
+
+    const result = await runPostmanRequest(itemWithScript(script), SCOPE, { apiContext, vars });
+
+    expect(result.scriptErrors).toEqual([]);
+    expect(result.assertions).toEqual([
+      { name: 'status and body' },
+      { name: 'a failing check', error: expect.stringContaining('Expected: "bye"') },
+      { name: 'legacy check' },
+    ]);
+    expect(vars.get('stored')).toBe('{"id":7}');
+    expect(result.console).toEqual(['greeting hello {"n":1}']);
+  });
+
+  test('a script that runs too long is stopped', async ({ apiContext }) => {
+    const result = await runPostmanRequest(itemWithScript(['pm.test("recorded first", () => {});', 'while (true) {}']), SCOPE, {
+      apiContext,
+      vars: new PostmanVariables(),
+    });
+
+    expect(result.assertions).toEqual([{ name: 'recorded first' }]);
+    expect(result.scriptErrors).toEqual([expect.stringMatching(/^test script: Script execution timed out/)]);
+  });
+});
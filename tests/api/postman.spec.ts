@@ -0,0 +1,85 @@
+import fs from 'node:fs';
+import { test } from '../fixtures/base.fixture';
+import {
+  PostmanItem,
+  PostmanScope,
+  PostmanVariables,
+  attachRedacted,
+  collectionScope,
+  itemScope,
+  keyValues,
+  loadPostmanCollection,
+  loadPostmanEnvironment,
+  runPostmanRequest,
+} from '../../utils';
+
+/**
+ * Postman Collection Tests - @api @postman
+ *
+ * Runs postman/collection.json in the Playwright runner: every request
+ * becomes one test, folders become describe blocks, and each pm.test
+ * shows up as a step in the HTML/JUnit reports. Requests run against
+ * apiContext, so API_BASE_URL, auth headers, retries and traffic
+ * recording apply as for any other API test.
+ *
+ * Requests run in order and share variables (pm.environment.set in one
+ * request is visible to the next), so the suite is serial: after a
+ * failure, the remaining requests are skipped rather than run against
+ * missing variables.
+ *
+ * Only a safe subset of the Postman script sandbox is available (see
+ * utils/postman-runner.ts). For collections that outgrow it, generate a
+ * spec with `npm run convert:postman` instead.
+ *
+ * Run only these tests with: npm run test:postman
+ */
+
+const COLLECTION_PATH = 'postman/collection.json';
+const ENVIRONMENT_PATH = 'postman/environment.json';
+
+if (fs.existsSync(COLLECTION_PATH)) {
+  const collection = loadPostmanCollection(COLLECTION_PATH);
+  const vars = new PostmanVariables(loadPostmanEnvironment(ENVIRONMENT_PATH), keyValues(collection.variable));
+
+  /** Declare a describe per folder and a test per request. */
+  const declare = (items: PostmanItem[], scope: PostmanScope) => {
+    for (const item of items) {
+      if (item.item) {
+        test.describe(item.name, () => declare(item.item!, itemScope(scope, item)));
+        continue;
+      }
+
+      test(item.name, async ({ apiContext }, testInfo) => {
+        const result = await runPostmanRequest(item, scope, { apiContext, vars });
+
+        if (result.console.length) {
+          await attachRedacted(testInfo, 'postman-console.txt', result.console.join('\n'));
+        }
+
+        // Report every assertion as its own step, then fail once with all failures
+        const failures: string[] = [];
+        for (const assertion of result.assertions) {
+          await test.step(assertion.name, async () => {
+            if (assertion.error) {
+              failures.push(`${assertion.name}: ${assertion.error}`);
+              throw new Error(assertion.error);
+            }
+          }).catch(() => undefined);
+        }
+        failures.push(...result.scriptErrors);
+
+        if (failures.length) {
+          throw new Error(
+            `[postman] ${failures.length} of ${result.assertions.length + result.scriptErrors.length} checks failed in "${item.name}":\n` +
+              failures.map((failure) => `  - ${failure}`).join('\n'),
+          );
+        }
+      });
+    }
+  };
+
+  test.describe(`${collection.info.name} @api @postman`, () => {
+    test.describe.configure({ mode: 'serial' });
+    declare(collection.item, collectionScope(collection));
+  });
+}
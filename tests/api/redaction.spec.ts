@@ -0,0 +1,67 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { test, expect } from '../fixtures/base.fixture';
+import { REDACTED, configureRedaction, getRedactionRules, loadEnvConfig, redactHeaders, redactJson, redactText } from '../../utils';
+
+/**
+ * Secret Redaction Tests - @api
+ *
+ * The shared redactor (utils/redaction.ts) behind logResponse, the traffic
+ * recorder, page health and attachRedacted: its default rules, and the
+ * rules teams add with REDACT_HEADERS/REDACT_KEYS and configureRedaction().
+ */
+
+test.describe('Secret Redaction @api', () => {
+  test.afterEach(() => {
+    configureRedaction({});
+  });
+
+  test('default rules cover credentials in headers, keys and text', async () => {
+    expect(redactHeaders({ Authorization: 'Bearer abc', Accept: 'text/html' })).toEqual({ Authorization: REDACTED, Accept: 'text/html' });
+    expect(redactJson({ user: 'a', nested: { password: 'hunter2' } })).toEqual({ user: 'a', nested: { password: REDACTED } });
+    expect(redactText('GET /items?token=abc123&page=2')).toBe(`GET /items?token=${REDACTED}&page=2`);
+  });
+
+  test('configureRedaction adds rules to the shared redactor', async () => {
+    expect(redactHeaders({ 'X-Tenant-Key': 'tenant-1' })).toEqual({ 'X-Tenant-Key': 'tenant-1' });
+
+    configureRedaction({
+      headers: ['x-tenant-key'],
+      keys: [/^ssn$/i],
+      patterns: [/\bacct_[a-z0-9]{8}\b/g],
+    });
+
+    expect(redactHeaders({ 'X-Tenant-Key': 'tenant-1', Authorization: 'Bearer abc' })).toEqual({
+      'X-Tenant-Key': REDACTED,
+      Authorization: REDACTED,
+    });
+    expect(redactJson({ SSN: '123-45-6789', name: 'Ada' })).toEqual({ SSN: REDACTED, name: 'Ada' });
+    expect(redactText('charged acct_1a2b3c4d')).toBe(`charged ${REDACTED}`);
+
+    // A later call replaces the earlier rules
+    configureRedaction({});
+    expect(redactHeaders({ 'X-Tenant-Key': 'tenant-1' })).toEqual({ 'X-Tenant-Key': 'tenant-1' });
+  });
+
+  test('REDACT_HEADERS and REDACT_KEYS extend the rules', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'redaction-spec-'));
+    try {
+      const config = loadEnvConfig(
+        { BASE_URL: 'https://app.example.test', REDACT_HEADERS: ' x-signature , x-tenant-key', REDACT_KEYS: 'ssn,account[-_]?number' },
+        dir,
+      );
+      const rules = getRedactionRules(config);
+
+      expect(rules.headers).toEqual(expect.arrayContaining(['authorization', 'x-signature', 'x-tenant-key']));
+      expect(rules.keys.some((pattern) => pattern.test('Account_Number'))).toBe(true);
+      expect(rules.keys.some((pattern) => pattern.test('SSN'))).toBe(true);
+
+      expect(() => getRedactionRules({ ...config, redactKeys: 'ssn,(' })).toThrow(
+        '[redaction] REDACT_KEYS entry "(" is not a valid regular expression',
+      );
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,86 @@
+import { test, expect } from '../fixtures/base.fixture';
+import { StubServer, getApiBaseUrl } from '../../utils';
+
+/**
+ * Retry Policy Tests - @api
+ *
+ * apiContext retries transient failures (502/503/504) on idempotent
+ * requests. These tests use stub routes that fail a set number of times,
+ * then check what the test ends up seeing. Each attempt appears as its own
+ * step in the HTML report, and each retry as an `api-retry` annotation.
+ *
+ * NOTE: These tests only run against the stub server. They are skipped
+ * when API_BASE_URL points at a real API.
+ */
+
+test.skip(!!getApiBaseUrl(), 'Stub routes only apply when API_BASE_URL is unset');
+
+test.describe('API Retry Policy @api', () => {
+  // Keep backoff short so the suite stays fast
+  test.use({ apiRetryPolicy: { baseDelayMs: 10, maxDelayMs: 100 } });
+
+  /** Register a route that answers `failures` times with `status`, then with 200. */
+  function flakyRoute(
+    stubServer: StubServer,
+    path: string,
+    failures: number,
+    failure: { status: number; headers?: Record<string, string> },
+  ): () => number {
+    let calls = 0;
+    stubServer.route({
+      path,
+      handler: () => (++calls <= failures ? failure : { body: { ok: true } }),
+    });
+    return () => calls;
+  }
+
+  test('GET is retried until a transient 503 clears', async ({ apiContext, stubServer }) => {
+    const calls = flakyRoute(stubServer, '/api/flaky', 2, { status: 503 });
+
+    const response = await apiContext.get('/api/flaky');
+
+    expect(response.status()).toBe(200);
+    expect(calls()).toBe(3);
+    expect(test.info().annotations.filter((a) => a.type === 'api-retry')).toHaveLength(2);
+  });
+
+  test('the last response is returned once attempts run out', async ({ apiContext, stubServer }) => {
+    const calls = flakyRoute(stubServer, '/api/down', 5, { status: 502 });
+
+    const response = await apiContext.get('/api/down');
+
+    expect(response.status()).toBe(502);
+    expect(calls()).toBe(3);
+  });
+
+  test('POST is not retried by default', async ({ apiContext, stubServer }) => {
+    const calls = flakyRoute(stubServer, '/api/orders', 1, { status: 503 });
+
+    const response = await apiContext.post('/api/orders', { data: { sku: 'A-1' } });
+
+    expect(response.status()).toBe(503);
+    expect(calls()).toBe(1);
+  });
+
+  test('Retry-After is honoured', async ({ apiContext, stubServer }) => {
+    const calls = flakyRoute(stubServer, '/api/busy', 1, { status: 503, headers: { 'Retry-After': '0' } });
+
+    const response = await apiContext.get('/api/busy');
+
+    expect(response.status()).toBe(200);
+    expect(calls()).toBe(2);
+    expect(test.info().annotations.find((a) => a.type === 'api-retry')?.description).toContain('in 0ms');
+  });
+
+  test.describe('with a short timeout', () => {
+    test.use({ apiRetryPolicy: { maxAttempts: 1, timeoutMs: 200 } });
+
+    test('the policy timeout applies unless the request sets one', async ({ apiContext, stubServer }) => {
+      stubServer.route({ path: '/api/slow', delayMs: 1_000, handler: () => ({ body: { ok: true } }) });
+
+      // An explicit `timeout: undefined` must not switch the policy timeout off
+      await expect(apiContext.get('/api/slow', { timeout: undefined })).rejects.toThrow(/Timeout 200ms exceeded/);
+      expect((await apiContext.get('/api/slow', { timeout: 5_000 })).status()).toBe(200);
+    });
+  });
+});
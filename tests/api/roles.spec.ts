@@ -0,0 +1,41 @@
+import { test, expect } from '../fixtures/base.fixture';
+import { DEFAULT_ROLE, authStatePath, roles } from '../fixtures/roles';
+
+/**
+ * Role Selection Tests - @api
+ *
+ * The `role` option swaps the `storageState` fixture for the role's cached
+ * state (tests/fixtures/roles.ts). Resolving storageState does not open a
+ * browser, so none of these need one.
+ */
+
+test.describe('Roles @api', () => {
+  test('each role has its own storage state file', async () => {
+    const paths = Object.keys(roles).map((role) => authStatePath(role as keyof typeof roles));
+    expect(paths).toContain('.auth/admin.json');
+    expect(new Set(paths).size).toBe(paths.length);
+    expect(Object.keys(roles)).toContain(DEFAULT_ROLE);
+  });
+
+  test('without a role, the project storageState is kept', async ({ role, storageState }, testInfo) => {
+    expect(role).toBeUndefined();
+    expect(storageState).toBe(testInfo.project.use.storageState);
+  });
+
+  test.describe('with test.use({ role })', () => {
+    test.use({ role: 'admin' });
+
+    test('storageState is the role\'s cached state', async ({ role, storageState }) => {
+      expect(role).toBe('admin');
+      expect(storageState).toBe(authStatePath('admin'));
+    });
+  });
+
+  test.describe('with another role', () => {
+    test.use({ role: 'readonly' });
+
+    test('storageState follows the role', async ({ storageState }) => {
+      expect(storageState).toBe(authStatePath('readonly'));
+    });
+  });
+});
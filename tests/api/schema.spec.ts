@@ -0,0 +1,83 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { test, expect } from '../fixtures/base.fixture';
+import { assertMatchesSchema, validateJsonSchema } from '../../utils';
+
+/**
+ * JSON Schema Contract Tests - @api
+ *
+ * These tests validate response bodies against JSON Schema (draft 2020-12).
+ * Schemas live in tests/api/schemas/ and can $ref each other by relative
+ * path. A failing check lists each violation's JSON pointer, expected
+ * constraint and actual value in the report.
+ *
+ * Adapt: Add a schema per resource in tests/api/schemas/ and validate each
+ * endpoint's response against it.
+ */
+
+const ECHO_SCHEMA = 'tests/api/schemas/echo.schema.json';
+
+test.describe('JSON Schema Validation @api', () => {
+
+  test('GET response matches its schema file', async ({ apiContext }) => {
+    const response = await apiContext.get('/get');
+
+    await assertMatchesSchema(response, ECHO_SCHEMA);
+  });
+
+  test('toMatchSchema validates inline schemas', async ({ apiContext }) => {
+    const response = await apiContext.post('/post', { data: { name: 'test-user' } });
+    const body = await response.json();
+
+    expect(body.json).toMatchSchema({
+      type: 'object',
+      required: ['name'],
+      properties: { name: { type: 'string', minLength: 1 } },
+    });
+  });
+
+  test('violations report pointer, constraint and actual value', async () => {
+    const user = { email: 'not-an-email', age: -1 };
+    const schema = {
+      type: 'object',
+      required: ['email', 'age', 'name'],
+      properties: {
+        email: { type: 'string', format: 'email' },
+        age: { type: 'integer', minimum: 0 },
+      },
+    };
+
+    expect(() => expect(user).toMatchSchema(schema)).toThrow(
+      /at \/email\s+expected: must match format "email" \(format\)\s+actual: {3}"not-an-email"/,
+    );
+    expect(() => expect(user).toMatchSchema(schema)).toThrow(/at \/age\s+expected: must be >= 0 \(minimum\)/);
+    expect(() => expect(user).toMatchSchema(schema)).toThrow(/at \/name\s+expected: required property.*\s+actual: {3}\(missing\)/);
+  });
+
+  test('schema files can $ref each other in a cycle', async () => {
+    // category.json → subcategories.json → category.json (and tag.json)
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'schema-spec-'));
+    const write = (name: string, schema: object) => fs.writeFileSync(path.join(dir, name), JSON.stringify(schema));
+    write('category.json', {
+      type: 'object',
+      required: ['name'],
+      properties: { name: { type: 'string' }, children: { $ref: './subcategories.json' } },
+    });
+    write('subcategories.json', {
+      type: 'array',
+      items: { allOf: [{ $ref: './category.json' }, { properties: { tag: { $ref: './tag.json' } } }] },
+    });
+    write('tag.json', { type: 'string', minLength: 1 });
+
+    try {
+      const schema = path.join(dir, 'category.json');
+      expect(validateJsonSchema({ name: 'Books', children: [{ name: 'Poetry', tag: 'verse', children: [] }] }, schema)).toEqual([]);
+      expect(validateJsonSchema({ name: 'Books', children: [{ name: 'Poetry', tag: '' }] }, schema)).toEqual([
+        expect.objectContaining({ pointer: '/children/0/tag', actual: '' }),
+      ]);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,162 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { test, expect } from '../fixtures/base.fixture';
+import {
+  SessionCheck,
+  StorageStateFile,
+  checkSession,
+  cookieExpiryCheck,
+  decodeJwt,
+  isJwt,
+  jwtExpiryCheck,
+  notEmptyCheck,
+} from '../../utils';
+
+/**
+ * JWT and Session Validity Tests - @api
+ *
+ * Covers the decoder (utils/jwt.ts) and the checks the setup project runs
+ * before reusing a cached storage state (utils/session-validity.ts). Pure
+ * functions and temporary files only — no browser or network needed.
+ */
+
+const ORIGIN = 'https://app.example.test';
+
+/** Build an unsigned compact JWT from a header and payload. */
+function makeJwt(payload: Record<string, unknown>, header: Record<string, unknown> = { alg: 'none', typ: 'JWT' }): string {
+  const encode = (part: object) => Buffer.from(JSON.stringify(part)).toString('base64url');
+  return `${encode(header)}.${encode(payload)}.`;
+}
+
+/** A storage state holding one localStorage token. */
+function stateWithToken(token: string): StorageStateFile {
+  return { cookies: [], origins: [{ origin: ORIGIN, localStorage: [{ name: 'auth_token', value: token }] }] };
+}
+
+const nowSeconds = () => Math.floor(Date.now() / 1000);
+
+test.describe('JWT decoding @api', () => {
+  test('decodes the header and payload', async () => {
+    const token = makeJwt({ sub: 'user-1', exp: 1767225600 }, { alg: 'RS256', kid: 'key-1' });
+    expect(isJwt(token)).toBe(true);
+    expect(decodeJwt(token)).toEqual({ header: { alg: 'RS256', kid: 'key-1' }, payload: { sub: 'user-1', exp: 1767225600 } });
+    expect(decodeJwt(`Bearer ${token}`)?.payload.sub).toBe('user-1');
+  });
+
+  test('a token without exp decodes with exp undefined', async () => {
+    expect(decodeJwt(makeJwt({ sub: 'user-1' }))?.payload.exp).toBeUndefined();
+  });
+
+  test('malformed tokens decode to null', async () => {
+    const header = Buffer.from('{"alg":"none"}').toString('base64url');
+    const cases = {
+      'not a token': 'session-id-123',
+      'two segments': `${header}.${header}`,
+      'standard base64 characters': `${header}.eyJzdWIiOiJ1c2VyLTEifQ+/.sig`,
+      'payload is not JSON': `${header}.${Buffer.from('not json').toString('base64url')}.sig`,
+      'payload is not an object': `${header}.${Buffer.from('42').toString('base64url')}.sig`,
+      'empty string': '',
+    };
+    for (const [label, token] of Object.entries(cases)) {
+      expect(decodeJwt(token), label).toBeNull();
+    }
+  });
+});
+
+test.describe('Session validity checks @api', () => {
+  test('notEmptyCheck accepts cookies or localStorage alone', async () => {
+    const check = notEmptyCheck();
+    const cookie = { name: 'sid', value: 'abc', domain: 'app.example.test', path: '/', expires: -1, httpOnly: true, secure: true, sameSite: 'Lax' as const };
+
+    expect(check({ cookies: [cookie], origins: [] })).toMatchObject({ valid: true });
+    expect(check(stateWithToken('opaque-token'))).toMatchObject({ valid: true });
+    expect(check({ cookies: [], origins: [{ origin: ORIGIN, localStorage: [] }] })).toEqual({
+      valid: false,
+      reason: 'state has no cookies and no localStorage',
+    });
+  });
+
+  test('cookieExpiryCheck ignores session cookies and rejects expired ones', async () => {
+    const cookie = { name: 'sid', value: 'abc', domain: 'app.example.test', path: '/', httpOnly: true, secure: true, sameSite: 'Lax' as const };
+
+    expect(cookieExpiryCheck()({ cookies: [{ ...cookie, expires: -1 }], origins: [] })).toMatchObject({ valid: true });
+    expect(cookieExpiryCheck()({ cookies: [{ ...cookie, expires: nowSeconds() - 10 }], origins: [] })).toMatchObject({
+      valid: false,
+      reason: expect.stringContaining('cookie "sid" expired'),
+    });
+  });
+
+  test('jwtExpiryCheck treats tokens inside the margin as expired', async () => {
+    const margin = 60;
+    const check = jwtExpiryCheck(margin);
+
+    expect(check(stateWithToken(makeJwt({ exp: nowSeconds() + margin - 5 })))).toMatchObject({
+      valid: false,
+      reason: expect.stringContaining(`within the ${margin}s margin`),
+    });
+    expect(check(stateWithToken(makeJwt({ exp: nowSeconds() + margin + 5 })))).toEqual({
+      valid: true,
+      reason: `1 JWT(s) valid beyond ${margin}s`,
+    });
+  });
+
+  test('jwtExpiryCheck accepts tokens without exp and non-JWT values', async () => {
+    const check = jwtExpiryCheck(60);
+    expect(check(stateWithToken(makeJwt({ sub: 'user-1' })))).toMatchObject({ valid: true });
+    expect(check(stateWithToken('opaque-token'))).toEqual({ valid: true, reason: 'no JWTs stored' });
+  });
+});
+
+test.describe('checkSession @api', () => {
+  let dir: string;
+
+  test.beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'session-spec-'));
+  });
+
+  test.afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  /** Write a state file and return its path. */
+  const writeState = (name: string, content: string) => {
+    const file = path.join(dir, name);
+    fs.writeFileSync(file, content);
+    return file;
+  };
+
+  const pass = (reason: string): SessionCheck => () => ({ valid: true, reason });
+  const fail = (reason: string): SessionCheck => () => ({ valid: false, reason });
+
+  test('a missing or unreadable file is stale', async () => {
+    expect(await checkSession(path.join(dir, 'missing.json'), [])).toMatchObject({ valid: false, reason: expect.stringContaining('no cached state') });
+    expect(await checkSession(writeState('broken.json', '{'), [])).toMatchObject({ valid: false, reason: expect.stringContaining('is not valid JSON') });
+  });
+
+  test('the first failing check wins and later checks do not run', async () => {
+    const ran: string[] = [];
+    const track = (name: string, check: SessionCheck): SessionCheck => (state) => {
+      ran.push(name);
+      return check(state);
+    };
+    const file = writeState('state.json', JSON.stringify(stateWithToken('opaque-token')));
+
+    const verdict = await checkSession(file, [track('a', pass('a ok')), track('b', fail('b failed')), track('c', fail('c failed'))]);
+    expect(verdict).toEqual({ valid: false, reason: 'b failed' });
+    expect(ran).toEqual(['a', 'b']);
+  });
+
+  test('when every check passes, their reasons are joined', async () => {
+    const file = writeState('valid.json', JSON.stringify(stateWithToken(makeJwt({ exp: nowSeconds() + 3600 }))));
+
+    expect(await checkSession(file, [notEmptyCheck(), cookieExpiryCheck(), jwtExpiryCheck(60)])).toEqual({
+      valid: true,
+      reason: 'state has cookies or localStorage; cookies not expired; 1 JWT(s) valid beyond 60s',
+    });
+    expect(await checkSession(file, [pass('first'), async () => ({ valid: true, reason: 'async' })])).toEqual({
+      valid: true,
+      reason: 'first; async',
+    });
+  });
+});
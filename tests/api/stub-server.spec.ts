@@ -0,0 +1,66 @@
+import { test, expect } from '../fixtures/base.fixture';
+import { getApiBaseUrl } from '../../utils';
+
+/**
+ * Stub Server Tests - @api
+ *
+ * These tests show how to register routes on the bundled stub server so an
+ * API spec controls exactly what the backend returns. Use this pattern for
+ * error paths and edge cases that are hard to trigger on a real environment.
+ *
+ * Routes can be declared for a whole describe block with test.use(), or
+ * added inside a single test with stubServer.route(). Both are cleared
+ * after each test.
+ *
+ * NOTE: These tests only run against the stub server. They are skipped
+ * when API_BASE_URL points at a real API.
+ */
+
+test.skip(!!getApiBaseUrl(), 'Stub routes only apply when API_BASE_URL is unset');
+
+test.describe('Stub Server Routes @api', () => {
+  test.use({
+    stubRoutes: {
+      'GET /api/health': { body: { status: 'ok' } },
+      'POST /api/users': { status: 201, body: { id: 1 } },
+    },
+  });
+
+  test('declared routes respond with their configured body', async ({ apiContext }) => {
+    const response = await apiContext.get('/api/health');
+
+    expect(response.status()).toBe(200);
+    expect(await response.json()).toEqual({ status: 'ok' });
+  });
+
+  test('declared routes respond with their configured status', async ({ apiContext }) => {
+    const response = await apiContext.post('/api/users', { data: { name: 'test-user' } });
+
+    expect(response.status()).toBe(201);
+    expect(await response.json()).toEqual({ id: 1 });
+  });
+
+  test('routes added in a test can compute responses', async ({ apiContext, stubServer }) => {
+    stubServer.route({
+      path: /^\/api\/users\/\d+$/,
+      handler: (request) => ({ body: { id: Number(request.path.split('/').pop()) } }),
+    });
+
+    const response = await apiContext.get('/api/users/42');
+
+    expect(await response.json()).toEqual({ id: 42 });
+  });
+
+  test('non-JSON bodies keep their content type', async ({ apiContext }) => {
+    const response = await apiContext.get('/html');
+
+    expect(response.headers()['content-type']).toContain('text/html');
+    expect(await response.text()).toContain('<h1>Stub API</h1>');
+  });
+
+  test('unknown routes return 404', async ({ apiContext }) => {
+    const response = await apiContext.get('/api/does-not-exist');
+
+    expect(response.status()).toBe(404);
+  });
+});
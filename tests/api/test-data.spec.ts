@@ -0,0 +1,172 @@
+import { test, expect } from '../fixtures/base.fixture';
+import {
+  TestData,
+  defineFactory,
+  deriveTestSeed,
+  getLocalePack,
+  getRunSeed,
+  getTestDataSeed,
+  registerLocale,
+  seedTestData,
+} from '../../utils';
+
+/**
+ * Test Data Tests - @api
+ *
+ * TestData is driven by a seeded PRNG. Every test is seeded by the
+ * testDataSeed fixture from the run seed (TEST_SEED), its test ID and
+ * retry; when a test fails, the run seed is printed and attached as
+ * test-seed.txt. Re-run with TEST_SEED=<seed> to get the same users,
+ * products and orders again.
+ *
+ * Each entity is a factory with traits, a sequence and buildList; teams
+ * register their own entities with defineFactory (utils/factory.ts).
+ */
+
+interface TicketData {
+  key: string;
+  title: string;
+  priority: 'low' | 'high';
+  reporter: { email: string; role: string };
+}
+
+const ticketFactory = defineFactory('ticket', {
+  build: ({ sequence }): TicketData => ({
+    key: `QA-${sequence}`,
+    title: `Ticket ${sequence}`,
+    priority: 'low',
+    reporter: TestData.user(),
+  }),
+  traits: {
+    urgent: { priority: 'high' },
+    fromAdmin: () => ({ reporter: TestData.user.trait('admin')() }),
+  },
+});
+
+test.describe('Test Data @api', () => {
+  test('each test is seeded before it runs', async ({ testDataSeed }) => {
+    expect(getTestDataSeed()).toBe(testDataSeed);
+  });
+
+  test('the seed mixes the run seed with the test ID and retry', async ({ testDataSeed }, testInfo) => {
+    expect(testDataSeed).toBe(deriveTestSeed(getRunSeed(), testInfo.testId, testInfo.retry));
+
+    // Another run, another test or a retry gets different data
+    expect(deriveTestSeed('another-run', testInfo.testId, testInfo.retry)).not.toBe(testDataSeed);
+    expect(deriveTestSeed(getRunSeed(), 'another-test', testInfo.retry)).not.toBe(testDataSeed);
+    expect(deriveTestSeed(getRunSeed(), testInfo.testId, testInfo.retry + 1)).not.toBe(testDataSeed);
+  });
+
+  test('the same seed regenerates the same data', async () => {
+    const generate = () => ({
+      user: TestData.user(),
+      address: TestData.address(),
+      product: TestData.product(),
+      order: TestData.order(),
+      text: TestData.randomString(16),
+    });
+
+    seedTestData('reproducible');
+    const first = generate();
+    seedTestData('reproducible');
+    const second = generate();
+    seedTestData('different');
+    const third = generate();
+
+    expect(second).toEqual(first);
+    expect(third).not.toEqual(first);
+  });
+
+  test('values within a test stay unique', async () => {
+    const emails = new Set(Array.from({ length: 100 }, () => TestData.email()));
+    expect(emails.size).toBe(100);
+  });
+
+  test('traits and overrides apply in order', async () => {
+    expect(TestData.user.trait('admin')().role).toBe('admin');
+    expect(TestData.user.trait('admin')({ role: 'auditor' }).role).toBe('auditor');
+    expect(TestData.product.trait('outOfStock')().inStock).toBe(false);
+
+    const ticket = ticketFactory.trait('urgent', 'fromAdmin')({ reporter: { email: 'lead@example.com' } });
+    expect(ticket).toMatchObject({ priority: 'high', reporter: { role: 'admin', email: 'lead@example.com' } });
+  });
+
+  test('sequences count per factory and restart when reseeded', async () => {
+    seedTestData('sequences');
+    expect(ticketFactory.buildList(3).map((ticket) => ticket.key)).toEqual(['QA-1', 'QA-2', 'QA-3']);
+    expect(ticketFactory.buildList(2, (index) => ({ title: `Bulk ${index}` })).map((ticket) => ticket.title))
+      .toEqual(['Bulk 0', 'Bulk 1']);
+
+    seedTestData('sequences');
+    expect(ticketFactory().key).toBe('QA-1');
+  });
+
+  test('orders are built from associated line items, customer and address', async () => {
+    const order = TestData.order.trait('shipped')({ shippingAddress: { city: 'Boston' } });
+
+    expect(order.status).toBe('shipped');
+    expect(order.shippingAddress).toMatchObject({ city: 'Boston', country: 'US' });
+    expect(order.customer.email).toMatch(/@example\.com$/);
+    expect(order.items.length).toBeGreaterThan(0);
+    const sum = order.items.reduce((total, item) => total + item.lineTotal, 0);
+    expect(order.total).toBeCloseTo(sum, 2);
+
+    const product = TestData.product({ price: 10 });
+    const custom = TestData.order({ items: [TestData.lineItem({ product, quantity: 3 })] });
+    expect(custom.items[0]).toMatchObject({ product: { sku: product.sku }, unitPrice: 10, lineTotal: 30 });
+    expect(custom.total).toBe(30);
+  });
+});
+
+test.describe('Test Data locales @api', () => {
+  // Independent of TEST_DATA_LOCALE
+  test.use({ dataLocale: 'en-US' });
+
+  test.describe('de-DE', () => {
+    test.use({ dataLocale: 'de-DE' });
+
+    test('addresses, phones and orders follow the locale', async () => {
+      const order = TestData.order();
+
+      expect(order.currency).toBe('EUR');
+      expect(order.shippingAddress.country).toBe('DE');
+      expect(order.shippingAddress.zip).toMatch(/^\d{5}$/);
+      expect(order.shippingAddress.street).toMatch(/^\D+ \d+$/);
+      expect(order.customer.phone).toMatch(/^\+4915\d{9}$/);
+    });
+  });
+
+  test.describe('ja-JP', () => {
+    test.use({ dataLocale: 'ja-JP' });
+
+    test('amounts are whole yen and emails stay ASCII', async () => {
+      const order = TestData.order();
+
+      expect(order.currency).toBe('JPY');
+      expect(Number.isInteger(order.total)).toBe(true);
+      expect(order.shippingAddress.zip).toMatch(/^\d{3}-\d{4}$/);
+      expect(order.customer.phone).toMatch(/^\+8190\d{8}$/);
+      expect(order.customer.email).toMatch(/^[\x20-\x7e]+$/);
+    });
+  });
+
+  test('withLocale switches for one call only', async () => {
+    const paris = TestData.withLocale('fr-FR', () => TestData.address());
+    expect(paris.country).toBe('FR');
+    expect(TestData.address().country).toBe('US');
+  });
+
+  test('custom locale packs can be registered', async () => {
+    registerLocale({
+      ...getLocalePack('de-DE'),
+      locale: 'de-AT',
+      country: 'AT',
+      cities: [{ city: 'Wien', region: 'Wien', postalCode: '1###' }],
+      phone: { countryCode: '43', pattern: '66#########' },
+    });
+
+    const user = TestData.withLocale('de-AT', () => TestData.user());
+    expect(user.phone).toMatch(/^\+4366\d{9}$/);
+    expect(() => TestData.withLocale('xx-XX', () => TestData.user())).toThrow('[test-data] No locale pack for "xx-XX"');
+  });
+});
@@ -0,0 +1,55 @@
+import { test, expect } from '../fixtures/base.fixture';
+import { generateTotp, parseTotpSecret, totpCounter, totpSecondsRemaining } from '../../utils';
+
+/**
+ * TOTP Tests - @api
+ *
+ * Checks the offline one-time code generator against the RFC 6238
+ * reference values (Appendix B), so MFA logins produce the same codes as
+ * an authenticator app. No browser or network needed.
+ */
+
+// The RFC's ASCII seeds ("1234567890" repeated to each algorithm's key size), base32-encoded
+const SHA1_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+const SHA256_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQGEZA';
+const SHA512_SECRET =
+  'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQGEZDGNA';
+
+const RFC_VECTORS = [
+  { seconds: 59, sha1: '94287082', sha256: '46119246', sha512: '90693936' },
+  { seconds: 1111111109, sha1: '07081804', sha256: '68084774', sha512: '25091201' },
+  { seconds: 1111111111, sha1: '14050471', sha256: '67062674', sha512: '99943326' },
+  { seconds: 1234567890, sha1: '89005924', sha256: '91819424', sha512: '93441116' },
+  { seconds: 2000000000, sha1: '69279037', sha256: '90698825', sha512: '38618901' },
+  { seconds: 20000000000, sha1: '65353130', sha256: '77737706', sha512: '47863826' },
+];
+
+test.describe('TOTP @api', () => {
+  for (const { seconds, sha1, sha256, sha512 } of RFC_VECTORS) {
+    test(`matches the RFC 6238 reference codes at T=${seconds}`, async () => {
+      const time = seconds * 1000;
+      expect(generateTotp({ secret: SHA1_SECRET, digits: 8 }, time)).toBe(sha1);
+      expect(generateTotp({ secret: SHA256_SECRET, digits: 8, algorithm: 'SHA256' }, time)).toBe(sha256);
+      expect(generateTotp({ secret: SHA512_SECRET, digits: 8, algorithm: 'SHA512' }, time)).toBe(sha512);
+    });
+  }
+
+  test('defaults to 6 digits every 30 seconds', async () => {
+    expect(generateTotp(SHA1_SECRET, 59_000)).toBe('287082');
+    expect(totpCounter(SHA1_SECRET, 59_000)).toBe(1);
+    expect(totpSecondsRemaining(SHA1_SECRET, 59_000)).toBe(1);
+    expect(totpSecondsRemaining(SHA1_SECRET, 60_000)).toBe(30);
+  });
+
+  test('reads parameters from an otpauth:// URI', async () => {
+    const uri = `otpauth://totp/Staging:admin?secret=${SHA1_SECRET}&issuer=Staging&digits=8&period=60`;
+    expect(parseTotpSecret(uri)).toEqual({ secret: SHA1_SECRET, digits: 8, period: 60, algorithm: 'SHA1' });
+    // T=59s is still the first 60-second period
+    expect(generateTotp(uri, 59_000)).toBe(generateTotp({ secret: SHA1_SECRET, digits: 8, period: 60 }, 0));
+  });
+
+  test('ignores spacing and case in base32 secrets', async () => {
+    expect(generateTotp('gezd gnbv gy3t qojq gezd gnbv gy3t qojq', 59_000)).toBe('287082');
+    expect(() => generateTotp('NOT-BASE32!', 59_000)).toThrow('[totp] The TOTP secret is not valid base32');
+  });
+});
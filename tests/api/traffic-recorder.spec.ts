@@ -0,0 +1,52 @@
+import { test, expect } from '../fixtures/base.fixture';
+import { REDACTED } from '../../utils';
+
+/**
+ * Traffic Recorder Tests - @api
+ *
+ * With trafficRecording enabled, every request sent through apiContext is
+ * logged and attached to the test as http-traffic.ndjson. Open a test in
+ * the HTML report to see the attachment.
+ *
+ * Most suites should set RECORD_TRAFFIC=retain-on-failure instead, so only
+ * failed tests carry the log. Secrets are redacted before anything is
+ * recorded (see utils/redaction.ts).
+ */
+
+test.describe('Traffic Recorder @api', () => {
+  test.use({ trafficRecording: 'on' });
+
+  test('requests and responses are recorded', async ({ apiContext, trafficRecorder }) => {
+    await apiContext.post('/post', { data: { name: 'recorded-user' } });
+
+    expect(trafficRecorder.entries).toHaveLength(1);
+    const [entry] = trafficRecorder.entries;
+    expect(entry).toMatchObject({ source: 'apiContext', method: 'POST', status: 200 });
+    expect(entry.url).toMatch(/\/post$/);
+    expect(entry.request.headers['Content-Type']).toBe('application/json');
+    expect(JSON.parse(entry.request.body!)).toEqual({ name: 'recorded-user' });
+    expect(JSON.parse(entry.response!.body!).json).toEqual({ name: 'recorded-user' });
+    expect(entry.durationMs).toBeGreaterThanOrEqual(0);
+  });
+
+  test('the log is written as one JSON object per line', async ({ apiContext, trafficRecorder }) => {
+    await apiContext.get('/get');
+    await apiContext.get('/status/404');
+
+    const lines = trafficRecorder.toNdjson().trim().split('\n');
+    expect(lines.map((line) => JSON.parse(line).status)).toEqual([200, 404]);
+  });
+
+  test('secrets are redacted before they are recorded', async ({ apiContext, trafficRecorder }) => {
+    await apiContext.post('/post?api_key=abc123', {
+      headers: { Authorization: 'Bearer abc.def.ghi' },
+      data: { username: 'recorded-user', password: 'hunter2-secret' },
+    });
+
+    const [entry] = trafficRecorder.entries;
+    expect(entry.url).toContain(`api_key=${REDACTED}`);
+    expect(entry.request.headers.Authorization).toBe(REDACTED);
+    expect(JSON.parse(entry.request.body!)).toEqual({ username: 'recorded-user', password: REDACTED });
+    expect(trafficRecorder.toNdjson()).not.toMatch(/hunter2|abc\.def\.ghi|abc123/);
+  });
+});
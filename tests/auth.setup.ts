@@ -1,103 +1,161 @@
-import { test as setup } from '@playwright/test';
-import fs from 'node:fs';
-import path from 'node:path';
+import { test as setup, APIRequest, Page } from '@playwright/test';
+import { LoginPage } from '../pages/login.page';
+import {
+  assertStatus,
+  getEnvConfig,
+  checkSession,
+  notEmptyCheck,
+  cookieExpiryCheck,
+  jwtExpiryCheck,
+  whoamiCheck,
+  generateTotp,
+  getOidcConfig,
+  authorizationCodeLogin,
+  storeTokens,
+  SessionCheck,
+} from '../utils';
+import { roles, authStatePath, RoleName, RoleDefinition } from './fixtures/roles';
 
 /**
  * Authentication Setup
  *
  * This file runs before all UI browser projects (chromium, firefox, webkit).
- * It authenticates once and saves the browser state (cookies, localStorage)
- * to a JSON file that other projects reuse via storageState.
+ * It authenticates once per role declared in tests/fixtures/roles.ts and
+ * saves each role's browser state (cookies, localStorage) to its own JSON
+ * file (.auth/<role>.json) that tests reuse via storageState.
  *
- * Cache logic:
- *   - If state.json exists and cookies are not expired → skip login (fast)
- *   - If state.json is missing or cookies expired → login and save fresh state
+ * Cache logic (per role, see utils/session-validity.ts):
+ *   - If .auth/<role>.json exists, no cookie has expired, no JWT in
+ *     localStorage expires within AUTH_TOKEN_EXPIRY_MARGIN_SECONDS, and the
+ *     optional AUTH_WHOAMI_ENDPOINT accepts the session → skip login (fast)
+ *   - Otherwise → login and save fresh state
+ * The reason for the decision is logged either way.
  *
  * How to use:
- *   1. Replace the placeholder login steps below with your app's login flow
- *   2. The saved state is loaded automatically by browser projects in playwright.config.ts
- *   3. Every UI test starts already authenticated — no login needed per test
+ *   1. Set each role's credentials in .env (e.g. ADMIN_USERNAME, ADMIN_PASSWORD),
+ *      plus ADMIN_TOTP_SECRET etc. for roles behind MFA (UI strategy)
+ *   2. Adapt LoginPage (UI strategy), AUTH_TOKEN_ENDPOINT (API strategy) or
+ *      OIDC_ISSUER / OIDC_CLIENT_ID and signInAtIdp() (OIDC strategy) to your app
+ *   3. UI projects load the default role's state; use test.use({ role }) or
+ *      the asRole() fixture to run as another role
  *
  * @see https://playwright.dev/docs/auth
  */
 
-/** Stored outside outputDir so Playwright doesn't wipe it between runs. */
-const AUTH_STATE_PATH = '.auth/state.json';
-
 /**
- * Check if the cached auth state is still valid.
+ * Build the validity checks for cached sessions.
  *
- * Reads state.json and checks every cookie's `expires` field.
- * Returns true only if the file exists AND all cookies are still valid.
+ * Cookie and JWT expiry are always checked; the "who am I" round trip runs
+ * only when AUTH_WHOAMI_ENDPOINT is set. Add app-specific checks here.
  */
-function isAuthStateValid(): boolean {
-  const fullPath = path.resolve(AUTH_STATE_PATH);
+function sessionChecks(request: APIRequest, baseURL: string | undefined): SessionCheck[] {
+  const env = getEnvConfig();
+  const checks = [
+    notEmptyCheck(),
+    cookieExpiryCheck(),
+    jwtExpiryCheck(env.authTokenExpiryMarginSeconds),
+  ];
 
-  if (!fs.existsSync(fullPath)) {
-    return false;
+  if (env.authWhoamiEndpoint) {
+    checks.push(whoamiCheck(request, env.authWhoamiEndpoint, baseURL));
   }
 
-  try {
-    const raw = fs.readFileSync(fullPath, 'utf-8');
-    const state = JSON.parse(raw);
+  return checks;
+}
 
-    // No cookies at all — treat as invalid (fresh placeholder file)
-    if (!state.cookies || state.cookies.length === 0) {
-      return false;
-    }
+/**
+ * Complete the identity provider's login form during the OIDC strategy.
+ *
+ * ADAPT THIS: IdP login pages differ (username and password on separate
+ * steps, consent screens, "stay signed in?" prompts). This fills the common
+ * single-form layout; IdPs that sign the login_hint user in directly (like
+ * the bundled stub IdP) never show it.
+ */
+function signInAtIdp(username: string, password: string) {
+  return async (page: Page): Promise<void> => {
+    const usernameInput = page.getByLabel(/user ?name|e-?mail/i);
+    if (!(await usernameInput.isVisible())) return;
+    await usernameInput.fill(username);
+    await page.getByLabel(/password/i).fill(password);
+    await page.getByRole('button', { name: /sign in|log ?in|continue|next/i }).click();
+  };
+}
 
-    const now = Date.now() / 1000; // cookies use Unix seconds
+/**
+ * Sign a role in using its declared strategy.
+ *
+ * Roles without credentials get an unauthenticated placeholder state so the
+ * starter runs out of the box; set the role's credentials in .env to log in.
+ */
+async function authenticate(page: Page, role: RoleName, definition: RoleDefinition): Promise<void> {
+  const { username, password } = definition;
+
+  if (!username || !password) {
+    // eslint-disable-next-line no-console
+    console.log(`[auth] No credentials for role "${role}" — saving unauthenticated state.`);
+    // Navigate to the base URL so storageState has a valid origin.
+    await page.goto('/');
+    return;
+  }
 
-    // Check if any cookie has expired
-    const hasExpired = state.cookies.some(
-      (cookie: { expires: number }) =>
-        cookie.expires > 0 && cookie.expires < now,
+  if (definition.strategy === 'api') {
+    // API strategy: exchange credentials for a token, then store it where the app expects it.
+    // ADAPT THIS: Change the request body (including the one-time code field) and token field to match your auth endpoint.
+    const env = getEnvConfig();
+    const otp = definition.totpSecret ? generateTotp(definition.totpSecret) : undefined;
+    const response = await page.request.post(env.authTokenEndpoint, {
+      data: otp ? { username, password, otp } : { username, password },
+    });
+    await assertStatus(response, 200);
+    const { token } = await response.json();
+
+    await page.goto('/');
+    await page.evaluate(
+      ([key, value]) => localStorage.setItem(key, value),
+      [env.authTokenStorageKey, token as string],
     );
+    return;
+  }
 
-    return !hasExpired;
-  } catch {
-    // Corrupt file — re-authenticate
-    return false;
+  if (definition.strategy === 'oidc') {
+    // OIDC strategy: authorization code + PKCE at the issuer, then store the access token like the API strategy.
+    const config = getOidcConfig();
+    if (!config) {
+      throw new Error(`[auth] Role "${role}" uses the oidc strategy, but OIDC_ISSUER and OIDC_CLIENT_ID are not set`);
+    }
+    const tokens = await authorizationCodeLogin(page, config, {
+      loginHint: username,
+      signIn: signInAtIdp(username, password),
+    });
+    await page.goto('/');
+    await storeTokens(page, tokens);
+    return;
   }
+
+  // UI strategy: log in through the login form, answering the MFA step if the role has a TOTP secret.
+  const loginPage = new LoginPage(page);
+  await loginPage.navigateToLogin();
+  await loginPage.login(username, password, definition.totpSecret);
 }
 
-setup('authenticate', async ({ page }) => {
-  // Skip login if we already have a valid cached session
-  if (isAuthStateValid()) {
+for (const [role, definition] of Object.entries(roles) as [RoleName, RoleDefinition][]) {
+  setup(`authenticate as ${role}`, async ({ page, playwright, baseURL }) => {
+    const statePath = authStatePath(role);
+    const verdict = await checkSession(statePath, sessionChecks(playwright.request, baseURL));
+
+    // Skip login if we already have a valid cached session for this role
+    if (verdict.valid) {
+      // eslint-disable-next-line no-console
+      console.log(`[auth] Reusing cached session for "${role}" — ${verdict.reason}.`);
+      return;
+    }
+
     // eslint-disable-next-line no-console
-    console.log('[auth] Reusing cached session — cookies still valid.');
-    return;
-  }
+    console.log(`[auth] Re-authenticating "${role}" (${definition.strategy}) — ${verdict.reason}.`);
+
+    await authenticate(page, role, definition);
 
-  // eslint-disable-next-line no-console
-  console.log('[auth] No valid session found — authenticating...');
-
-  // ----------------------------------------------------------------
-  // Replace the steps below with your application's login flow.
-  //
-  // Example for a typical email/password login:
-  //
-  //   await page.goto('/login');
-  //   await page.getByLabel('Email').fill('testuser@example.com');
-  //   await page.getByLabel('Password').fill('password123');
-  //   await page.getByRole('button', { name: 'Sign in' }).click();
-  //   await page.waitForURL('/dashboard');
-  //
-  // Example for API-based auth (faster):
-  //
-  //   const response = await page.request.post('/api/auth/login', {
-  //     data: { email: 'testuser@example.com', password: 'password123' },
-  //   });
-  //   const { token } = await response.json();
-  //   await page.goto('/');
-  //   await page.evaluate((t) => localStorage.setItem('auth_token', t), token);
-  //
-  // ----------------------------------------------------------------
-
-  // Placeholder: navigate to the base URL so storageState has a valid origin.
-  // Remove this and add your real auth flow above.
-  await page.goto('/');
-
-  // Save the authenticated browser state for reuse by other projects
-  await page.context().storageState({ path: AUTH_STATE_PATH });
-});
+    // Save the authenticated browser state for reuse by other projects
+    await page.context().storageState({ path: statePath });
+  });
+}
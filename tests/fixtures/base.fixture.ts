@@ -1,5 +1,42 @@
-import { test as base, expect, APIRequestContext } from '@playwright/test';
+import fs from 'node:fs';
+import { test as base, APIRequestContext } from '@playwright/test';
 import { Page } from '@playwright/test';
+import {
+  A11yOptions,
+  CreatedDataRegistry,
+  OidcClientConfig,
+  PageHealthAllowlist,
+  PageHealthMode,
+  PageHealthMonitor,
+  RetryPolicy,
+  StubIdentityProvider,
+  StubServer,
+  SelectorDrift,
+  StubRouteTable,
+  TrafficMode,
+  TrafficRecorder,
+  attachRedacted,
+  bearerHeaders,
+  formatPageHealthIssue,
+  clientCredentialsToken,
+  deriveTestSeed,
+  formatSelectorDrift,
+  getActiveCreatedData,
+  getEnvConfig,
+  getOidcConfig,
+  getRunSeed,
+  seedTestData,
+  setA11yDefaults,
+  setActiveCreatedData,
+  setTestDataLocale,
+  startSelectorDriftLog,
+  withRetryPolicy,
+} from '../../utils';
+import { ApiClient } from '../../utils/api-client.generated';
+import { HomePage } from '../../pages/home.page';
+import { Pages, createPages } from '../../pages/registry';
+import { expect } from './matchers';
+import { RoleContexts, RoleName, authStatePath } from './roles';
 
 /**
  * Custom Playwright Fixtures
@@ -19,11 +56,83 @@ import { Page } from '@playwright/test';
 
 /** Type definitions for our custom fixtures */
 type CustomFixtures = {
-  /** A page that has already navigated to the application's base URL */
-  homePage: Page;
+  /** The HomePage page object, already opened */
+  homePage: HomePage;
+
+  /** The registered page objects (pages/registry.ts) for the test's page, created on first use */
+  pages: Pages;
 
   /** A pre-configured API request context for making HTTP calls */
   apiContext: APIRequestContext;
+
+  /** Overrides for apiContext's retry/backoff/timeout policy (set via test.use) */
+  apiRetryPolicy: Partial<RetryPolicy>;
+
+  /** How apiContext authenticates: 'none', or an OIDC client credentials token (set via test.use) */
+  apiAuth: 'none' | 'oidc';
+
+  /** OIDC issuer and client for apiAuth: 'oidc' (set via test.use; defaults to OIDC_ISSUER etc.) */
+  oidcConfig: OidcClientConfig | undefined;
+
+  /** When recorded HTTP traffic is attached to the test (set via test.use or RECORD_TRAFFIC) */
+  trafficRecording: TrafficMode;
+
+  /** Log of requests sent through apiContext and page.request during the test */
+  trafficRecorder: TrafficRecorder;
+
+  /** What unexpected page errors do at teardown: 'fail' (default), 'warn' or 'off' */
+  pageHealthMode: PageHealthMode;
+
+  /** Known console/network noise that does not count against the test, keyed by reason */
+  pageHealthAllowlist: PageHealthAllowlist;
+
+  /** Console errors, page errors, failed requests and 5xx responses seen by the test's pages */
+  pageHealth: PageHealthMonitor;
+
+  /** Resources created through apiContext during the test, deleted at teardown */
+  createdData: CreatedDataRegistry;
+
+  /** Typed client generated from the OpenAPI document, sharing apiContext */
+  apiClient: ApiClient;
+
+  /** Routes registered on the stub server for a single test (set via test.use) */
+  stubRoutes: StubRouteTable;
+
+  /** The worker's stub server, with this test's stubRoutes registered */
+  stubServer: StubServer;
+
+  /** The worker's local OIDC identity provider; users and clients added by the test are reset after it */
+  stubIdp: StubIdentityProvider;
+
+  /** The seed TestData was seeded with for this test (derived from TEST_SEED, the test ID and retry) */
+  testDataSeed: string;
+
+  /** Page object selectors that resolved through a fallback during the test */
+  selectorDrift: SelectorDrift[];
+
+  /** Locale TestData generates for, e.g. 'de-DE' (set via test.use or TEST_DATA_LOCALE) */
+  dataLocale: string;
+
+  /** Default rules and exclusions for accessibility audits (set via test.use) */
+  a11yOptions: A11yOptions;
+
+  /** Applies a11yOptions to every toPassA11yChecks() and auditAccessibility() in the test */
+  a11yDefaults: A11yOptions;
+
+  /** Role the test's `page` is authenticated as (set via test.use; defaults to the project's) */
+  role: RoleName | undefined;
+
+  /** Open a new page in an extra context authenticated as the given role */
+  asRole: (role: RoleName) => Promise<Page>;
+};
+
+/** Type definitions for fixtures shared by every test in a worker */
+type WorkerFixtures = {
+  /** The bundled stub API server, started once per worker */
+  sharedStubServer: StubServer;
+
+  /** A local OIDC identity provider (utils/stub-idp.ts), started on first use per worker */
+  sharedStubIdp: StubIdentityProvider;
 };
 
 /**
@@ -33,38 +142,401 @@ type CustomFixtures = {
  *
  *   import { test, expect } from '../fixtures/base.fixture';
  */
-export const test = base.extend<CustomFixtures>({
+export const test = base.extend<CustomFixtures, WorkerFixtures>({
+  /**
+   * dataLocale option
+   *
+   * Generate names, addresses, phone numbers and order currency for a
+   * market (see utils/locales.ts). Defaults to TEST_DATA_LOCALE. Set the
+   * browser's `locale` option too if the UI should match.
+   *
+   *   test.use({ dataLocale: 'ja-JP' });
+   */
+  dataLocale: [getEnvConfig().testDataLocale, { option: true }],
+
+  /**
+   * testDataSeed fixture (automatic)
+   *
+   * Seeds TestData before every test with a seed derived from the run
+   * seed (TEST_SEED), the test ID and the retry — distinct per test and
+   * per run, yet reproducible — and switches it to the test's dataLocale.
+   * When the test fails, the run seed is printed and attached as
+   * test-seed.txt — re-run with TEST_SEED=<seed> to regenerate exactly the
+   * same data.
+   */
+  testDataSeed: [async ({ dataLocale }, use, testInfo) => {
+    const runSeed = getRunSeed();
+    const seed = deriveTestSeed(runSeed, testInfo.testId, testInfo.retry);
+    seedTestData(seed);
+    setTestDataLocale(dataLocale);
+
+    await use(seed);
+
+    if (testInfo.status !== testInfo.expectedStatus) {
+      const retry = testInfo.retry ? ` (retry ${testInfo.retry})` : '';
+      // eslint-disable-next-line no-console
+      console.log(`[test-data] "${testInfo.title}"${retry} failed with TEST_SEED=${runSeed} — re-run with it to regenerate the same data.`);
+      await testInfo.attach('test-seed.txt', { body: `TEST_SEED=${runSeed}\n`, contentType: 'text/plain' });
+    }
+  }, { auto: true }],
+
+  /**
+   * selectorDrift fixture (automatic)
+   *
+   * Collects the page object selectors that only resolved through a
+   * fallback (see utils/locator-fallback.ts). If any did, the test logs a
+   * warning and attaches selector-drift.json; the selector-drift reporter
+   * summarizes them for the whole run.
+   */
+  // eslint-disable-next-line no-empty-pattern
+  selectorDrift: [async ({}, use, testInfo) => {
+    const drifts = startSelectorDriftLog();
+
+    await use(drifts);
+
+    if (drifts.length > 0) {
+      // eslint-disable-next-line no-console
+      console.warn(`[selectors] "${testInfo.title}" used fallback selectors:\n${drifts.map((drift) => `  ${formatSelectorDrift(drift)}`).join('\n')}`);
+      await attachRedacted(testInfo, 'selector-drift.json', JSON.stringify(drifts, null, 2), 'application/json');
+    }
+  }, { auto: true }],
+
+  /**
+   * a11yOptions option
+   *
+   * Rules and exclusions every accessibility audit in the test starts from
+   * (see utils/a11y.ts). Use it to skip third-party widgets or known issues
+   * for a whole file or project:
+   *
+   *   test.use({ a11yOptions: { exclude: ['#chat-widget'] } });
+   */
+  a11yOptions: [{}, { option: true }],
+
+  /**
+   * a11yDefaults fixture (automatic)
+   *
+   * Hands a11yOptions to the accessibility checker before each test, so the
+   * matcher and page objects pick them up without passing them around.
+   */
+  a11yDefaults: [async ({ a11yOptions }, use) => {
+    setA11yDefaults(a11yOptions);
+    await use(a11yOptions);
+    setA11yDefaults({});
+  }, { auto: true }],
+
+  /**
+   * role option
+   *
+   * Run the test's `page` as a different role. Each role's storage state is
+   * produced by the setup project (see tests/fixtures/roles.ts).
+   *
+   *   test.use({ role: 'admin' });
+   */
+  role: [undefined, { option: true }],
+
+  /**
+   * storageState override
+   *
+   * Swaps in the selected role's cached state; without a role, keeps the
+   * project's storageState (the default role).
+   */
+  storageState: async ({ role, storageState }, use) => {
+    await use(role ? authStatePath(role) : storageState);
+  },
+
+  /**
+   * asRole fixture
+   *
+   * Opens an extra browser context authenticated as another role and returns
+   * a page in it. Use this for permission tests that need two users at once.
+   * All contexts opened this way are closed after the test.
+   *
+   * Usage in tests:
+   *   test('read-only user cannot delete', async ({ page, asRole }) => {
+   *     const readonlyPage = await asRole('readonly');
+   *     await readonlyPage.goto('/items/1');
+   *     await expect(readonlyPage.getByRole('button', { name: 'Delete' })).toBeHidden();
+   *   });
+   */
+  asRole: async ({ browser, baseURL, pageHealth }, use) => {
+    const roleContexts = new RoleContexts(browser, baseURL);
+
+    await use(async (role) => {
+      const context = await roleContexts.open(role);
+      pageHealth.watch(context);
+      return context.newPage();
+    });
+
+    // Teardown: close every context opened during the test
+    await roleContexts.close();
+  },
+
   /**
    * homePage fixture
    *
-   * Navigates to the base URL before the test starts.
-   * The page is automatically closed after the test completes.
+   * The HomePage page object (pages/home.page.ts), opened before the test
+   * starts — shorthand for `await pages.home.open()`. Its `page` is the
+   * test's page, which Playwright closes after the test completes.
    *
    * Usage in tests:
    *   test('my test', async ({ homePage }) => {
-   *     // homePage is already at baseURL - start asserting!
-   *     await expect(homePage).toHaveTitle(/./);
+   *     // homePage is already open - start asserting!
+   *     await expect(homePage.navigation).toBeVisible();
+   *   });
+   */
+  homePage: async ({ pages }, use) => {
+    // Navigate to the home page and wait for it to load
+    await use(await pages.home.open());
+  },
+
+  /**
+   * pages fixture
+   *
+   * Every page object registered in pages/registry.ts, bound to the test's
+   * page. Nothing is constructed until a test touches it, and navigation
+   * methods return the same instances.
+   *
+   * Usage in tests:
+   *   test('user can log in', async ({ pages }) => {
+   *     await pages.login.navigateToLogin();
+   *     const home = await pages.login.login('testuser', 'testpassword');
+   *     await expect(home.heading).toBeVisible();
    *   });
    */
-  homePage: async ({ page, baseURL }, use) => {
-    // Navigate to the base URL (configured in playwright.config.ts)
-    await page.goto(baseURL ?? '/');
+  pages: async ({ page }, use) => {
+    await use(createPages(page));
+  },
 
-    // Wait for the page to be fully loaded before handing it to the test
-    await page.waitForLoadState('domcontentloaded');
+  /**
+   * sharedStubServer fixture (worker-scoped)
+   *
+   * Starts the bundled stub API server on a free port once per worker and
+   * stops it when the worker shuts down. Tests should use `stubServer`
+   * instead, which also resets custom routes between tests.
+   */
+  // eslint-disable-next-line no-empty-pattern
+  sharedStubServer: [async ({}, use) => {
+    const server = new StubServer();
+    await server.start();
+    await use(server);
+    await server.stop();
+  }, { scope: 'worker' }],
 
-    // Provide the page to the test function
-    await use(page);
+  /**
+   * sharedStubIdp fixture (worker-scoped)
+   *
+   * Starts a local OpenID Connect provider on a free port the first time a
+   * test in the worker asks for it, and stops it when the worker shuts
+   * down. Tests should use `stubIdp` instead, which also resets users and
+   * clients between tests.
+   */
+  // eslint-disable-next-line no-empty-pattern
+  sharedStubIdp: [async ({}, use) => {
+    const idp = new StubIdentityProvider();
+    await idp.start();
+    await use(idp);
+    await idp.stop();
+  }, { scope: 'worker' }],
+
+  /**
+   * stubRoutes option
+   *
+   * Declare per-test routes on the stub server, keyed by 'METHOD /path'.
+   * (A table rather than an array — test.use() reads arrays as fixture tuples.)
+   *
+   *   test.use({
+   *     stubRoutes: { 'GET /api/health': { body: { status: 'ok' } } },
+   *   });
+   */
+  stubRoutes: [{}, { option: true }],
+
+  /**
+   * stubServer fixture
+   *
+   * The worker's stub server with this test's `stubRoutes` registered.
+   * Routes added with `stubServer.route()` during the test are cleared
+   * afterwards, so tests never see each other's routes.
+   *
+   * Usage in tests:
+   *   test('handles a 404', async ({ stubServer, apiContext }) => {
+   *     stubServer.route({ path: '/api/orders', status: 404 });
+   *     const response = await apiContext.get('/api/orders');
+   *     expect(response.status()).toBe(404);
+   *   });
+   */
+  stubServer: async ({ sharedStubServer, stubRoutes }, use) => {
+    sharedStubServer.addRoutes(stubRoutes);
+
+    await use(sharedStubServer);
 
-    // Teardown: Playwright automatically closes the page after the test
+    sharedStubServer.resetRoutes();
   },
 
+  /**
+   * stubIdp fixture
+   *
+   * The worker's local OpenID Connect provider. Users and clients a test
+   * adds (setUser, registerClient) are removed after it, so they do not
+   * leak into the next test. Point oidcConfig at it to run the OIDC flows
+   * offline:
+   *
+   *   test.use({
+   *     apiAuth: 'oidc',
+   *     oidcConfig: async ({ stubIdp }, use) => use({ issuer: stubIdp.issuer, ...STUB_IDP_CLIENT }),
+   *   });
+   */
+  stubIdp: async ({ sharedStubIdp }, use) => {
+    await use(sharedStubIdp);
+
+    sharedStubIdp.reset();
+  },
+
+  /**
+   * trafficRecording option
+   *
+   * 'off' (default), 'on', or 'retain-on-failure' — the same choices as the
+   * video setting. Defaults to RECORD_TRAFFIC from the environment.
+   *
+   *   test.use({ trafficRecording: 'on' });
+   */
+  trafficRecording: [getEnvConfig().recordTraffic, { option: true }],
+
+  /**
+   * trafficRecorder fixture
+   *
+   * Collects every exchange made through apiContext and page.request and,
+   * depending on `trafficRecording`, attaches the log to the test as
+   * http-traffic.ndjson (see utils/traffic-recorder.ts).
+   */
+  trafficRecorder: async ({ trafficRecording }, use, testInfo) => {
+    const recorder = new TrafficRecorder(trafficRecording);
+
+    await use(recorder);
+
+    // Teardown: runs after apiContext and page are done, so the log is complete
+    const failed = testInfo.status !== testInfo.expectedStatus;
+    const keep = trafficRecording === 'on' || (trafficRecording === 'retain-on-failure' && failed);
+    if (keep && recorder.entries.length > 0) {
+      const logPath = testInfo.outputPath('http-traffic.ndjson');
+      await fs.promises.writeFile(logPath, recorder.toNdjson());
+      await testInfo.attach('http-traffic.ndjson', { path: logPath, contentType: 'application/x-ndjson' });
+    }
+  },
+
+  /**
+   * pageHealthMode option
+   *
+   * 'fail' (default) fails a test whose pages logged console errors, threw
+   * uncaught exceptions, had requests fail or got 5xx responses; 'warn'
+   * only reports them; 'off' stops watching. Defaults to PAGE_HEALTH from
+   * the environment.
+   *
+   *   test.use({ pageHealthMode: 'warn' });
+   */
+  pageHealthMode: [getEnvConfig().pageHealth, { option: true }],
+
+  /**
+   * pageHealthAllowlist option
+   *
+   * Known noise that does not count against the test, keyed by the reason
+   * it is allowed (see utils/page-health.ts). Set it per project in
+   * playwright.config.ts or per file with test.use() — a file's table
+   * replaces the project's, so spread shared entries into both. For noise
+   * one test runs into, call pageHealth.allow() in the test.
+   *
+   *   test.use({ pageHealthAllowlist: { 'chat widget': /widget\.intercom\.io/ } });
+   */
+  pageHealthAllowlist: [{}, { option: true }],
+
+  /**
+   * pageHealth fixture (automatic)
+   *
+   * Watches the test's page (and pages from asRole) for the whole test.
+   * At teardown, attaches page-health.json if anything was seen and, for
+   * issues the allowlist does not cover, fails the test or warns depending
+   * on `pageHealthMode`. API tests never open a page, so it stays quiet there.
+   */
+  pageHealth: [async ({ pageHealthMode, pageHealthAllowlist }, use, testInfo) => {
+    const monitor = new PageHealthMonitor(pageHealthMode, pageHealthAllowlist);
+
+    await use(monitor);
+
+    // Teardown: runs after page and asRole have closed their contexts, so nothing is missed
+    if (monitor.issues.length === 0) return;
+    await attachRedacted(testInfo, 'page-health.json', JSON.stringify(monitor.summary(), null, 2), 'application/json');
+
+    const unexpected = monitor.unexpected();
+    if (unexpected.length === 0) return;
+    const report = unexpected.map((issue) => `  ${formatPageHealthIssue(issue)}`).join('\n');
+    if (pageHealthMode === 'fail') {
+      throw new Error(
+        `[page-health] ${unexpected.length} unexpected page error(s) — fix them or add them to pageHealthAllowlist:\n${report}`,
+      );
+    }
+    testInfo.annotations.push({ type: 'page-health', description: `${unexpected.length} unexpected page error(s)` });
+    // eslint-disable-next-line no-console
+    console.warn(`[page-health] "${testInfo.title}" had unexpected page errors:\n${report}`);
+  }, { auto: true }],
+
+  /**
+   * page override
+   *
+   * Routes page.request through the traffic recorder. Browser-initiated
+   * requests (navigation, XHR) are covered by the trace instead. Also hands
+   * the page's context to the page health monitor.
+   */
+  page: async ({ page, trafficRecorder, pageHealth }, use) => {
+    if (trafficRecorder.mode !== 'off') {
+      Object.defineProperty(page, 'request', { value: trafficRecorder.record(page.request, 'page.request') });
+    }
+    pageHealth.watch(page.context());
+    await use(page);
+  },
+
+  /**
+   * apiRetryPolicy option
+   *
+   * Tune how apiContext retries transient failures (see utils/retry-policy.ts).
+   * By default idempotent requests get 3 attempts on 502/503/504.
+   *
+   *   test.use({ apiRetryPolicy: { maxAttempts: 5, retryOnStatus: [429, 503] } });
+   *   test.use({ apiRetryPolicy: { maxAttempts: 1 } });  // send each request once
+   */
+  apiRetryPolicy: [{}, { option: true }],
+
+  /**
+   * apiAuth option
+   *
+   * 'oidc' makes apiContext send a client credentials access token from
+   * `oidcConfig` as its Authorization header. The token is cached per
+   * worker until it nears expiry (see utils/oidc.ts).
+   *
+   *   test.use({ apiAuth: 'oidc' });
+   */
+  apiAuth: ['none', { option: true }],
+
+  /**
+   * oidcConfig option
+   *
+   * The issuer and client the OIDC flows use. Defaults to OIDC_ISSUER,
+   * OIDC_CLIENT_ID and friends; undefined when those are unset.
+   */
+  oidcConfig: [getOidcConfig(), { option: true }],
+
   /**
    * apiContext fixture
    *
    * Creates an APIRequestContext configured with the API base URL from
    * environment variables. This is the recommended way to make API calls
    * in Playwright tests (instead of using external tools like Postman).
+   * Requests go through the retry policy, and each attempt shows up as a
+   * step in the report. With apiAuth: 'oidc', every request carries a
+   * client credentials bearer token.
+   *
+   * Resources created with factory.create() during the test are deleted in
+   * reverse order at teardown, even if the test failed. Any that cannot be
+   * deleted are reported as a warning and a test-data-leftovers.json
+   * attachment.
    *
    * Usage in tests:
    *   test('my api test', async ({ apiContext }) => {
@@ -72,32 +544,91 @@ export const test = base.extend<CustomFixtures>({
    *     expect(response.ok()).toBeTruthy();
    *   });
    */
-  apiContext: async ({ playwright }, use) => {
-    // Create a new API context with the API base URL
-    // Falls back to BASE_URL if API_BASE_URL is not set
-    // Default to httpbin.org — a public HTTP testing service that always works.
+  apiContext: async ({ playwright, stubServer, apiRetryPolicy, trafficRecorder, apiAuth, oidcConfig }, use, testInfo) => {
+    // Use API_BASE_URL when set; otherwise target the bundled stub server,
+    // which serves httpbin-compatible endpoints so tests run offline.
     // Set API_BASE_URL in your .env to point to your own API.
-    const apiBaseUrl = process.env.API_BASE_URL
-      || 'https://httpbin.org';
-
-    const context = await playwright.request.newContext({
-      baseURL: apiBaseUrl,
-      extraHTTPHeaders: {
-        'Accept': 'application/json',
-        'Content-Type': 'application/json',
-      },
-    });
+    const apiBaseUrl = getEnvConfig().apiBaseUrl ?? stubServer.url;
+
+    const extraHTTPHeaders: Record<string, string> = {
+      'Accept': 'application/json',
+      'Content-Type': 'application/json',
+    };
+    if (apiAuth === 'oidc') {
+      if (!oidcConfig) {
+        throw new Error('[oidc] apiAuth is "oidc", but no oidcConfig is set (OIDC_ISSUER, OIDC_CLIENT_ID, OIDC_CLIENT_SECRET)');
+      }
+      // A separate context for the token request, so it carries no API headers
+      const tokenContext = await playwright.request.newContext();
+      try {
+        Object.assign(extraHTTPHeaders, bearerHeaders(await clientCredentialsToken(tokenContext, oidcConfig)));
+      } finally {
+        await tokenContext.dispose();
+      }
+    }
+    const context = await playwright.request.newContext({ baseURL: apiBaseUrl, extraHTTPHeaders });
+
+    // Provide the API context to the test, with transient failures retried.
+    // The recorder sits inside the retry policy so every attempt is logged.
+    const recorded = trafficRecorder.record(context, 'apiContext', extraHTTPHeaders);
+    const apiContext = withRetryPolicy(recorded, apiRetryPolicy);
+    const createdData = new CreatedDataRegistry(apiContext);
+    setActiveCreatedData(createdData);
 
-    // Provide the API context to the test
-    await use(context);
+    await use(apiContext);
 
-    // Teardown: Dispose of the API context to free resources
+    // Teardown: delete created test data (newest first), then report what is left
+    setActiveCreatedData(undefined);
+    const leftovers = await createdData.cleanup();
+    if (leftovers.length > 0) {
+      // eslint-disable-next-line no-console
+      console.warn(`[test-data] ${leftovers.length} resource(s) created by "${testInfo.title}" could not be deleted — see test-data-leftovers.json.`);
+      await attachRedacted(testInfo, 'test-data-leftovers.json', JSON.stringify(leftovers, null, 2), 'application/json');
+    }
+
+    // Dispose of the API context to free resources
     await context.dispose();
   },
+
+  /**
+   * createdData fixture
+   *
+   * The registry apiContext deletes created resources from. Track resources
+   * created without a factory so they are cleaned up too:
+   *
+   *   test('archives a project', async ({ apiContext, createdData }) => {
+   *     const response = await apiContext.post('/api/projects', { data: { name: 'p' } });
+   *     const { id } = await response.json();
+   *     createdData.track({ factory: 'project', id, deletePath: `/api/projects/${id}` });
+   *   });
+   */
+  // Depends on apiContext, which opens the registry and cleans it up
+  createdData: async ({ apiContext: _apiContext }, use) => {
+    await use(getActiveCreatedData());
+  },
+
+  /**
+   * apiClient fixture
+   *
+   * Wraps apiContext in the client generated from openapi/stub-api.yaml
+   * (regenerate with `npm run generate:api-client`). Paths, parameters and
+   * response bodies are typed per operation, so no casts are needed.
+   *
+   * Usage in tests:
+   *   test('echoes the payload', async ({ apiClient }) => {
+   *     const result = await apiClient.postEcho({ body: { name: 'a', email: 'a@example.com' } });
+   *     expect(result.status).toBe(200);
+   *     expect(result.body.json?.name).toBe('a');
+   *   });
+   */
+  apiClient: async ({ apiContext }, use) => {
+    await use(new ApiClient(apiContext));
+  },
 });
 
 /**
- * Re-export expect so test files only need one import:
+ * Re-export expect (with the custom matchers from matchers.ts) so test files
+ * only need one import:
  *
  *   import { test, expect } from '../fixtures/base.fixture';
  */
@@ -0,0 +1,130 @@
+import { expect as baseExpect, test, APIResponse, Page } from '@playwright/test';
+import { JsonSchemaSource, formatSchemaViolations, validateJsonSchema } from '../../utils/json-schema';
+import { ApiSnapshotOptions, normalizeApiResponse, serializeApiSnapshot } from '../../utils/api-snapshot';
+import { A11yOptions, auditAccessibility, formatA11yViolations } from '../../utils/a11y';
+
+/**
+ * Custom Matchers
+ *
+ * Extends Playwright's expect with project-specific assertions. Test files
+ * get these through the `expect` re-exported by base.fixture.ts:
+ *
+ *   import { test, expect } from '../fixtures/base.fixture';
+ *
+ * @see https://playwright.dev/docs/test-assertions#add-custom-matchers-using-expectextend
+ */
+
+/*
+ * Declare the matchers on PlaywrightTest.Matchers as well, so they type-check
+ * on `any` values such as `await response.json()` (expect.extend's inferred
+ * types only apply to non-any values).
+ */
+declare global {
+  // eslint-disable-next-line @typescript-eslint/no-namespace
+  namespace PlaywrightTest {
+    interface Matchers<R> {
+      toMatchSchema(schema: JsonSchemaSource): R;
+    }
+  }
+}
+
+export const expect = baseExpect.extend({
+  /**
+   * Assert that a value matches a JSON Schema (draft 2020-12).
+   *
+   * On failure, every violation is listed with its JSON pointer, the
+   * expected constraint and the actual value.
+   *
+   * @param schema - Inline schema, or a path to a local .json schema file
+   *
+   * @example
+   *   const body = await response.json();
+   *   expect(body).toMatchSchema('tests/api/schemas/echo.schema.json');
+   *   expect(body.items).toMatchSchema({ type: 'array', minItems: 1 });
+   */
+  toMatchSchema(received: unknown, schema: JsonSchemaSource) {
+    const violations = validateJsonSchema(received, schema);
+    const pass = violations.length === 0;
+    const hint = this.utils.matcherHint('toMatchSchema', undefined, undefined, { isNot: this.isNot });
+
+    return {
+      pass,
+      name: 'toMatchSchema',
+      message: () => pass
+        ? `${hint}\n\nExpected value not to match the schema, but it did.`
+        : `${hint}\n\n${formatSchemaViolations(violations)}`,
+    };
+  },
+
+  /**
+   * Assert that an API response matches a stored contract snapshot.
+   *
+   * The response is normalized (status, selected headers, body; keys sorted;
+   * volatile values masked) and compared with a JSON snapshot file next to
+   * the spec, one per Playwright project:
+   *
+   *   tests/api/health.spec.ts-snapshots/<name>-<project>.json
+   *
+   * A missing snapshot is written by the first run, which fails so the new
+   * snapshot gets reviewed and committed. Update changed ones with
+   * `npx playwright test --update-snapshots`.
+   *
+   * @param name - Snapshot name (file name without extension)
+   * @param options - JSONPaths to mask, headers to keep, arrays to sort
+   *
+   * @example
+   *   await expect(response).toMatchApiSnapshot('post-echo', {
+   *     mask: ['$.headers.Date', '$.origin'],
+   *   });
+   */
+  async toMatchApiSnapshot(received: APIResponse, name: string, options: ApiSnapshotOptions = {}) {
+    if (this.isNot) {
+      throw new Error('[snapshot] .not.toMatchApiSnapshot() is not supported.');
+    }
+
+    const snapshot = serializeApiSnapshot(await normalizeApiResponse(received, options));
+    const testInfo = test.info();
+
+    // Contracts do not vary by OS: drop the platform suffix, keep the project name
+    const platformSuffix = testInfo.snapshotSuffix;
+    testInfo.snapshotSuffix = '';
+    try {
+      baseExpect(snapshot).toMatchSnapshot(`${name}.json`);
+      return { pass: true, name: 'toMatchApiSnapshot', message: () => `API snapshot "${name}" matched.` };
+    } catch (error) {
+      return { pass: false, name: 'toMatchApiSnapshot', message: () => (error as Error).message };
+    } finally {
+      testInfo.snapshotSuffix = platformSuffix;
+    }
+  },
+
+  /**
+   * Assert that a page passes the built-in accessibility checks (see
+   * utils/a11y.ts): accessible names, labels, alt text, heading order,
+   * unique IDs, a main landmark and color contrast.
+   *
+   * The page is checked once, as it is — assert on the content you expect
+   * first so it has rendered. On failure, every violation is listed with a
+   * CSS selector, and the list is attached as a11y-violations.json.
+   *
+   * @param options - Rules to run (default: all) and selectors to skip;
+   *   combined with the test's `a11yOptions`
+   *
+   * @example
+   *   await expect(page).toPassA11yChecks();
+   *   await expect(page).toPassA11yChecks({ rules: ['label'], exclude: ['#cookie-banner'] });
+   */
+  async toPassA11yChecks(received: Page, options: A11yOptions = {}) {
+    const violations = await auditAccessibility(received, options);
+    const pass = violations.length === 0;
+    const hint = this.utils.matcherHint('toPassA11yChecks', 'page', undefined, { isNot: this.isNot });
+
+    return {
+      pass,
+      name: 'toPassA11yChecks',
+      message: () => pass
+        ? `${hint}\n\nExpected accessibility violations, but the page passed every check.`
+        : `${hint}\n\n${violations.length} accessibility violation(s) on ${received.url()}:\n${formatA11yViolations(violations)}`,
+    };
+  },
+});
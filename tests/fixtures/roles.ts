@@ -0,0 +1,122 @@
+import { Browser, BrowserContext } from '@playwright/test';
+import { getEnvConfig } from '../../utils/env';
+
+/**
+ * User Roles
+ *
+ * Declares every role the suite authenticates as. The setup project
+ * (tests/auth.setup.ts) logs in once per role and caches each storage state
+ * in its own file under .auth/, so tests can run as any role without
+ * logging in again.
+ *
+ * Each role has its own credentials (read from the env config), an optional
+ * TOTP secret for MFA, and a login strategy:
+ *   - 'ui'  — fills the login form via LoginPage.login()
+ *   - 'api' — posts credentials to AUTH_TOKEN_ENDPOINT and stores the
+ *             returned token in localStorage (faster, no form rendering)
+ *   - 'oidc' — signs in at OIDC_ISSUER with the authorization code flow and
+ *             PKCE, then stores the access token like 'api' (utils/oidc.ts)
+ *
+ * Adding a role:
+ *   1. Add its credential variables to the schema in utils/env.ts
+ *   2. Add an entry to `roles` below
+ *   The setup project and the `role` / `asRole` fixtures pick it up automatically.
+ *
+ * @example
+ *   test.use({ role: 'admin' });
+ *
+ *   test('member cannot see admin panel', async ({ page, asRole }) => {
+ *     const memberPage = await asRole('member');
+ *     // ...
+ *   });
+ */
+
+/** How a role signs in during the setup project. */
+export type LoginStrategy = 'ui' | 'api' | 'oidc';
+
+/** Declaration of a single role. */
+export interface RoleDefinition {
+  /** Username or email; when unset, setup saves an unauthenticated placeholder state */
+  username: string | undefined;
+  /** Password for the role */
+  password: string | undefined;
+  /** TOTP secret for roles behind MFA; LoginPage fills the one-time code (utils/totp.ts) */
+  totpSecret?: string;
+  /** How the setup project signs this role in */
+  strategy: LoginStrategy;
+}
+
+const env = getEnvConfig();
+
+/** All roles the setup project authenticates. */
+export const roles = {
+  admin: {
+    username: env.adminUsername,
+    password: env.adminPassword,
+    totpSecret: env.adminTotpSecret,
+    strategy: 'ui',
+  },
+  member: {
+    username: env.memberUsername,
+    password: env.memberPassword,
+    totpSecret: env.memberTotpSecret,
+    strategy: 'ui',
+  },
+  readonly: {
+    username: env.readonlyUsername,
+    password: env.readonlyPassword,
+    totpSecret: env.readonlyTotpSecret,
+    strategy: 'api',
+  },
+} satisfies Record<string, RoleDefinition>;
+
+/** Name of a declared role. */
+export type RoleName = keyof typeof roles;
+
+/** The role UI projects run as unless a test asks for another. */
+export const DEFAULT_ROLE: RoleName = 'member';
+
+/**
+ * Path of a role's cached storage state.
+ *
+ * Stored outside outputDir so Playwright doesn't wipe it between runs.
+ *
+ * @param role - The role name
+ * @returns The path to the role's storage state file (e.g. '.auth/admin.json')
+ */
+export function authStatePath(role: RoleName): string {
+  return `.auth/${role}.json`;
+}
+
+/**
+ * Browser contexts opened as other roles during one test.
+ *
+ * Backs the asRole fixture: open() starts a context from the role's cached
+ * storage state, close() closes every context opened so far.
+ */
+export class RoleContexts {
+  private readonly contexts: BrowserContext[] = [];
+
+  constructor(
+    private readonly browser: Browser,
+    private readonly baseURL?: string,
+  ) {}
+
+  /**
+   * Open a context authenticated as a role.
+   *
+   * @param role - The role name
+   * @returns The new context
+   */
+  async open(role: RoleName): Promise<BrowserContext> {
+    const context = await this.browser.newContext({ baseURL: this.baseURL, storageState: authStatePath(role) });
+    this.contexts.push(context);
+    return context;
+  }
+
+  /** Close every context opened so far. */
+  async close(): Promise<void> {
+    const contexts = this.contexts.splice(0);
+    await Promise.all(contexts.map((context) => context.close()));
+  }
+}
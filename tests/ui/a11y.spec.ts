@@ -0,0 +1,82 @@
+import { test, expect } from '../fixtures/base.fixture';
+import { BasePage } from '../../pages/base.page';
+
+/**
+ * Accessibility Check Tests - @ui
+ *
+ * Runs the built-in checker (utils/a11y.ts) on small inline pages, one
+ * problem per rule, so the rules are verified without the application
+ * under test.
+ */
+
+const ACCESSIBLE_HTML = `
+  <header><nav aria-label="Main"><a href="/">Home</a></nav></header>
+  <main>
+    <h1>Account</h1>
+    <h2>Profile</h2>
+    <img src="data:," alt="Avatar">
+    <img src="data:," alt="">
+    <label>Email <input type="email"></label>
+    <button aria-label="Close"><svg aria-hidden="true"></svg></button>
+    <input type="submit">
+  </main>
+`;
+
+const BROKEN_HTML = `
+  <div>
+    <h1>Account</h1>
+    <h3 id="settings">Settings</h3>
+    <a href="/profile"></a>
+    <button id="icon"><img src="data:,"></button>
+    <input type="text" id="settings">
+    <p style="color: #999; background: #fff">Low contrast text</p>
+    <div id="chat-widget"><button></button></div>
+  </div>
+`;
+
+test.describe('Accessibility Checks @ui', () => {
+  test('an accessible page passes every rule', async ({ page }) => {
+    await page.setContent(ACCESSIBLE_HTML);
+    await expect(page).toPassA11yChecks();
+  });
+
+  test('violations are reported with selectors', async ({ page }) => {
+    await page.setContent(BROKEN_HTML);
+    const violations = await new BasePage(page).auditAccessibility({ exclude: ['#chat-widget'] });
+
+    expect(violations.map(({ rule, selector }) => ({ rule, selector }))).toEqual([
+      { rule: 'button-name', selector: '#icon' },
+      { rule: 'link-name', selector: 'html > body > div > a' },
+      { rule: 'label', selector: 'html > body > div > input' },
+      { rule: 'image-alt', selector: '#icon > img' },
+      { rule: 'heading-order', selector: 'html > body > div > h3' },
+      { rule: 'duplicate-id', selector: 'html > body > div > input' },
+      { rule: 'landmark', selector: 'html > body' },
+      { rule: 'color-contrast', selector: 'html > body > div > p' },
+    ]);
+    expect(violations.find((violation) => violation.rule === 'color-contrast')?.message).toBe(
+      'Contrast 2.85:1 is below 4.5:1 (#999999 on #ffffff)',
+    );
+    expect(test.info().attachments.map((attachment) => attachment.name)).toContain('a11y-violations.json');
+  });
+
+  test('rules and exclusions narrow the audit', async ({ page }) => {
+    await page.setContent(BROKEN_HTML);
+    await expect(page).toPassA11yChecks({ rules: ['button-name'], exclude: ['#icon', '#chat-widget'] });
+    await expect(page).not.toPassA11yChecks({ rules: ['button-name'] });
+  });
+
+  test.describe('with a11yOptions', () => {
+    test.use({ a11yOptions: { rules: ['duplicate-id'] } });
+
+    test('the option sets the default rules', async ({ page }) => {
+      await page.setContent(ACCESSIBLE_HTML);
+      await expect(page).toPassA11yChecks();
+
+      await page.setContent(BROKEN_HTML);
+      await expect(page).not.toPassA11yChecks();
+      // Exclusions add to the option's, which keeps its rules
+      await expect(page).toPassA11yChecks({ exclude: ['input'] });
+    });
+  });
+});
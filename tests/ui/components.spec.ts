@@ -0,0 +1,180 @@
+import { test, expect } from '../fixtures/base.fixture';
+import { BasePage } from '../../pages/base.page';
+import { DataTable, Dialog, Select, Toast } from '../../pages/components';
+
+/**
+ * Component Object Tests - @ui
+ *
+ * Exercises the standard components (pages/components/) against a small
+ * inline page: a sortable, paginated users table, a confirmation dialog,
+ * toasts, a native <select> and an ARIA combobox.
+ *
+ * UsersPage shows how a page object declares its components.
+ */
+
+const USERS_HTML = `
+  <h1>Users</h1>
+  <table aria-label="Users">
+    <thead>
+      <tr><th aria-sort="none"><button>Name</button></th><th>Email</th><th>Role</th></tr>
+    </thead>
+    <tbody></tbody>
+  </table>
+  <nav aria-label="Pagination">
+    <button>Previous</button><button>1</button><button>2</button><button>Next</button>
+  </nav>
+
+  <button id="delete">Delete user</button>
+  <div role="dialog" aria-labelledby="dialog-title" hidden>
+    <h2 id="dialog-title">Delete user</h2>
+    <p>This cannot be undone.</p>
+    <button>Cancel</button><button>Confirm</button>
+  </div>
+  <section aria-label="Notifications"></section>
+
+  <label for="country">Country</label>
+  <select id="country"><option>France</option><option>Germany</option></select>
+
+  <label for="role">Role</label>
+  <input id="role" role="combobox" aria-controls="role-options" aria-expanded="false">
+  <ul id="role-options" role="listbox" hidden>
+    <li role="option">Admin</li><li role="option">Viewer</li>
+  </ul>
+
+  <script>
+    const users = [
+      ['Ada', 'ada@example.com', 'admin'],
+      ['Grace', 'grace@example.com', 'user'],
+      ['Linus', 'linus@example.com', 'user'],
+      ['Alan', 'alan@example.com', 'readonly'],
+    ];
+    const pageSize = 2;
+    let sort = 'none';
+    let current = 1;
+
+    const nameHeader = document.querySelector('th');
+    const pager = [...document.querySelectorAll('nav button')];
+    function render() {
+      const rows = [...users];
+      if (sort !== 'none') rows.sort((a, b) => (sort === 'ascending' ? 1 : -1) * a[0].localeCompare(b[0]));
+      document.querySelector('tbody').innerHTML = rows
+        .slice((current - 1) * pageSize, current * pageSize)
+        .map((row) => '<tr>' + row.map((cell) => '<td>' + cell + '</td>').join('') + '</tr>')
+        .join('');
+      nameHeader.setAttribute('aria-sort', sort);
+      pager.forEach((button) => button.removeAttribute('aria-current'));
+      pager[current].setAttribute('aria-current', 'page');
+      pager[0].disabled = current === 1;
+      pager[3].disabled = current === 2;
+    }
+    nameHeader.querySelector('button').onclick = () => {
+      sort = { none: 'ascending', ascending: 'descending', descending: 'none' }[sort];
+      render();
+    };
+    pager[0].onclick = () => { current--; render(); };
+    pager[1].onclick = () => { current = 1; render(); };
+    pager[2].onclick = () => { current = 2; render(); };
+    pager[3].onclick = () => { current++; render(); };
+    render();
+
+    const dialog = document.querySelector('[role=dialog]');
+    const notifications = document.querySelector('section');
+    document.getElementById('delete').onclick = () => { dialog.hidden = false; };
+    dialog.querySelector('button').onclick = () => { dialog.hidden = true; };
+    dialog.querySelector('button:last-child').onclick = () => {
+      dialog.hidden = true;
+      const toast = document.createElement('div');
+      toast.setAttribute('role', 'status');
+      toast.innerHTML = 'User deleted <button>Dismiss</button>';
+      toast.querySelector('button').onclick = () => toast.remove();
+      notifications.append(toast);
+    };
+
+    const combobox = document.getElementById('role');
+    const listbox = document.getElementById('role-options');
+    function expand(open) {
+      listbox.hidden = !open;
+      combobox.setAttribute('aria-expanded', String(open));
+    }
+    combobox.onclick = () => expand(true);
+    combobox.onkeydown = (event) => { if (event.key === 'Escape') expand(false); };
+    listbox.querySelectorAll('li').forEach((option) => {
+      option.onclick = () => { combobox.value = option.textContent; expand(false); };
+    });
+  </script>
+`;
+
+/** A page object composed from the standard components. */
+class UsersPage extends BasePage {
+  readonly table = this.component(DataTable, this.page.getByRole('table', { name: 'Users' }));
+  readonly deleteDialog = this.component(Dialog, this.page.getByRole('dialog', { name: 'Delete user' }));
+  readonly toasts = this.component(Toast, this.page.getByRole('region', { name: 'Notifications' }));
+  readonly country = this.component(Select, this.page.getByRole('combobox', { name: 'Country' }));
+  readonly role = this.component(Select, this.page.getByRole('combobox', { name: 'Role' }));
+}
+
+test.describe('Component Objects @ui', () => {
+  let usersPage: UsersPage;
+
+  test.beforeEach(async ({ page }) => {
+    await page.setContent(USERS_HTML);
+    usersPage = new UsersPage(page);
+  });
+
+  test('data table finds rows and cells by column value', async () => {
+    const { table } = usersPage;
+    expect(await table.headers()).toEqual(['Name', 'Email', 'Role']);
+
+    const grace = await table.row('Email', 'grace@example.com');
+    await expect(grace).toHaveCount(1);
+    await expect(await table.cell(grace, 'Role')).toHaveText('user');
+
+    await expect(table.columnIndex('Phone')).rejects.toThrow('[components] DataTable has no column "Phone"');
+  });
+
+  test('data table sorts by aria-sort and pages through results', async () => {
+    const { table } = usersPage;
+
+    await table.sortBy('Name', 'descending');
+    expect(await table.sortDirection('Name')).toBe('descending');
+    expect(await table.columnValues('Name')).toEqual(['Linus', 'Grace']);
+
+    const alan = await table.findRow('Email', 'alan@example.com');
+    await expect(alan).toHaveCount(1);
+    expect(await table.currentPage()).toBe('2');
+    expect(await table.hasNextPage()).toBe(false);
+
+    await table.goToPage(1);
+    expect(await table.columnValues('Name')).toEqual(['Linus', 'Grace']);
+  });
+
+  test('dialog confirms and the toast reports the result', async ({ page }) => {
+    const { deleteDialog, toasts } = usersPage;
+
+    await page.getByRole('button', { name: 'Delete user' }).click();
+    await deleteDialog.waitForOpen();
+    expect(await deleteDialog.title()).toBe('Delete user');
+    await expect(deleteDialog.body).toContainText('cannot be undone');
+
+    await deleteDialog.confirm();
+    expect(await deleteDialog.isOpen()).toBe(false);
+
+    await toasts.waitForMessage('User deleted');
+    await toasts.dismiss('User deleted');
+    expect(await toasts.messages()).toEqual([]);
+  });
+
+  test('select works the same for native and ARIA comboboxes', async () => {
+    const { country, role } = usersPage;
+
+    expect(await country.isNative()).toBe(true);
+    expect(await country.options()).toEqual(['France', 'Germany']);
+    await country.choose('Germany');
+    expect(await country.selected()).toBe('Germany');
+
+    expect(await role.isNative()).toBe(false);
+    expect(await role.options()).toEqual(['Admin', 'Viewer']);
+    await role.choose(/view/i);
+    expect(await role.selected()).toBe('Viewer');
+  });
+});
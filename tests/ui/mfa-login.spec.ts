@@ -0,0 +1,103 @@
+import { test, expect } from '../fixtures/base.fixture';
+import { generateTotp } from '../../utils';
+
+/**
+ * MFA Login Tests - @ui
+ *
+ * LoginPage.login() with a TOTP secret answers the one-time code step.
+ * page.route() plays a login flow with MFA that checks the code against
+ * the same secret.
+ *
+ * Codes are generated and checked by the browser's clock, so page.clock
+ * can put a login right at the boundary between two codes.
+ */
+
+const TOTP_SECRET = 'JBSWY3DPEHPK3PXP';
+
+/** A moment one code replaces the next (any whole minute is a 30s boundary). */
+const CODE_BOUNDARY = Date.UTC(2026, 0, 1);
+
+const LOGIN_HTML = `
+  <form action="/login" method="post">
+    <label>Username <input name="username"></label>
+    <label>Password <input name="password" type="password"></label>
+    <button>Sign in</button>
+  </form>
+`;
+
+const mfaHtml = (error = '') => `
+  <form action="/mfa" method="post">
+    ${error ? `<p role="alert">${error}</p>` : ''}
+    <label>Verification code <input name="code" autocomplete="one-time-code"></label>
+    <button>Verify</button>
+  </form>
+`;
+
+const HOME_HTML = '<main><h1>Welcome back</h1></main>';
+
+test.describe('MFA Login @ui', () => {
+  /** Every code the "server" received, in order */
+  let submittedCodes: string[];
+  /** Runs before the server checks the next code — a slow server, for example */
+  let beforeCheck: (() => Promise<void>) | undefined;
+
+  test.beforeEach(async ({ page }) => {
+    submittedCodes = [];
+    beforeCheck = undefined;
+
+    await page.route('**/*', async (route) => {
+      const request = route.request();
+      const { pathname } = new URL(request.url());
+      const form = new URLSearchParams(request.postData() ?? '');
+
+      let body = HOME_HTML;
+      if (pathname === '/login') body = request.method() === 'POST' ? mfaHtml() : LOGIN_HTML;
+      if (pathname === '/mfa') {
+        const code = form.get('code') ?? '';
+        submittedCodes.push(code);
+        await beforeCheck?.();
+        beforeCheck = undefined;
+        const now = await page.evaluate(() => Date.now());
+        if (code !== generateTotp(TOTP_SECRET, now)) body = mfaHtml('Invalid code');
+      }
+      return route.fulfill({ contentType: 'text/html', body });
+    });
+  });
+
+  test('login answers the one-time code step', async ({ pages }) => {
+    await pages.login.navigateToLogin();
+    const home = await pages.login.login('admin', 'testpassword', TOTP_SECRET);
+    await expect(home.heading).toHaveText('Welcome back');
+  });
+
+  test('a rejected code fails with the app\'s error', async ({ pages }) => {
+    await pages.login.navigateToLogin();
+    await expect(pages.login.login('admin', 'testpassword', 'GEZDGNBVGY3TQOJQ')).rejects.toThrow(
+      /\[auth\] The one-time code was rejected.*: Invalid code/,
+    );
+    expect(submittedCodes).toHaveLength(1);
+  });
+
+  test('a code about to expire is not submitted', async ({ page, pages }) => {
+    await page.clock.install({ time: CODE_BOUNDARY - 2_000 });
+
+    await pages.login.navigateToLogin();
+    const home = await pages.login.login('admin', 'testpassword', TOTP_SECRET);
+    await expect(home.heading).toHaveText('Welcome back');
+
+    // The login waited for the next code rather than sending one with 2s left
+    expect(submittedCodes).toEqual([generateTotp(TOTP_SECRET, CODE_BOUNDARY)]);
+  });
+
+  test('a code that expires in flight is retried once with the next one', async ({ page, pages }) => {
+    await page.clock.install({ time: CODE_BOUNDARY - 10_000 });
+    // The server only gets to the first code after it expired
+    beforeCheck = () => page.clock.fastForward(15_000);
+
+    await pages.login.navigateToLogin();
+    const home = await pages.login.login('admin', 'testpassword', TOTP_SECRET);
+    await expect(home.heading).toHaveText('Welcome back');
+
+    expect(submittedCodes).toEqual([generateTotp(TOTP_SECRET, CODE_BOUNDARY - 10_000), generateTotp(TOTP_SECRET, CODE_BOUNDARY)]);
+  });
+});
@@ -0,0 +1,39 @@
+import { test, expect } from '../fixtures/base.fixture';
+import { STUB_IDP_CLIENT, authorizationCodeLogin, storeTokens } from '../../utils';
+
+/**
+ * OIDC Login Tests - @ui
+ *
+ * The 'oidc' login strategy in the browser: authorization code + PKCE at
+ * the bundled stub identity provider, then the access token stored where
+ * the app reads it. page.route() stands in for the app.
+ */
+
+test.describe('OIDC Login @ui', () => {
+  test.use({
+    oidcConfig: async ({ stubIdp, baseURL }, use) =>
+      use({ issuer: stubIdp.issuer, ...STUB_IDP_CLIENT, redirectUri: new URL('/auth/callback', baseURL).href }),
+  });
+
+  test.beforeEach(async ({ page, baseURL }) => {
+    await page.route(`${baseURL}/**`, (route) => route.fulfill({ contentType: 'text/html', body: '<main><h1>App</h1></main>' }));
+  });
+
+  test('signs the login_hint user in and stores the access token', async ({ page, stubIdp, oidcConfig }) => {
+    stubIdp.setUser('admin', { email: 'admin@example.com', roles: ['admin'] });
+
+    const tokens = await authorizationCodeLogin(page, oidcConfig!, { loginHint: 'admin' });
+    expect(stubIdp.verifyJwt(tokens.idToken!)).toMatchObject({ sub: 'admin', email: 'admin@example.com' });
+
+    await page.goto('/');
+    await storeTokens(page, tokens);
+    const stored = await page.evaluate(() => localStorage.getItem('auth_token'));
+    expect(stored).toBe(tokens.accessToken);
+  });
+
+  test('surfaces the identity provider\'s error', async ({ page, oidcConfig }) => {
+    await expect(authorizationCodeLogin(page, oidcConfig!, { loginHint: 'nobody' })).rejects.toThrow(
+      '[oidc] Authorization failed: access_denied — Unknown user "nobody"',
+    );
+  });
+});
@@ -0,0 +1,115 @@
+import { Page } from '@playwright/test';
+import { test, expect } from '../fixtures/base.fixture';
+import { PageHealthMonitor } from '../../utils';
+
+/**
+ * Page Health Tests - @ui
+ *
+ * The pageHealth fixture (tests/fixtures/base.fixture.ts) watches every UI
+ * test for console errors, uncaught exceptions, failed requests and 5xx
+ * responses. page.route() serves a page that produces each of them.
+ */
+
+const NOISY_HTML = `
+  <!DOCTYPE html>
+  <html lang="en">
+  <body>
+    <h1>Dashboard</h1>
+    <script>
+      console.error('Chat widget failed to initialise');
+      fetch('/api/items').catch(() => {});
+      fetch('/api/offline').catch(() => {});
+      setTimeout(() => { throw new Error('Cannot read properties of undefined (reading "total")'); });
+    </script>
+  </body>
+  </html>
+`;
+
+/** Serve NOISY_HTML for every URL except a 500 for /api/items, and a refused connection for /api/offline. */
+async function openNoisyPage(page: Page): Promise<void> {
+  // Routes added later take precedence over the catch-all
+  await page.route('**/*', (route) => route.fulfill({ contentType: 'text/html', body: NOISY_HTML }));
+  await page.route('**/api/items', (route) => route.fulfill({ status: 500, json: { error: 'boom' } }));
+  await page.route('**/api/offline', (route) => route.abort('connectionrefused'));
+  await page.goto('/');
+}
+
+/** Wait until the page has produced every kind of issue. */
+async function waitForAllIssues(pageHealth: PageHealthMonitor): Promise<void> {
+  await expect
+    .poll(() => pageHealth.issues.map((issue) => issue.kind))
+    .toEqual(expect.arrayContaining(['console', 'pageerror', 'requestfailed', 'http']));
+}
+
+test.describe('Page Health @ui', () => {
+  test('records console errors, page errors, failed requests and 5xx responses', async ({ page, pageHealth }) => {
+    await openNoisyPage(page);
+    await waitForAllIssues(pageHealth);
+
+    const unexpected = pageHealth.unexpected();
+    expect(unexpected).toContainEqual(expect.objectContaining({ kind: 'console', message: 'Chat widget failed to initialise' }));
+    expect(unexpected).toContainEqual(expect.objectContaining({ kind: 'pageerror', message: expect.stringContaining('reading "total"') }));
+    expect(unexpected).toContainEqual(
+      expect.objectContaining({ kind: 'requestfailed', method: 'GET', url: expect.stringContaining('/api/offline') }),
+    );
+    expect(unexpected).toContainEqual(
+      expect.objectContaining({ kind: 'http', method: 'GET', status: 500, url: expect.stringContaining('/api/items') }),
+    );
+
+    // Every issue above was provoked on purpose — allow them so teardown passes
+    pageHealth.allow('provoked by this test', /./);
+    expect(pageHealth.unexpected()).toEqual([]);
+  });
+
+  test('an unexpected page error fails the test', async ({ page, pageHealth }) => {
+    test.fail(true, 'pageHealth fails the test at teardown');
+
+    await openNoisyPage(page);
+    await waitForAllIssues(pageHealth);
+  });
+
+  test.describe('with an allowlist', () => {
+    test.use({
+      pageHealthAllowlist: {
+        'chat widget': /Chat widget/,
+        'items API is flaky in staging': { kind: 'http', url: '/api/items' },
+        'offline endpoint': { kind: 'requestfailed', url: '/api/offline' },
+        'dashboard totals bug (TICKET-123)': { kind: 'pageerror', message: 'reading "total"' },
+        // Chromium also logs every failed load to the console
+        'failed resource loads': { kind: 'console', message: 'Failed to load resource' },
+      },
+    });
+
+    test('allowed issues do not count against the test', async ({ page, pageHealth }) => {
+      await openNoisyPage(page);
+      await waitForAllIssues(pageHealth);
+
+      expect(pageHealth.unexpected()).toEqual([]);
+      expect(pageHealth.allowed().map((issue) => issue.allowedBy)).toEqual(
+        expect.arrayContaining(['chat widget', 'items API is flaky in staging', 'offline endpoint', 'dashboard totals bug (TICKET-123)']),
+      );
+    });
+  });
+
+  test.describe('in warn mode', () => {
+    test.use({ pageHealthMode: 'warn' });
+
+    test('unexpected issues are reported without failing the test', async ({ page, pageHealth }) => {
+      await openNoisyPage(page);
+      await waitForAllIssues(pageHealth);
+
+      expect(pageHealth.unexpected().length).toBeGreaterThan(0);
+    });
+  });
+
+  test.describe('when off', () => {
+    test.use({ pageHealthMode: 'off' });
+
+    test('nothing is recorded', async ({ page, pageHealth }) => {
+      await openNoisyPage(page);
+      await expect(page.getByRole('heading', { name: 'Dashboard' })).toBeVisible();
+
+      expect(pageHealth.issues).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,51 @@
+import { test, expect } from '../fixtures/base.fixture';
+import { HomePage } from '../../pages/home.page';
+
+/**
+ * Page Object Registry Tests - @ui
+ *
+ * The `pages` fixture exposes every page object registered in
+ * pages/registry.ts. These tests drive a tiny login flow served from
+ * page.route().
+ */
+
+const LOGIN_HTML = `
+  <main>
+    <h1>Sign in</h1>
+    <form action="/" method="get">
+      <label>Username <input name="username"></label>
+      <label>Password <input name="password" type="password"></label>
+      <button>Sign in</button>
+    </form>
+  </main>
+`;
+
+const HOME_HTML = `
+  <nav aria-label="Main"><a href="/">Home</a></nav>
+  <main><h1>Welcome back</h1></main>
+`;
+
+test.describe('Page Object Registry @ui', () => {
+  test.beforeEach(async ({ page }) => {
+    await page.route('**/*', (route) => {
+      const { pathname } = new URL(route.request().url());
+      return route.fulfill({ contentType: 'text/html', body: pathname === '/login' ? LOGIN_HTML : HOME_HTML });
+    });
+  });
+
+  test('page objects are created once and shared', async ({ pages }) => {
+    expect(pages.login).toBe(pages.login);
+    expect(pages.home).toBeInstanceOf(HomePage);
+    expect(Object.keys(pages)).toEqual(expect.arrayContaining(['home', 'login']));
+  });
+
+  test('navigation methods return the next page object', async ({ pages }) => {
+    const loginPage = await pages.login.navigateToLogin();
+    expect(await loginPage.isLoginFormVisible()).toBe(true);
+
+    const home = await loginPage.login('testuser', 'testpassword');
+    expect(home).toBe(pages.home);
+    await expect(home.heading).toHaveText('Welcome back');
+    await expect(home.navigation).toBeVisible();
+  });
+});
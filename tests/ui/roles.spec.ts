@@ -0,0 +1,30 @@
+import { test, expect } from '../fixtures/base.fixture';
+import { RoleContexts } from '../fixtures/roles';
+
+/**
+ * Role Context Tests - @ui
+ *
+ * asRole() opens extra contexts from the setup project's cached states
+ * (tests/fixtures/roles.ts) and closes them when the test ends, through
+ * RoleContexts.close().
+ */
+
+test.describe('Roles @ui', () => {
+  test('asRole opens a separate context per call', async ({ asRole, browser }) => {
+    const adminPage = await asRole('admin');
+    const readonlyPage = await asRole('readonly');
+
+    expect(adminPage.context()).not.toBe(readonlyPage.context());
+    expect(browser.contexts()).toEqual(expect.arrayContaining([adminPage.context(), readonlyPage.context()]));
+  });
+
+  test('role contexts are closed by the asRole teardown', async ({ browser, baseURL }) => {
+    const roleContexts = new RoleContexts(browser, baseURL);
+    const opened = [await roleContexts.open('admin'), await roleContexts.open('readonly')];
+    expect(browser.contexts()).toEqual(expect.arrayContaining(opened));
+
+    await roleContexts.close();
+
+    for (const context of opened) expect(browser.contexts()).not.toContain(context);
+  });
+});
@@ -0,0 +1,76 @@
+import { test, expect } from '../fixtures/base.fixture';
+import { resolveFallback } from '../../utils';
+
+/**
+ * Selector Drift Tests - @ui
+ *
+ * LoginPage finds its fields through fallback chains (BasePage.locate()).
+ * These tests render login forms inline with page.setContent(): one that
+ * matches the primary selectors, and one whose labels and button text have
+ * changed, so only the fallbacks still match.
+ */
+
+const LOGIN_FORM = `
+  <form>
+    <label>Username <input name="username"></label>
+    <label>Password <input name="password" type="password"></label>
+    <button>Sign in</button>
+  </form>
+`;
+
+const RENAMED_LOGIN_FORM = `
+  <form>
+    <label>Email address <input name="username"></label>
+    <label>Passphrase <input name="password" type="password" data-testid="password"></label>
+    <button>Log in</button>
+  </form>
+`;
+
+test.describe('Selector Drift @ui', () => {
+  test('primary selectors record no drift', async ({ page, pages, selectorDrift }) => {
+    await page.setContent(LOGIN_FORM);
+
+    await pages.login.fillUsername('testuser');
+    await pages.login.fillPassword('testpassword');
+
+    await expect(page.getByRole('textbox', { name: 'Username' })).toHaveValue('testuser');
+    expect(selectorDrift).toEqual([]);
+  });
+
+  test('fallbacks keep the test working and report the drift', async ({ page, pages, selectorDrift }) => {
+    await page.setContent(RENAMED_LOGIN_FORM);
+
+    await pages.login.fillUsername('testuser');
+    await pages.login.fillPassword('testpassword');
+    await pages.login.fillUsername('testuser');
+
+    await expect(page.getByRole('textbox', { name: 'Email address' })).toHaveValue('testuser');
+    await expect(page.getByTestId('password')).toHaveValue('testpassword');
+
+    // One entry per drifted element, however often it is used
+    expect(selectorDrift).toEqual([
+      expect.objectContaining({
+        owner: 'LoginPage',
+        element: 'usernameInput',
+        expected: expect.stringMatching(/^role: /),
+        used: expect.stringMatching(/^label: /),
+        matches: { role: 0, label: 1, testId: 0 },
+      }),
+      expect.objectContaining({
+        owner: 'LoginPage',
+        element: 'passwordInput',
+        used: expect.stringMatching(/^testId: /),
+        matches: { label: 0, testId: 1 },
+      }),
+    ]);
+  });
+
+  test('a chain with no unique match fails with every strategy\'s count', async ({ page }) => {
+    await page.setContent('<button>Save</button><button>Save</button>');
+
+    const chain = { role: page.getByRole('button', { name: 'Save' }), testId: page.getByTestId('save') };
+    await expect(resolveFallback(chain, { owner: 'EditorPage', element: 'saveButton', timeout: 500 })).rejects.toThrow(
+      '[selectors] EditorPage.saveButton matched no strategy exactly once (role: 2, testId: 0)',
+    );
+  });
+});
@@ -1,4 +1,5 @@
 import { test, expect } from '../fixtures/base.fixture';
+import { formatPageHealthIssue } from '../../utils';
 
 /**
  * UI Smoke Tests - @ui
@@ -27,14 +28,14 @@ import { test, expect } from '../fixtures/base.fixture';
 test.describe('Home Page Smoke Tests @ui', () => {
 
   test('home page loads successfully', async ({ homePage }) => {
-    // The homePage fixture already navigated to baseURL.
+    // The homePage fixture already opened the home page.
     // Verify the page has a non-empty title (indicates the page loaded).
-    const title = await homePage.title();
+    const title = await homePage.getTitle();
     expect(title).toBeTruthy();
     expect(title.length).toBeGreaterThan(0);
 
     // Verify the page body is visible (page rendered something)
-    await expect(homePage.locator('body')).toBeVisible();
+    await expect(homePage.page.locator('body')).toBeVisible();
   });
 
   test('page returns valid HTTP status', async ({ page, baseURL }) => {
@@ -51,45 +52,36 @@ test.describe('Home Page Smoke Tests @ui', () => {
     // These selectors match ARIA roles, making tests resilient to UI changes.
 
     // Check for a navigation landmark (most sites wrap nav links in <nav>)
-    // NOTE: Adapt these selectors to match your actual application's structure.
-    const navigation = homePage.getByRole('navigation');
-    const hasNavigation = await navigation.count();
+    // NOTE: Adapt HomePage's selectors to match your actual application's structure.
+    const hasNavigation = await homePage.navigation.count();
 
     if (hasNavigation > 0) {
       // If a <nav> element exists, verify it is visible
-      await expect(navigation.first()).toBeVisible();
+      await expect(homePage.navigation).toBeVisible();
     }
 
     // Check for heading elements (every page should have at least one heading)
-    const headings = homePage.getByRole('heading');
+    const headings = homePage.page.getByRole('heading');
     const headingCount = await headings.count();
     expect(headingCount).toBeGreaterThanOrEqual(0);
 
     // Check for link elements (most pages have at least one link)
-    const links = homePage.getByRole('link');
+    const links = homePage.page.getByRole('link');
     const linkCount = await links.count();
     expect(linkCount).toBeGreaterThanOrEqual(0);
   });
 
-  test('no console errors on page load', async ({ page, baseURL }) => {
-    // Collect console errors during page load
-    const consoleErrors: string[] = [];
-
-    page.on('console', (msg) => {
-      if (msg.type() === 'error') {
-        consoleErrors.push(msg.text());
-      }
-    });
-
+  test('no console errors on page load', async ({ page, baseURL, pageHealth }) => {
     await page.goto(baseURL ?? '/');
     await page.waitForLoadState('domcontentloaded');
 
-    // Assert no JavaScript errors occurred during page load
-    // NOTE: Some third-party scripts may produce console errors;
-    // adjust this assertion if you need to allow specific errors.
+    // The pageHealth fixture watches every test for console errors, page
+    // errors and failed requests; asserting here makes the load itself the
+    // check. Known third-party noise belongs in pageHealthAllowlist.
+    const unexpected = pageHealth.unexpected();
     expect(
-      consoleErrors,
-      `Console errors found: ${consoleErrors.join(', ')}`
+      unexpected,
+      `Page errors found:\n${unexpected.map(formatPageHealthIssue).join('\n')}`
     ).toHaveLength(0);
   });
 
@@ -98,15 +90,25 @@ test.describe('Home Page Smoke Tests @ui', () => {
     // These are good baseline checks for any web application.
 
     // Check that <html> has a lang attribute (accessibility requirement)
-    const lang = await homePage.locator('html').getAttribute('lang');
+    const lang = await homePage.page.locator('html').getAttribute('lang');
     // Many pages set lang; if yours does not, adjust or remove this check
     if (lang) {
       expect(lang.length).toBeGreaterThan(0);
     }
 
     // Check that a viewport meta tag exists (responsive design)
-    const viewport = homePage.locator('meta[name="viewport"]');
+    const viewport = homePage.page.locator('meta[name="viewport"]');
     const viewportCount = await viewport.count();
     expect(viewportCount).toBeGreaterThanOrEqual(0);
   });
+
+  test('home page passes accessibility checks', async ({ homePage }) => {
+    // Runs the built-in offline checks (utils/a11y.ts): accessible names,
+    // labels, alt text, heading order, duplicate IDs, main landmark and
+    // color contrast. Violations are listed with selectors and attached
+    // as a11y-violations.json.
+    // NOTE: Skip widgets you don't own with
+    // test.use({ a11yOptions: { exclude: ['#chat-widget'] } }).
+    await expect(homePage.page).toPassA11yChecks();
+  });
 });
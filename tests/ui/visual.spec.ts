@@ -0,0 +1,56 @@
+import { test } from '../fixtures/base.fixture';
+
+/**
+ * Visual Regression Tests - @ui @visual
+ *
+ * Screenshot comparisons through BasePage.expectVisual(). page.route()
+ * serves a home page whose clock and avatar change on every load; the
+ * HomePage masks keep them out of the comparison.
+ *
+ * These only run with `npm run test:visual` (or VISUAL_TESTS=true): no
+ * baselines are committed for them. The first run writes each baseline
+ * (tests/__screenshots__/<platform>/<project>/) and fails so it gets
+ * reviewed; commit them, then the next run compares against them. After
+ * a UI change, `npm run visual:review` lists the changed screenshots with
+ * diffs and `npm run visual:review -- --approve` accepts them.
+ */
+
+const homeHtml = () => `
+  <!DOCTYPE html>
+  <html lang="en">
+  <head>
+    <style>
+      body { font-family: sans-serif; margin: 2rem; }
+      .spinner { width: 2rem; height: 2rem; border: 4px solid #ccc; border-top-color: #333; animation: spin 1s linear infinite; }
+      @keyframes spin { to { transform: rotate(360deg); } }
+    </style>
+  </head>
+  <body>
+    <nav aria-label="Main"><a href="/">Home</a> <a href="/reports">Reports</a></nav>
+    <main>
+      <h1>Dashboard</h1>
+      <p>Last updated <time>${new Date().toISOString()}</time></p>
+      <img alt="Avatar" width="48" height="48"
+        src="data:image/svg+xml,<svg xmlns='http://www.w3.org/2000/svg'><rect width='48' height='48' fill='%23${Math.floor(Math.random() * 0xffffff).toString(16).padStart(6, '0')}'/></svg>">
+      <div class="spinner" role="progressbar" aria-label="Loading"></div>
+      <label>Search <input autofocus></label>
+    </main>
+  </body>
+  </html>
+`;
+
+test.describe('Visual Regression @ui @visual', () => {
+  test.beforeEach(async ({ page }) => {
+    await page.route('**/*', (route) => route.fulfill({ contentType: 'text/html', body: homeHtml() }));
+  });
+
+  test('home page matches its baseline', async ({ pages }) => {
+    const home = await pages.home.open();
+    await home.expectVisual('home');
+  });
+
+  test('an element matches its baseline', async ({ pages }) => {
+    const home = await pages.home.open();
+    await home.expectVisual('home-navigation', { target: home.navigation });
+  });
+});
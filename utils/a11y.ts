@@ -0,0 +1,345 @@
+import { Page, test } from '@playwright/test';
+import { attachRedacted } from './redaction';
+
+/**
+ * Accessibility Checks
+ *
+ * A small, offline accessibility checker that runs inside the page — no
+ * axe-core or network access needed. It covers the problems that most
+ * often slip into a UI:
+ *
+ *   - button-name     Buttons without an accessible name
+ *   - link-name       Links without an accessible name
+ *   - label           Form fields without a label
+ *   - image-alt       Images without alt text (alt="" marks decorative images)
+ *   - heading-order   Heading levels that skip a level (h2 → h4)
+ *   - duplicate-id    IDs used by more than one element
+ *   - landmark        Pages without exactly one main landmark
+ *   - color-contrast  Text below WCAG AA contrast (4.5:1, or 3:1 for large text)
+ *
+ * Hidden elements are skipped (except for duplicate IDs). It is not a full
+ * WCAG audit — use @axe-core/playwright for that — but it is fast enough
+ * to run on every page a test visits.
+ *
+ * Use it through the matcher or a page object:
+ *
+ *   await expect(page).toPassA11yChecks();
+ *   await expect(page).toPassA11yChecks({ rules: ['label', 'image-alt'], exclude: ['#chat-widget'] });
+ *   const violations = await loginPage.auditAccessibility();
+ *
+ * Every audit that finds violations attaches them to the test as
+ * a11y-violations.json, each with a CSS selector for the element.
+ */
+
+/** A check the auditor can run. */
+export type A11yRule =
+  | 'button-name'
+  | 'link-name'
+  | 'label'
+  | 'image-alt'
+  | 'heading-order'
+  | 'duplicate-id'
+  | 'landmark'
+  | 'color-contrast';
+
+/** Every rule, with what it requires. */
+export const A11Y_RULES: Record<A11yRule, string> = {
+  'button-name': 'Buttons have an accessible name',
+  'link-name': 'Links have an accessible name',
+  'label': 'Form fields have a label',
+  'image-alt': 'Images have alt text',
+  'heading-order': 'Heading levels increase by one at most',
+  'duplicate-id': 'IDs are unique',
+  'landmark': 'The page has exactly one main landmark',
+  'color-contrast': 'Text meets WCAG AA contrast',
+};
+
+/** Which rules to run and which parts of the page to leave out. */
+export interface A11yOptions {
+  /** Rules to run (default: all) */
+  rules?: A11yRule[];
+  /** CSS selectors of elements to skip, with everything inside them (e.g. third-party widgets) */
+  exclude?: string[];
+}
+
+/** An element that breaks a rule. */
+export interface A11yViolation {
+  rule: A11yRule;
+  /** CSS selector of the element */
+  selector: string;
+  /** What is wrong, e.g. 'Button has no accessible name' */
+  message: string;
+  /** The element's opening tag */
+  html: string;
+}
+
+// Defaults for the current test, from the a11yOptions fixture option
+let defaults: A11yOptions = {};
+
+/**
+ * Set the rules and exclusions every audit in the current test starts
+ * from. The base fixture calls this with the `a11yOptions` option.
+ */
+export function setA11yDefaults(options: A11yOptions): void {
+  defaults = options;
+}
+
+/**
+ * Run the accessibility checks on a page.
+ *
+ * Options are combined with the test's defaults (the `a11yOptions`
+ * fixture option): `rules` replaces the default rules, `exclude` adds to
+ * the default exclusions. Violations are attached to the running test as
+ * a11y-violations.json.
+ *
+ * @param page - The page to audit, as it is now (wait for it to settle first)
+ * @param options - Rules to run and elements to skip
+ * @returns The violations, in document order per rule
+ * @throws Error on an unknown rule name
+ */
+export async function auditAccessibility(page: Page, options: A11yOptions = {}): Promise<A11yViolation[]> {
+  const rules = options.rules ?? defaults.rules ?? (Object.keys(A11Y_RULES) as A11yRule[]);
+  const exclude = [...(defaults.exclude ?? []), ...(options.exclude ?? [])];
+
+  const unknown = rules.filter((rule) => !(rule in A11Y_RULES));
+  if (unknown.length > 0) {
+    throw new Error(`[a11y] Unknown accessibility rule "${unknown[0]}". Rules: ${Object.keys(A11Y_RULES).join(', ')}`);
+  }
+
+  const violations = await page.evaluate(runA11yChecks, { rules, exclude });
+  if (violations.length > 0) {
+    const report = { url: page.url(), violations };
+    await attachRedacted(test.info(), 'a11y-violations.json', JSON.stringify(report, null, 2), 'application/json');
+  }
+  return violations;
+}
+
+/**
+ * Format violations for an assertion message, one per element.
+ *
+ * @example
+ *   [label] #signup > form > input:nth-of-type(2) — Form field has no label
+ *       <input type="email" name="email">
+ */
+export function formatA11yViolations(violations: A11yViolation[]): string {
+  return violations.map(({ rule, selector, message, html }) => `  [${rule}] ${selector} — ${message}\n      ${html}`).join('\n');
+}
+
+// ---------------------------------------------------------------------------
+// In-page checks
+// ---------------------------------------------------------------------------
+
+/*
+ * The parts of the DOM runA11yChecks uses. The tsconfig has no DOM lib
+ * (everything else here runs in Node), so they are declared for this file.
+ */
+interface DomNode {
+  readonly nodeType: number;
+  readonly textContent: string | null;
+}
+
+interface DomElement extends DomNode {
+  readonly tagName: string;
+  readonly id: string;
+  readonly outerHTML: string;
+  readonly parentElement: DomElement | null;
+  readonly children: ArrayLike<DomElement>;
+  readonly childNodes: ArrayLike<DomNode>;
+  readonly labels?: ArrayLike<DomElement> | null;
+  getAttribute(name: string): string | null;
+  hasAttribute(name: string): boolean;
+  matches(selector: string): boolean;
+  closest(selector: string): DomElement | null;
+  querySelectorAll(selector: string): ArrayLike<DomElement>;
+  getClientRects(): ArrayLike<unknown>;
+}
+
+interface DomStyle {
+  readonly visibility: string;
+  readonly color: string;
+  readonly backgroundColor: string;
+  readonly backgroundImage: string;
+  readonly fontSize: string;
+  readonly fontWeight: string;
+}
+
+declare const document: {
+  readonly body: DomElement;
+  querySelectorAll(selector: string): ArrayLike<DomElement>;
+  getElementById(id: string): DomElement | null;
+};
+declare function getComputedStyle(element: DomElement): DomStyle;
+declare const CSS: { escape(value: string): string };
+
+/**
+ * The checker itself. It is serialized into the page by page.evaluate(),
+ * so it must not use anything from outside its own body.
+ */
+function runA11yChecks({ rules, exclude }: { rules: A11yRule[]; exclude: string[] }): A11yViolation[] {
+  const all = (selector: string, root: { querySelectorAll(selector: string): ArrayLike<DomElement> } = document) =>
+    Array.from(root.querySelectorAll(selector));
+  const excluded = (el: DomElement) => exclude.length > 0 && el.closest(exclude.join(', ')) !== null;
+  const hidden = (el: DomElement) =>
+    el.closest('[hidden], [aria-hidden="true"]') !== null ||
+    el.getClientRects().length === 0 ||
+    getComputedStyle(el).visibility === 'hidden';
+  const checked = (selector: string) => all(selector).filter((el) => !excluded(el) && !hidden(el));
+  const text = (el: DomElement) => (el.textContent ?? '').replace(/\s+/g, ' ').trim();
+
+  /** Name from aria-labelledby, aria-label, <label>, content (optionally) and title. */
+  function accessibleName(el: DomElement, fromContent: boolean): string {
+    const labelledBy = (el.getAttribute('aria-labelledby') ?? '')
+      .split(/\s+/)
+      .map((id) => (id ? document.getElementById(id) : null))
+      .map((label) => (label ? text(label) : ''))
+      .join(' ')
+      .trim();
+    const labels = Array.from(el.labels ?? []).map(text).join(' ').trim();
+    const content = fromContent
+      ? [text(el), ...all('img[alt], [aria-label]', el).map((child) => child.getAttribute('alt') ?? child.getAttribute('aria-label') ?? '')]
+        .join(' ')
+        .trim()
+      : '';
+    return labelledBy || el.getAttribute('aria-label')?.trim() || labels || content || el.getAttribute('title')?.trim() || '';
+  }
+
+  /** A CSS selector for the element: its ID if unique, else a path of nth-of-type steps. */
+  function selectorOf(el: DomElement): string {
+    const steps: string[] = [];
+    for (let node: DomElement | null = el; node; node = node.parentElement) {
+      if (node.id && document.querySelectorAll(`#${CSS.escape(node.id)}`).length === 1) {
+        steps.unshift(`#${CSS.escape(node.id)}`);
+        break;
+      }
+      const tag = node.tagName.toLowerCase();
+      const siblings = node.parentElement ? Array.from(node.parentElement.children).filter((child) => child.tagName === node!.tagName) : [];
+      steps.unshift(siblings.length > 1 ? `${tag}:nth-of-type(${siblings.indexOf(node) + 1})` : tag);
+    }
+    return steps.join(' > ');
+  }
+
+  const violations: A11yViolation[] = [];
+  const report = (rule: A11yRule, el: DomElement, message: string) => {
+    const html = el.outerHTML.slice(0, el.outerHTML.indexOf('>') + 1);
+    violations.push({ rule, selector: selectorOf(el), message, html: html.length > 200 ? `${html.slice(0, 200)}…` : html });
+  };
+
+  // --- Contrast helpers (WCAG 2.x relative luminance) ---
+  type Rgba = { r: number; g: number; b: number; a: number };
+  const parseColor = (value: string): Rgba | null => {
+    const match = value.match(/^rgba?\(([^)]+)\)$/);
+    if (!match) return null;
+    const [r, g, b, a = 1] = match[1].split(/[\s,/]+/).filter(Boolean).map(Number);
+    return { r, g, b, a };
+  };
+  const over = (top: Rgba, bottom: Rgba): Rgba => ({
+    r: top.r * top.a + bottom.r * (1 - top.a),
+    g: top.g * top.a + bottom.g * (1 - top.a),
+    b: top.b * top.a + bottom.b * (1 - top.a),
+    a: 1,
+  });
+  const luminance = ({ r, g, b }: Rgba) => {
+    const [R, G, B] = [r, g, b].map((channel) => {
+      const c = channel / 255;
+      return c <= 0.03928 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+    });
+    return 0.2126 * R + 0.7152 * G + 0.0722 * B;
+  };
+  const hex = ({ r, g, b }: Rgba) => `#${[r, g, b].map((c) => Math.round(c).toString(16).padStart(2, '0')).join('')}`;
+  /** The opaque background behind an element, or null if an image is in the way. */
+  const backgroundOf = (el: DomElement): Rgba | null => {
+    const layers: Rgba[] = [];
+    for (let node: DomElement | null = el; node; node = node.parentElement) {
+      const style = getComputedStyle(node);
+      if (style.backgroundImage !== 'none') return null;
+      const color = parseColor(style.backgroundColor);
+      if (color && color.a > 0) layers.push(color);
+      if (color && color.a === 1) break;
+    }
+    return layers.reduceRight((below, layer) => over(layer, below), { r: 255, g: 255, b: 255, a: 1 });
+  };
+
+  const checks: Record<A11yRule, () => void> = {
+    'button-name': () => {
+      for (const el of checked('button, [role="button"], input[type="button"], input[type="submit"], input[type="reset"], input[type="image"]')) {
+        const type = el.tagName === 'INPUT' ? el.getAttribute('type') : null;
+        const name = type
+          ? el.getAttribute(type === 'image' ? 'alt' : 'value')?.trim() || accessibleName(el, false)
+          : accessibleName(el, true);
+        // Submit and reset inputs without a value get a default name from the browser
+        if (!name && type !== 'submit' && type !== 'reset') report('button-name', el, 'Button has no accessible name');
+      }
+    },
+    'link-name': () => {
+      for (const el of checked('a[href], [role="link"]')) {
+        if (!accessibleName(el, true)) report('link-name', el, 'Link has no accessible name');
+      }
+    },
+    'label': () => {
+      const fields =
+        'input:not([type="hidden"], [type="button"], [type="submit"], [type="reset"], [type="image"]), select, textarea, ' +
+        '[role="textbox"], [role="searchbox"], [role="combobox"], [role="listbox"], [role="slider"], [role="spinbutton"]';
+      for (const el of checked(fields)) {
+        if (!accessibleName(el, false)) report('label', el, 'Form field has no label');
+      }
+    },
+    'image-alt': () => {
+      for (const el of checked('img, [role="img"]')) {
+        const role = el.getAttribute('role');
+        if (role === 'presentation' || role === 'none') continue;
+        if (el.tagName === 'IMG' && el.hasAttribute('alt')) continue;
+        if (!accessibleName(el, false)) {
+          report('image-alt', el, el.tagName === 'IMG' ? 'Image has no alt text (use alt="" for decorative images)' : 'Image has no accessible name');
+        }
+      }
+    },
+    'heading-order': () => {
+      let previous = 0;
+      for (const el of checked('h1, h2, h3, h4, h5, h6, [role="heading"]')) {
+        const level = Number(el.getAttribute('aria-level') ?? el.tagName.match(/^H([1-6])$/)?.[1] ?? 2);
+        if (previous && level > previous + 1) {
+          report('heading-order', el, `Heading level ${level} follows level ${previous} (skips level ${previous + 1})`);
+        }
+        previous = level;
+      }
+    },
+    'duplicate-id': () => {
+      const seen = new Map<string, DomElement[]>();
+      for (const el of all('[id]').filter((node) => !excluded(node) && node.id)) {
+        seen.set(el.id, [...(seen.get(el.id) ?? []), el]);
+      }
+      for (const [id, elements] of seen) {
+        if (elements.length > 1) report('duplicate-id', elements[1], `id "${id}" is used by ${elements.length} elements`);
+      }
+    },
+    'landmark': () => {
+      const mains = checked('main, [role="main"]');
+      if (mains.length === 0) report('landmark', document.body, 'Page has no main landmark (<main> or role="main")');
+      for (const el of mains.slice(1)) report('landmark', el, `Page has ${mains.length} main landmarks; it should have one`);
+    },
+    'color-contrast': () => {
+      for (const el of checked('body *')) {
+        const hasText = Array.from(el.childNodes).some((node) => node.nodeType === 3 && node.textContent?.trim());
+        if (!hasText || el.matches(':disabled') || el.closest('[aria-disabled="true"]')) continue;
+
+        const style = getComputedStyle(el);
+        const background = backgroundOf(el);
+        const color = parseColor(style.color);
+        if (!background || !color) continue;
+
+        const foreground = over(color, background);
+        const [light, dark] = [luminance(foreground), luminance(background)].sort((a, b) => b - a);
+        const ratio = (light + 0.05) / (dark + 0.05);
+        const size = parseFloat(style.fontSize);
+        const large = size >= 24 || (size >= 18.66 && Number(style.fontWeight) >= 700);
+        const required = large ? 3 : 4.5;
+        if (ratio < required) {
+          report('color-contrast', el, `Contrast ${ratio.toFixed(2)}:1 is below ${required}:1 (${hex(foreground)} on ${hex(background)})`);
+        }
+      }
+    },
+  };
+
+  for (const rule of rules) checks[rule]();
+  return violations;
+}
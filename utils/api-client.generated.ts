@@ -0,0 +1,167 @@
+// AUTO-GENERATED by scripts/generate-api-client.ts from openapi/stub-api.yaml. Do not edit by hand.
+// Regenerate with: npm run generate:api-client -- openapi/stub-api.yaml
+
+import { APIRequestContext, APIResponse } from '@playwright/test';
+
+/**
+ * ApiClient — typed client for Stub API v1.0.0.
+ *
+ * Every method returns the raw APIResponse plus its status and parsed body.
+ * Narrow on `status` to get the body type for that status code:
+ *
+ *   const result = await client.someOperation({ ... });
+ *   if (result.status === 200) {
+ *     result.body; // typed for 200
+ *   }
+ */
+
+// ---------------------------------------------------------------------------
+// Schemas
+// ---------------------------------------------------------------------------
+
+export type Headers = Record<string, string>;
+
+export type Echo = {
+  args: Record<string, string>;
+  headers: Headers;
+  origin: string;
+  url: string;
+};
+
+export type NewUser = {
+  name: string;
+  email: string;
+  role?: 'admin' | 'member' | 'readonly';
+};
+
+export type BodyEcho = Echo & {
+  method: string;
+  data: string;
+  json: NewUser | null;
+  form: Record<string, string>;
+};
+
+// ---------------------------------------------------------------------------
+// Operations
+// ---------------------------------------------------------------------------
+
+/** Parameters for GET /get */
+export interface GetEchoParams {
+  query?: {
+    search?: string;
+  };
+}
+
+/** Responses for GET /get, by status code */
+export type GetEchoResponse =
+  | { status: 200; body: Echo };
+
+/** Parameters for POST /post */
+export interface PostEchoParams {
+  body: NewUser;
+}
+
+/** Responses for POST /post, by status code */
+export type PostEchoResponse =
+  | { status: 200; body: BodyEcho };
+
+/** Parameters for GET /status/{code} */
+export interface GetStatusParams {
+  path: {
+    code: number;
+  };
+}
+
+/** Responses for GET /status/{code}, by status code */
+export type GetStatusResponse =
+  | { status: 200; body: undefined }
+  | { status: number; body: undefined };
+
+/** Responses for GET /headers, by status code */
+export type GetHeadersResponse =
+  | { status: 200; body: {
+    headers: Headers;
+  } };
+
+/** Responses for GET /html, by status code */
+export type GetHtmlResponse =
+  | { status: 200; body: string };
+
+// ---------------------------------------------------------------------------
+// Client
+// ---------------------------------------------------------------------------
+
+/** A typed response: the raw APIResponse plus its status and parsed body. */
+export type ApiResult<R extends { status: number; body: unknown }> = R & { response: APIResponse };
+
+/** Untyped request parts shared by every operation. */
+interface RequestParts {
+  path?: Record<string, unknown>;
+  query?: Record<string, unknown>;
+  headers?: Record<string, unknown>;
+  body?: unknown;
+}
+
+export class ApiClient {
+  constructor(private readonly request: APIRequestContext) {}
+
+  /** Echo the request's query args, headers, origin and URL. */
+  async getEcho(params: GetEchoParams = {}): Promise<ApiResult<GetEchoResponse>> {
+    return this.send('GET', '/get', params);
+  }
+
+  /** Echo the request, including its JSON body. */
+  async postEcho(params: PostEchoParams): Promise<ApiResult<PostEchoResponse>> {
+    return this.send('POST', '/post', params);
+  }
+
+  /** Respond with the given status code and an empty body. */
+  async getStatus(params: GetStatusParams): Promise<ApiResult<GetStatusResponse>> {
+    return this.send('GET', '/status/{code}', params);
+  }
+
+  /** Echo the request headers. */
+  async getHeaders(): Promise<ApiResult<GetHeadersResponse>> {
+    return this.send('GET', '/headers', {});
+  }
+
+  /** A fixed HTML document. */
+  async getHtml(): Promise<ApiResult<GetHtmlResponse>> {
+    return this.send('GET', '/html', {});
+  }
+
+  /** Build the URL, send the request and parse the body by content type. */
+  private async send<R extends { status: number; body: unknown }>(
+    method: string,
+    route: string,
+    parts: RequestParts,
+  ): Promise<ApiResult<R>> {
+    const url = route.replace(/\{([^}]+)\}/g, (_, name: string) => encodeURIComponent(String(parts.path?.[name])));
+
+    const search = new URLSearchParams();
+    for (const [name, value] of Object.entries(parts.query ?? {})) {
+      if (value === undefined) continue;
+      for (const item of Array.isArray(value) ? value : [value]) {
+        search.append(name, String(item));
+      }
+    }
+    const query = search.toString();
+
+    const headers: Record<string, string> = {};
+    for (const [name, value] of Object.entries(parts.headers ?? {})) {
+      if (value !== undefined) headers[name] = String(value);
+    }
+
+    const response = await this.request.fetch(query ? `${url}?${query}` : url, {
+      method,
+      headers,
+      data: parts.body,
+    });
+
+    const text = await response.text();
+    const contentType = response.headers()['content-type'] ?? '';
+    const body = text && /[/+]json\b/.test(contentType) ? JSON.parse(text) : text || undefined;
+
+    return { status: response.status(), body, response } as ApiResult<R>;
+  }
+}
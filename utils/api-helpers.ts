@@ -1,4 +1,7 @@
 import { APIRequestContext, APIResponse, expect } from '@playwright/test';
+import { JsonSchemaSource, formatSchemaViolations, validateJsonSchema } from './json-schema';
+import { redactHeaders, redactText } from './redaction';
+import { RetryPolicy, withRetryPolicy } from './retry-policy';
 
 /**
  * API Test Helpers
@@ -22,6 +25,7 @@ import { APIRequestContext, APIResponse, expect } from '@playwright/test';
  * @param playwright - The Playwright instance (from test fixtures)
  * @param baseURL - The base URL for all API requests
  * @param extraHeaders - Optional additional HTTP headers
+ * @param retryPolicy - Overrides for the retry/backoff/timeout policy (see utils/retry-policy.ts)
  * @returns A configured APIRequestContext
  *
  * @example
@@ -36,8 +40,9 @@ export async function createRequestContext(
   playwright: { request: { newContext: (options: Record<string, unknown>) => Promise<APIRequestContext> } },
   baseURL: string,
   extraHeaders: Record<string, string> = {},
+  retryPolicy: Partial<RetryPolicy> = {},
 ): Promise<APIRequestContext> {
-  return playwright.request.newContext({
+  const context = await playwright.request.newContext({
     baseURL,
     extraHTTPHeaders: {
       'Accept': 'application/json',
@@ -45,6 +50,7 @@ export async function createRequestContext(
       ...extraHeaders,
     },
   });
+  return withRetryPolicy(context, retryPolicy);
 }
 
 /**
@@ -77,6 +83,38 @@ export async function assertJsonResponse(response: APIResponse): Promise<unknown
   return body;
 }
 
+/**
+ * Assert that an API response body matches a JSON Schema (draft 2020-12).
+ *
+ * Checks the response is JSON (via assertJsonResponse), then validates the
+ * body. On failure, the error lists every violation with its JSON pointer,
+ * the expected constraint and the actual value, so contract breaks are
+ * obvious in the HTML report.
+ *
+ * @param response - The Playwright APIResponse to validate
+ * @param schema - Inline schema, or a path to a local .json schema file
+ *                 (which may $ref other local schema files)
+ * @returns The parsed JSON body
+ *
+ * @example
+ *   const response = await apiContext.get('/api/users/1');
+ *   const user = await assertMatchesSchema(response, 'tests/api/schemas/user.schema.json');
+ */
+export async function assertMatchesSchema(
+  response: APIResponse,
+  schema: JsonSchemaSource,
+): Promise<unknown> {
+  const body = await assertJsonResponse(response);
+  const violations = validateJsonSchema(body, schema);
+
+  expect(
+    violations,
+    `Response from ${response.url()} does not match the schema.\n${formatSchemaViolations(violations)}`
+  ).toEqual([]);
+
+  return body;
+}
+
 /**
  * Assert that an API response has a specific status code.
  *
@@ -95,7 +133,7 @@ export async function assertStatus(
   expectedStatus: number,
 ): Promise<void> {
   if (response.status() !== expectedStatus) {
-    // Include the response body in the error for easier debugging
+    // Include the (redacted) response body in the error for easier debugging
     let bodyText = '';
     try {
       bodyText = await response.text();
@@ -105,7 +143,8 @@ export async function assertStatus(
 
     expect(
       response.status(),
-      `Expected status ${expectedStatus} for ${response.url()}, got ${response.status()}. Body: ${bodyText}`
+      `Expected status ${expectedStatus} for ${redactText(response.url())}, got ${response.status()}. ` +
+      `Body: ${redactText(bodyText)}`
     ).toBe(expectedStatus);
   }
 }
@@ -113,8 +152,11 @@ export async function assertStatus(
 /**
  * Log API response details for debugging.
  *
- * Prints the request URL, status code, headers, and body to the console.
- * Useful during test development; remove or disable in production test runs.
+ * Prints the request URL, status code, headers, and body to the console,
+ * with secrets redacted (see utils/redaction.ts). Useful during test
+ * development; remove or disable in production test runs.
+ * To keep every exchange for failed tests instead, set
+ * RECORD_TRAFFIC=retain-on-failure (see utils/traffic-recorder.ts).
  *
  * NOTE: This function uses console.log which will trigger the ESLint
  * "no-console" warning. This is intentional for debugging purposes.
@@ -145,10 +187,10 @@ export async function logResponse(
   // eslint-disable-next-line no-console
   console.log(`
 === ${label} ===
-URL:     ${response.url()}
+URL:     ${redactText(response.url())}
 Status:  ${response.status()} ${response.statusText()}
-Headers: ${JSON.stringify(response.headers(), null, 2)}
-Body:    ${bodyText}
+Headers: ${JSON.stringify(redactHeaders(response.headers()), null, 2)}
+Body:    ${redactText(bodyText)}
 ==================`);
 }
 
@@ -0,0 +1,227 @@
+import { APIResponse } from '@playwright/test';
+
+/**
+ * API Contract Snapshots
+ *
+ * Normalizes an API response into a stable JSON document — status, selected
+ * headers and body — suitable for snapshot comparison. Volatile values
+ * (timestamps, IDs, origins) are masked by JSONPath, object keys are sorted,
+ * and arrays can be sorted, so the snapshot only changes when the contract
+ * does.
+ *
+ * Most tests should use the matcher instead, which stores the result as a
+ * JSON snapshot file next to the spec (one per Playwright project):
+ *
+ *   await expect(response).toMatchApiSnapshot('get-user', { mask: ['$.id', '$.createdAt'] });
+ *
+ * JSONPath support (a practical subset):
+ *   $.a.b      child properties        $['a-b']   quoted property
+ *   $.items[0] array index             $.items[*] every element
+ *   $.*        every property          $..id      `id` at any depth
+ *
+ * Paths starting with $.status, $.headers or $.body address that part of
+ * the snapshot; any other path is relative to the body ($.id → $.body.id).
+ * Header names are case-insensitive.
+ */
+
+/** Options for normalizing a response into a snapshot. */
+export interface ApiSnapshotOptions {
+  /** JSONPaths of volatile values to replace with "[MASKED]" */
+  mask?: string[];
+  /** Response headers to include (case-insensitive). Defaults to ['content-type']. */
+  headers?: string[];
+  /** Sort arrays: true for every array, or JSONPaths of specific arrays. Defaults to false. */
+  sortArrays?: boolean | string[];
+}
+
+/** The normalized shape written to the snapshot file. */
+export interface ApiSnapshot {
+  status: number;
+  headers: Record<string, string>;
+  body: unknown;
+}
+
+/** Placeholder written in place of masked values. */
+export const MASKED = '[MASKED]';
+
+const DEFAULT_HEADERS = ['content-type'];
+
+type Container = Record<string, unknown> | unknown[];
+
+/** A JSONPath segment: a property name, an index, a wildcard, or recursive descent. */
+type Segment = { kind: 'key'; key: string } | { kind: 'wildcard' } | { kind: 'descend'; key: string | null };
+
+/** Parse '$.a[0].b', "$['a-b']", '$..id', '$.items[*]' into segments. */
+function parsePath(jsonPath: string): Segment[] {
+  if (!jsonPath.startsWith('$')) {
+    throw new Error(`[snapshot] JSONPath must start with "$", got "${jsonPath}".`);
+  }
+
+  const segments: Segment[] = [];
+  const pattern = /\.\.([A-Za-z0-9_$-]+|\*)|\.([A-Za-z0-9_$-]+|\*)|\[(\d+|\*|'[^']*'|"[^"]*")\]/gy;
+  pattern.lastIndex = 1;
+
+  while (pattern.lastIndex < jsonPath.length) {
+    const start = pattern.lastIndex;
+    const match = pattern.exec(jsonPath);
+    if (!match || match.index !== start) {
+      throw new Error(`[snapshot] Unsupported JSONPath syntax at "${jsonPath.slice(start)}" in "${jsonPath}".`);
+    }
+
+    const [, descend, dotted, bracketed] = match;
+    if (descend !== undefined) {
+      segments.push({ kind: 'descend', key: descend === '*' ? null : descend });
+    } else {
+      const raw = dotted ?? bracketed;
+      if (raw === '*') {
+        segments.push({ kind: 'wildcard' });
+      } else {
+        segments.push({ kind: 'key', key: /^['"]/.test(raw) ? raw.slice(1, -1) : raw });
+      }
+    }
+  }
+  return segments;
+}
+
+/** Every [container, key] pair a path points at, so values can be replaced in place. */
+function locate(root: unknown, segments: Segment[]): [Container, string | number][] {
+  let current: [Container, string | number][] = [[{ $: root }, '$']];
+
+  const children = (value: unknown): [Container, string | number][] => {
+    if (Array.isArray(value)) return value.map((_, index) => [value, index]);
+    if (value && typeof value === 'object') return Object.keys(value).map((key) => [value as Container, key]);
+    return [];
+  };
+  const get = ([container, key]: [Container, string | number]) => (container as Record<string, unknown>)[key];
+
+  for (const segment of segments) {
+    const next: [Container, string | number][] = [];
+    for (const location of current) {
+      const value = get(location);
+      if (segment.kind === 'wildcard') {
+        next.push(...children(value));
+      } else if (segment.kind === 'key') {
+        if (Array.isArray(value) && /^\d+$/.test(segment.key) && Number(segment.key) < value.length) {
+          next.push([value, Number(segment.key)]);
+        } else if (value && typeof value === 'object' && segment.key in value) {
+          next.push([value as Container, segment.key]);
+        }
+      } else {
+        // Recursive descent: match the key (or anything, for ..*) at every depth below
+        const stack = children(value);
+        while (stack.length) {
+          const candidate = stack.shift()!;
+          if (segment.key === null || candidate[1] === segment.key) next.push(candidate);
+          stack.push(...children(get(candidate)));
+        }
+      }
+    }
+    current = next;
+  }
+  return current;
+}
+
+/** Point body-relative paths ($.id) at the body ($.body.id); lower-case header names. */
+function toDocumentPath(jsonPath: string): string {
+  const header = jsonPath.match(/^\$\.headers(\.|\[['"])(.+?)(['"]\])?$/);
+  if (header) {
+    return `$.headers['${header[2].toLowerCase()}']`;
+  }
+  return /^\$(\.|\[['"])(status|headers|body)\b/.test(jsonPath) ? jsonPath : `$.body${jsonPath.slice(1)}`;
+}
+
+/** Stable JSON string used to order array elements. */
+function sortKey(value: unknown): string {
+  return JSON.stringify(sortKeys(value));
+}
+
+/** Recursively sort object keys so key order never changes the snapshot. */
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(sortKeys);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.keys(value).sort().map((key) => [key, sortKeys((value as Record<string, unknown>)[key])]),
+    );
+  }
+  return value;
+}
+
+/** Recursively sort every array by the serialized value of its elements. */
+function sortAllArrays(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(sortAllArrays).sort((a, b) => sortKey(a).localeCompare(sortKey(b)));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, child]) => [key, sortAllArrays(child)]));
+  }
+  return value;
+}
+
+/**
+ * Normalize an API response into a snapshot document.
+ *
+ * @param response - The Playwright APIResponse
+ * @param options - Masks, headers to keep and array sorting
+ * @returns The normalized snapshot
+ *
+ * @example
+ *   const snapshot = await normalizeApiResponse(response, { mask: ['$.origin'] });
+ *   // { status: 200, headers: { 'content-type': 'application/json' }, body: { origin: '[MASKED]', ... } }
+ */
+export async function normalizeApiResponse(
+  response: APIResponse,
+  options: ApiSnapshotOptions = {},
+): Promise<ApiSnapshot> {
+  const maskPaths = (options.mask ?? []).map(toDocumentPath);
+  const responseHeaders = response.headers();
+
+  // Keep the selected headers, plus any header a mask refers to (so its presence is recorded)
+  const wanted = new Set((options.headers ?? DEFAULT_HEADERS).map((name) => name.toLowerCase()));
+  for (const maskPath of maskPaths) {
+    const header = maskPath.match(/^\$\.headers\['(.+)'\]$/);
+    if (header) wanted.add(header[1]);
+  }
+  const headers: Record<string, string> = {};
+  for (const name of wanted) {
+    if (responseHeaders[name] !== undefined) headers[name] = responseHeaders[name];
+  }
+
+  const text = await response.text();
+  let body: unknown = text;
+  if (/[/+]json\b/.test(responseHeaders['content-type'] ?? '') && text) {
+    body = JSON.parse(text);
+  }
+
+  let document: ApiSnapshot = { status: response.status(), headers, body };
+
+  if (options.sortArrays === true) {
+    document = sortAllArrays(document) as ApiSnapshot;
+  } else if (Array.isArray(options.sortArrays)) {
+    for (const arrayPath of options.sortArrays.map(toDocumentPath)) {
+      for (const [container, key] of locate(document, parsePath(arrayPath))) {
+        const value = (container as Record<string, unknown>)[key];
+        if (Array.isArray(value)) value.sort((a, b) => sortKey(a).localeCompare(sortKey(b)));
+      }
+    }
+  }
+
+  for (const maskPath of maskPaths) {
+    for (const [container, key] of locate(document, parsePath(maskPath))) {
+      (container as Record<string, unknown>)[key] = MASKED;
+    }
+  }
+
+  return sortKeys(document) as ApiSnapshot;
+}
+
+/**
+ * Serialize a snapshot for the snapshot file (pretty JSON with a trailing newline).
+ *
+ * @param snapshot - The normalized snapshot
+ * @returns The file contents
+ */
+export function serializeApiSnapshot(snapshot: ApiSnapshot): string {
+  return `${JSON.stringify(snapshot, null, 2)}\n`;
+}
@@ -0,0 +1,99 @@
+import { APIRequestContext } from '@playwright/test';
+
+/**
+ * Created Test Data
+ *
+ * Records every resource a test creates through the API (factory.create(),
+ * or createdData.track() for hand-written POSTs) so it can be deleted
+ * afterwards. The apiContext fixture opens one registry per test and, at
+ * teardown, deletes everything in reverse creation order — children before
+ * parents — even when the test failed halfway. Resources that could not be
+ * deleted are returned as leftovers, which the fixture reports.
+ *
+ * @example
+ *   const registry = new CreatedDataRegistry(apiContext);
+ *   registry.track({ factory: 'user', id: '42', deletePath: '/api/users/42' });
+ *   const leftovers = await registry.cleanup();
+ */
+
+/** A resource created during a test. */
+export interface CreatedResource {
+  /** Factory (or label) that created it */
+  factory: string;
+  /** The ID the API returned */
+  id: string | number;
+  /** Path that deletes it (DELETE) */
+  deletePath: string;
+}
+
+/** A resource that could not be deleted. */
+export interface CleanupFailure extends CreatedResource {
+  /** The failing status, or the error thrown while deleting */
+  error: string;
+}
+
+/** Statuses that mean the resource is already gone. */
+const ALREADY_DELETED = [404, 410];
+
+/** Per-test record of created resources. */
+export class CreatedDataRegistry {
+  private readonly created: CreatedResource[] = [];
+
+  /**
+   * @param context - Request context used for both creating and deleting
+   */
+  constructor(readonly context: APIRequestContext) {}
+
+  /** Resources still to be deleted, in creation order. */
+  get resources(): readonly CreatedResource[] {
+    return this.created;
+  }
+
+  /** Record a resource so it is deleted at the end of the test. */
+  track(resource: CreatedResource): void {
+    this.created.push(resource);
+  }
+
+  /**
+   * Delete every tracked resource, newest first. A 404/410 counts as
+   * deleted; other failures do not stop the rest from being deleted.
+   *
+   * @returns The resources that could not be deleted
+   */
+  async cleanup(): Promise<CleanupFailure[]> {
+    const failures: CleanupFailure[] = [];
+
+    while (this.created.length > 0) {
+      const resource = this.created.pop()!;
+      try {
+        const response = await this.context.delete(resource.deletePath);
+        if (!response.ok() && !ALREADY_DELETED.includes(response.status())) {
+          failures.push({ ...resource, error: `DELETE ${resource.deletePath} returned ${response.status()}` });
+        }
+      } catch (error) {
+        failures.push({ ...resource, error: (error as Error).message });
+      }
+    }
+    return failures;
+  }
+}
+
+/** The registry of the running test, set by the apiContext fixture. */
+let activeRegistry: CreatedDataRegistry | undefined;
+
+/** Make a registry the one factory.create() records into (undefined to clear). */
+export function setActiveCreatedData(registry: CreatedDataRegistry | undefined): void {
+  activeRegistry = registry;
+}
+
+/**
+ * The running test's registry.
+ *
+ * @throws Error if no test has an apiContext open
+ */
+export function getActiveCreatedData(): CreatedDataRegistry {
+  if (!activeRegistry) {
+    throw new Error('[test-data] create() needs an API context — use the apiContext (or createdData) fixture in this test.');
+  }
+  return activeRegistry;
+}
@@ -1,9 +1,32 @@
+import { getEnvConfig } from './env';
+import { defineFactory, resetSequences } from './factory';
+import { getLocalePack, registeredLocales } from './locales';
+import { EdgeData, InvalidData } from './negative-data';
+
 /**
  * Test Data Factory
  *
- * Generates realistic, unique test data for use in UI and API tests.
- * Each function returns a fresh object with randomized values to
- * prevent test pollution and ensure uniqueness across parallel runs.
+ * Generates realistic test data for use in UI and API tests. Each
+ * function returns a fresh object with randomized values to prevent test
+ * pollution between tests and between runs.
+ *
+ * Every value comes from a seeded PRNG, so the same seed always produces
+ * the same users, products and orders. Each run has one seed — TEST_SEED,
+ * or a fresh one playwright.config.ts picks and prints — and the base
+ * fixture mixes it with the test ID and retry before each test, so every
+ * test gets its own data, and every run different data. A failed test
+ * prints and attaches the run seed; re-run with it to regenerate exactly
+ * the same data:
+ *
+ *   TEST_SEED=3f9a61c2 npx playwright test tests/api/orders.spec.ts
+ *
+ * Each entity is a factory (see utils/factory.ts) with traits, a sequence
+ * and buildList; register your own with defineFactory.
+ *
+ * Names, addresses, phone numbers and order currency follow the current
+ * locale (utils/locales.ts): TEST_DATA_LOCALE, or per test with
+ * `test.use({ dataLocale: 'de-DE' })`. Use TestData.withLocale for data
+ * from several markets in one test.
  *
  * @example
  *   import { TestData } from '../utils/data-factory';
@@ -11,21 +34,143 @@
  *   const user = TestData.user();
  *   const admin = TestData.user({ role: 'admin' });
  *   const product = TestData.product({ price: 99.99 });
+ *   const orders = TestData.order.trait('shipped').buildList(3);
+ *   const tokyo = TestData.withLocale('ja-JP', () => TestData.address());
+ */
+
+// ---------------------------------------------------------------------------
+// Seeded randomness
+// ---------------------------------------------------------------------------
+
+/** Hash any string into a 32-bit integer (FNV-1a). */
+function hashSeed(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash = Math.imul(hash ^ value.charCodeAt(i), 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/** A mulberry32 generator: returns floats in [0, 1), fully determined by the seed. */
+function createRandom(seed: string): () => number {
+  let state = hashSeed(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Derive a seed from identifying parts (e.g. run seed, test ID, retry).
+ *
+ * @returns An 8-character hex seed, suitable for TEST_SEED
+ */
+export function deriveTestSeed(...parts: (string | number)[]): string {
+  return hashSeed(parts.join(':')).toString(16).padStart(8, '0');
+}
+
+/** Used when TEST_SEED is unset, i.e. outside the Playwright runner */
+const fallbackRunSeed = deriveTestSeed(Date.now(), process.pid);
+
+/**
+ * This run's seed: TEST_SEED, which playwright.config.ts sets for the
+ * workers when it was not given.
+ */
+export function getRunSeed(): string {
+  return getEnvConfig().testSeed ?? fallbackRunSeed;
+}
+
+// Data generated outside a test (e.g. at module load) uses the run seed itself
+let currentSeed = getRunSeed();
+let random = createRandom(currentSeed);
+
+/**
+ * Reseed every TestData generator. The base fixture calls this before each test.
+ *
+ * @param seed - Any string; the same seed always produces the same data
+ */
+export function seedTestData(seed: string): void {
+  currentSeed = seed;
+  random = createRandom(seed);
+  resetSequences();
+}
+
+/** The seed TestData was last seeded with. */
+export function getTestDataSeed(): string {
+  return currentSeed;
+}
+
+// ---------------------------------------------------------------------------
+// Locale
+// ---------------------------------------------------------------------------
+
+// Until a test sets it: TEST_DATA_LOCALE, unless its pack is registered later
+let locale = getLocalePack(registeredLocales().includes(getEnvConfig().testDataLocale) ? getEnvConfig().testDataLocale : 'en-US');
+
+/**
+ * Switch the locale TestData generates for. The base fixture calls this
+ * before each test with the `dataLocale` option.
+ *
+ * @param tag - A registered locale, e.g. 'fr-FR'
+ * @throws Error if no pack is registered for the tag
+ */
+export function setTestDataLocale(tag: string): void {
+  locale = getLocalePack(tag);
+}
+
+/** The locale TestData currently generates for. */
+export function getTestDataLocale(): string {
+  return locale.locale;
+}
+
+/**
+ * Generate data for another locale, then switch back.
+ *
+ * create() builds its object before its first await, so it can be called
+ * here too: `await TestData.withLocale('de-DE', () => TestData.user.create())`.
  */
+export function withLocale<T>(tag: string, generate: () => T): T {
+  const previous = locale;
+  locale = getLocalePack(tag);
+  try {
+    return generate();
+  } finally {
+    locale = previous;
+  }
+}
 
-/** Generate a short unique suffix based on timestamp + random chars. */
+// ---------------------------------------------------------------------------
+// Random values
+// ---------------------------------------------------------------------------
+
+/** Generate a short unique suffix (10 lowercase alphanumeric chars). */
 function uid(): string {
-  return `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+  const chars = 'abcdefghijklmnopqrstuvwxyz0123456789';
+  return Array.from({ length: 10 }, () => chars[Math.floor(random() * chars.length)]).join('');
 }
 
 /** Generate a random integer between min and max (inclusive). */
 function randomInt(min: number, max: number): number {
-  return Math.floor(Math.random() * (max - min + 1)) + min;
+  return Math.floor(random() * (max - min + 1)) + min;
 }
 
 /** Pick a random element from an array. */
 function randomFrom<T>(items: T[]): T {
-  return items[Math.floor(Math.random() * items.length)];
+  return items[Math.floor(random() * items.length)];
+}
+
+/** Fill a pattern: '#' becomes any digit, 'N' a digit from 2 to 9. */
+function fillPattern(pattern: string): string {
+  return pattern.replace(/[#N]/g, (slot) => String(slot === 'N' ? randomInt(2, 9) : randomInt(0, 9)));
+}
+
+/** A name folded to ASCII for email addresses ('Zoë' → 'zoe'); 'user' if nothing is left. */
+function emailName(name: string): string {
+  const ascii = name.normalize('NFD').replace(/[^A-Za-z]/g, '').toLowerCase();
+  return ascii || 'user';
 }
 
 // ---------------------------------------------------------------------------
@@ -44,8 +189,11 @@ export interface UserData {
 export interface AddressData {
   street: string;
   city: string;
+  /** State, Land, region or prefecture, depending on the locale */
   state: string;
+  /** Postal code in the locale's format (e.g. '10115', '100-0005') */
   zip: string;
+  /** ISO 3166-1 alpha-2 code */
   country: string;
 }
 
@@ -58,11 +206,21 @@ export interface ProductData {
   inStock: boolean;
 }
 
+export interface OrderLineItemData {
+  product: ProductData;
+  quantity: number;
+  unitPrice: number;
+  lineTotal: number;
+}
+
 export interface OrderData {
   orderId: string;
   status: string;
-  items: number;
+  customer: UserData;
+  shippingAddress: AddressData;
+  items: OrderLineItemData[];
   total: number;
+  /** ISO 4217 code of the locale's currency */
   currency: string;
 }
 
@@ -70,73 +228,127 @@ export interface OrderData {
 // Seed data pools
 // ---------------------------------------------------------------------------
 
-const FIRST_NAMES = ['Alice', 'Bob', 'Charlie', 'Diana', 'Eve', 'Frank', 'Grace', 'Hank', 'Iris', 'Jack'];
-const LAST_NAMES = ['Smith', 'Johnson', 'Williams', 'Brown', 'Jones', 'Garcia', 'Miller', 'Davis', 'Wilson', 'Taylor'];
-const CITIES = ['New York', 'Los Angeles', 'Chicago', 'Houston', 'Phoenix', 'Seattle', 'Denver', 'Austin', 'Boston', 'Miami'];
-const STATES = ['NY', 'CA', 'IL', 'TX', 'AZ', 'WA', 'CO', 'TX', 'MA', 'FL'];
+// Names and places come from the locale pack (utils/locales.ts)
 const CATEGORIES = ['Electronics', 'Clothing', 'Books', 'Home', 'Sports', 'Toys', 'Food', 'Health'];
 const ORDER_STATUSES = ['pending', 'processing', 'shipped', 'delivered', 'cancelled'];
 
 // ---------------------------------------------------------------------------
-// Factory functions
+// Factories
 // ---------------------------------------------------------------------------
 
-export const TestData = {
-  /** Generate a unique user with optional overrides. */
-  user(overrides: Partial<UserData> = {}): UserData {
+/** Round an amount to the minor unit of the locale's currency (cents, or whole yen). */
+function money(amount: number): number {
+  return Number(amount.toFixed(locale.currency.decimals));
+}
+
+const userFactory = defineFactory('user', {
+  build: (): UserData => {
     const id = uid();
-    const firstName = randomFrom(FIRST_NAMES);
-    const lastName = randomFrom(LAST_NAMES);
+    const firstName = randomFrom(locale.firstNames);
+    const lastName = randomFrom(locale.lastNames);
     return {
       firstName,
       lastName,
-      email: `test.${firstName.toLowerCase()}.${id}@example.com`,
+      email: `test.${emailName(firstName)}.${id}@example.com`,
       password: `P@ssw0rd!${id}`,
       role: 'user',
-      phone: `+1${randomInt(200, 999)}${randomInt(1000000, 9999999)}`,
-      ...overrides,
+      phone: `+${locale.phone.countryCode}${fillPattern(locale.phone.pattern)}`,
     };
   },
+  traits: {
+    admin: { role: 'admin' },
+    readonly: { role: 'readonly' },
+  },
+});
 
-  /** Generate a unique address with optional overrides. */
-  address(overrides: Partial<AddressData> = {}): AddressData {
-    const idx = randomInt(0, CITIES.length - 1);
+const addressFactory = defineFactory('address', {
+  build: (): AddressData => {
+    const { city, region, postalCode } = randomFrom(locale.cities);
     return {
-      street: `${randomInt(100, 9999)} ${randomFrom(LAST_NAMES)} St`,
-      city: CITIES[idx],
-      state: STATES[idx],
-      zip: `${randomInt(10000, 99999)}`,
-      country: 'US',
-      ...overrides,
+      street: locale.formatStreet(randomFrom(locale.streetNames), randomInt(1, 9999)),
+      city,
+      state: region,
+      zip: fillPattern(postalCode),
+      country: locale.country,
     };
   },
+});
 
-  /** Generate a unique product with optional overrides. */
-  product(overrides: Partial<ProductData> = {}): ProductData {
+const productFactory = defineFactory('product', {
+  build: (): ProductData => {
     const id = uid();
     return {
       name: `Test Product ${id}`,
       description: `A test product created for automated testing (${id})`,
-      price: Number((Math.random() * 200 + 1).toFixed(2)),
+      price: money((random() * 200 + 1) * locale.currency.scale),
       sku: `SKU-${id.toUpperCase()}`,
       category: randomFrom(CATEGORIES),
-      inStock: Math.random() > 0.2,
-      ...overrides,
+      inStock: random() > 0.2,
     };
   },
+  traits: {
+    outOfStock: { inStock: false },
+  },
+});
 
-  /** Generate a unique order with optional overrides. */
-  order(overrides: Partial<OrderData> = {}): OrderData {
-    const items = randomInt(1, 10);
+const lineItemFactory = defineFactory('lineItem', {
+  build: ({ overrides }): OrderLineItemData => {
+    const product = productFactory(overrides.product);
+    const quantity = overrides.quantity ?? randomInt(1, 5);
+    const unitPrice = overrides.unitPrice ?? product.price;
+    return { product, quantity, unitPrice, lineTotal: money(quantity * unitPrice) };
+  },
+});
+
+const orderFactory = defineFactory('order', {
+  build: ({ overrides }): OrderData => {
+    const items = overrides.items ?? lineItemFactory.buildList(randomInt(1, 3));
     return {
       orderId: `ORD-${uid().toUpperCase()}`,
       status: randomFrom(ORDER_STATUSES),
+      customer: userFactory(overrides.customer),
+      shippingAddress: addressFactory(overrides.shippingAddress),
       items,
-      total: Number((items * (Math.random() * 100 + 5)).toFixed(2)),
-      currency: 'USD',
-      ...overrides,
+      total: money(items.reduce((sum, item) => sum + item.lineTotal, 0)),
+      currency: locale.currency.code,
     };
   },
+  traits: {
+    pending: { status: 'pending' },
+    processing: { status: 'processing' },
+    shipped: { status: 'shipped' },
+    delivered: { status: 'delivered' },
+    cancelled: { status: 'cancelled' },
+  },
+});
+
+export const TestData = {
+  /** Generate a unique user with optional overrides. Traits: admin, readonly. */
+  user: userFactory,
+
+  /** Generate a unique address with optional overrides. */
+  address: addressFactory,
+
+  /** Generate a unique product with optional overrides. Traits: outOfStock. */
+  product: productFactory,
+
+  /** Generate an order line item for a new product (or the overridden one). */
+  lineItem: lineItemFactory,
+
+  /**
+   * Generate a unique order for a new customer, with 1-3 line items and a
+   * matching total. Traits: one per status (pending, shipped, ...).
+   */
+  order: orderFactory,
+
+  /** Run `generate` with another locale, e.g. TestData.withLocale('ja-JP', () => TestData.user()). */
+  withLocale,
+
+  /** Labeled values a correct system must reject, per field type (see utils/negative-data.ts). */
+  invalid: InvalidData,
+
+  /** Labeled valid-but-awkward values: unicode, injection probes, exact limits. */
+  edge: EdgeData,
 
   /** Generate a random valid email. */
   email(prefix = 'test'): string {
@@ -151,17 +363,17 @@ export const TestData = {
   /** Generate a random string of specified length (useful for boundary testing). */
   randomString(length: number): string {
     const chars = 'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
-    return Array.from({ length }, () => chars[Math.floor(Math.random() * chars.length)]).join('');
+    return Array.from({ length }, () => chars[Math.floor(random() * chars.length)]).join('');
   },
 
-  /** Generate a past date within the last N days (ISO string). */
+  /** Generate a past date within the last N days (ISO string). The offset is seeded; "now" is not. */
   pastDate(withinDays = 365): string {
     const now = Date.now();
     const offset = randomInt(1, withinDays) * 24 * 60 * 60 * 1000;
     return new Date(now - offset).toISOString();
   },
 
-  /** Generate a future date within the next N days (ISO string). */
+  /** Generate a future date within the next N days (ISO string). The offset is seeded; "now" is not. */
   futureDate(withinDays = 365): string {
     const now = Date.now();
     const offset = randomInt(1, withinDays) * 24 * 60 * 60 * 1000;
@@ -1,143 +1,405 @@
-import 'dotenv/config';
+import dotenv from 'dotenv';
+import fs from 'node:fs';
+import path from 'node:path';
 
 /**
- * Environment Variable Helpers
+ * Environment Configuration
  *
- * This module provides typed, validated access to environment variables.
- * It centralizes all env var access so you have one place to:
- *   - Define default values
- *   - Add validation
- *   - See all required configuration at a glance
+ * This module is the single source of truth for environment configuration.
+ * Every variable the framework reads is declared once in `envSchema` below,
+ * with its type and default. The schema is resolved into one typed, frozen
+ * config object that playwright.config.ts, the fixtures and the page objects
+ * all read from.
+ *
+ * Profiles:
+ *   Set TEST_ENV to dev (default), staging or prod. Variables are layered,
+ *   highest precedence first:
+ *     1. Real environment variables (shell, CI secrets)
+ *     2. .env.<profile>  (e.g. .env.staging)
+ *     3. .env
+ *     4. Schema defaults
  *
  * Setup:
- *   1. Copy .env.example to .env
+ *   1. Copy .env.example to .env (and optionally to .env.staging, .env.prod)
  *   2. Fill in your environment-specific values
- *   3. Import these helpers in your tests/pages instead of reading process.env directly
+ *   3. Read values from getEnvConfig() instead of process.env
+ *
+ * Adding a variable:
+ *   Declare it in `envSchema`. Its type on the config object is inferred
+ *   from the declaration — no other changes needed.
  *
  * @example
- *   import { getBaseUrl, getApiBaseUrl } from '../utils/env';
+ *   import { getEnvConfig } from '../utils/env';
+ *
+ *   const env = getEnvConfig();
+ *   env.baseUrl;     // 'http://localhost:3000' (string)
+ *   env.ci;          // false (boolean)
+ *   env.apiBaseUrl;  // string | undefined
+ */
+
+// ---------------------------------------------------------------------------
+// Schema
+// ---------------------------------------------------------------------------
+
+/** The named environment profiles selectable with TEST_ENV. */
+export const ENV_PROFILES = ['dev', 'staging', 'prod'] as const;
+
+/** One of the named environment profiles. */
+export type EnvProfile = (typeof ENV_PROFILES)[number];
+
+/** How a raw string value is coerced and validated. */
+type EnvVarType = 'string' | 'number' | 'boolean' | 'url';
+
+/** Declaration of a single environment variable. */
+interface EnvVarSpec {
+  /** The environment variable name (e.g. 'BASE_URL') */
+  name: string;
+  /** How to coerce the raw value */
+  type: EnvVarType;
+  /** Value used when the variable is unset. Omit to make the variable required. */
+  default?: string | number | boolean;
+  /** Set to true to allow the variable to be unset (resolves to undefined) */
+  optional?: boolean;
+  /** Restrict a string variable to a fixed set of values */
+  choices?: readonly string[];
+  /** Warn when the default is used — for values that almost always need setting */
+  warnIfUnset?: boolean;
+  /** The value is a credential: it is redacted wherever it appears in logs and attachments */
+  secret?: boolean;
+}
+
+/**
+ * All environment variables the framework reads.
+ *
+ * Keys become the property names on the resolved config object.
+ */
+const envSchema = {
+  /** Active profile — selects which .env.<profile> file is layered over .env */
+  testEnv: { name: 'TEST_ENV', type: 'string', choices: ENV_PROFILES, default: 'dev' },
+
+  /** Base URL for UI tests (page.goto('/') resolves against this) */
+  baseUrl: { name: 'BASE_URL', type: 'url', default: 'http://localhost:3000', warnIfUnset: true },
+
+  /** Base URL for API tests — unset means "use the bundled stub server" */
+  apiBaseUrl: { name: 'API_BASE_URL', type: 'url', optional: true },
+
+  /** Whether the run is on a CI system (most CI providers set CI=true) */
+  ci: { name: 'CI', type: 'boolean', default: false },
+
+  /** Credentials for the admin role (tests/fixtures/roles.ts); *_TOTP_SECRET enables MFA login (utils/totp.ts) */
+  adminUsername: { name: 'ADMIN_USERNAME', type: 'string', optional: true },
+  adminPassword: { name: 'ADMIN_PASSWORD', type: 'string', optional: true, secret: true },
+  adminTotpSecret: { name: 'ADMIN_TOTP_SECRET', type: 'string', optional: true, secret: true },
+
+  /** Credentials for the member role — the default role for UI projects */
+  memberUsername: { name: 'MEMBER_USERNAME', type: 'string', optional: true },
+  memberPassword: { name: 'MEMBER_PASSWORD', type: 'string', optional: true, secret: true },
+  memberTotpSecret: { name: 'MEMBER_TOTP_SECRET', type: 'string', optional: true, secret: true },
+
+  /** Credentials for the read-only role */
+  readonlyUsername: { name: 'READONLY_USERNAME', type: 'string', optional: true },
+  readonlyPassword: { name: 'READONLY_PASSWORD', type: 'string', optional: true, secret: true },
+  readonlyTotpSecret: { name: 'READONLY_TOTP_SECRET', type: 'string', optional: true, secret: true },
+
+  /** Endpoint the 'api' login strategy posts credentials to; must return { token } */
+  authTokenEndpoint: { name: 'AUTH_TOKEN_ENDPOINT', type: 'string', default: '/api/auth/login' },
+
+  /** localStorage key the 'api' login strategy stores the token under */
+  authTokenStorageKey: { name: 'AUTH_TOKEN_STORAGE_KEY', type: 'string', default: 'auth_token' },
+
+  /** Treat cached JWTs as expired this many seconds before their `exp` claim */
+  authTokenExpiryMarginSeconds: { name: 'AUTH_TOKEN_EXPIRY_MARGIN_SECONDS', type: 'number', default: 60 },
+
+  /** Optional "who am I" endpoint; a non-2xx response marks a cached session stale */
+  authWhoamiEndpoint: { name: 'AUTH_WHOAMI_ENDPOINT', type: 'string', optional: true },
+
+  /** OIDC issuer for the 'oidc' login strategy and apiAuth: 'oidc' (utils/oidc.ts) */
+  oidcIssuer: { name: 'OIDC_ISSUER', type: 'url', optional: true },
+  oidcClientId: { name: 'OIDC_CLIENT_ID', type: 'string', optional: true },
+  oidcClientSecret: { name: 'OIDC_CLIENT_SECRET', type: 'string', optional: true, secret: true },
+
+  /** Redirect URI registered for the client — unset means <BASE_URL>/auth/callback */
+  oidcRedirectUri: { name: 'OIDC_REDIRECT_URI', type: 'url', optional: true },
+
+  /** Scopes to request — unset means 'openid profile email' for users and none for clients */
+  oidcScope: { name: 'OIDC_SCOPE', type: 'string', optional: true },
+
+  /** API audience, for issuers that require one */
+  oidcAudience: { name: 'OIDC_AUDIENCE', type: 'string', optional: true },
+
+  /** Extra header names whose values are redacted, comma-separated (utils/redaction.ts) */
+  redactHeaders: { name: 'REDACT_HEADERS', type: 'string', optional: true },
+
+  /** Extra JSON/form keys whose values are redacted: comma-separated names or case-insensitive regexes (utils/redaction.ts) */
+  redactKeys: { name: 'REDACT_KEYS', type: 'string', optional: true },
+
+  /** Attach recorded HTTP traffic to test results (utils/traffic-recorder.ts) */
+  recordTraffic: { name: 'RECORD_TRAFFIC', type: 'string', choices: ['off', 'on', 'retain-on-failure'], default: 'off' },
+
+  /** What console errors, page errors and failed requests do to a UI test (utils/page-health.ts) */
+  pageHealth: { name: 'PAGE_HEALTH', type: 'string', choices: ['fail', 'warn', 'off'], default: 'fail' },
+
+  /** Include the @visual screenshot comparisons in every run, not only `npm run test:visual` (utils/visual.ts) */
+  visualTests: { name: 'VISUAL_TESTS', type: 'boolean', default: false },
+
+  /** Seed for this run's TestData, mixed with each test's ID — unset means a fresh one per run (utils/data-factory.ts) */
+  testSeed: { name: 'TEST_SEED', type: 'string', optional: true },
+
+  /** Locale TestData generates names, addresses and currency for (utils/locales.ts) */
+  testDataLocale: { name: 'TEST_DATA_LOCALE', type: 'string', default: 'en-US' },
+} as const satisfies Record<string, EnvVarSpec>;
+
+type EnvSchema = typeof envSchema;
+
+/** The TypeScript type a declared variable resolves to (a union for `choices`). */
+type ResolvedType<S extends EnvVarSpec> =
+  S extends { choices: readonly (infer C)[] } ? C
+    : S['type'] extends 'number' ? number : S['type'] extends 'boolean' ? boolean : string;
+
+/** The resolved, typed configuration object. */
+export type EnvConfig = {
+  readonly [K in keyof EnvSchema]: EnvSchema[K] extends { optional: true }
+    ? ResolvedType<EnvSchema[K]> | undefined
+    : ResolvedType<EnvSchema[K]>;
+};
+
+// ---------------------------------------------------------------------------
+// Loading
+// ---------------------------------------------------------------------------
+
+/** Parse a dotenv file, returning an empty object if it does not exist. */
+function readEnvFile(filePath: string): Record<string, string> {
+  if (!fs.existsSync(filePath)) {
+    return {};
+  }
+  return dotenv.parse(fs.readFileSync(filePath, 'utf-8'));
+}
+
+/**
+ * Coerce a raw string to the declared type.
  *
- *   const url = getBaseUrl();  // Returns BASE_URL or the default
+ * @returns The coerced value, or an error message describing why it is malformed
  */
+function coerce(spec: EnvVarSpec, raw: string): { value: string | number | boolean } | { error: string } {
+  switch (spec.type) {
+    case 'number': {
+      const value = Number(raw);
+      return Number.isFinite(value) ? { value } : { error: `expected a number, got "${raw}"` };
+    }
+    case 'boolean': {
+      const normalized = raw.trim().toLowerCase();
+      if (['true', '1', 'yes'].includes(normalized)) return { value: true };
+      if (['false', '0', 'no'].includes(normalized)) return { value: false };
+      return { error: `expected a boolean (true/false/1/0/yes/no), got "${raw}"` };
+    }
+    case 'url': {
+      try {
+        new URL(raw);
+        return { value: raw };
+      } catch {
+        return { error: `expected an absolute URL, got "${raw}"` };
+      }
+    }
+    default: {
+      if (spec.choices && !spec.choices.includes(raw)) {
+        return { error: `expected one of ${spec.choices.join(', ')}, got "${raw}"` };
+      }
+      return { value: raw };
+    }
+  }
+}
 
 /**
- * Log a warning when an expected environment variable is not set.
- * This helps catch configuration issues early without failing the build.
+ * Resolve the schema against a set of variables.
+ *
+ * Every missing or malformed variable is collected and reported in a single
+ * error, so a misconfigured environment is fixed in one pass.
  *
- * @param varName - The name of the missing environment variable
- * @param defaultValue - The fallback value being used
+ * @param vars - Merged variables (process.env layered over the .env files)
+ * @returns The resolved config object
+ * @throws Error listing every missing or malformed variable
  */
-function warnIfMissing(varName: string, defaultValue: string): void {
-  if (!process.env[varName]) {
+function resolveSchema(vars: Record<string, string | undefined>): EnvConfig {
+  const resolved: Record<string, string | number | boolean | undefined> = {};
+  const problems: string[] = [];
+  const defaulted: string[] = [];
+
+  for (const [key, spec] of Object.entries(envSchema) as [string, EnvVarSpec][]) {
+    const raw = vars[spec.name];
+
+    if (raw === undefined || raw.trim() === '') {
+      if (spec.default !== undefined) {
+        resolved[key] = spec.default;
+        if (spec.warnIfUnset) defaulted.push(`${spec.name}="${spec.default}"`);
+      } else if (spec.optional) {
+        resolved[key] = undefined;
+      } else {
+        problems.push(`${spec.name}: missing (required ${spec.type})`);
+      }
+      continue;
+    }
+
+    const result = coerce(spec, raw.trim());
+    if ('error' in result) {
+      problems.push(`${spec.name}: ${result.error}`);
+    } else {
+      resolved[key] = result.value;
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new Error(
+      `[env] Invalid environment configuration (profile: ${vars.TEST_ENV || 'dev'}):\n` +
+      problems.map((problem) => `  - ${problem}`).join('\n') +
+      `\nPlease check your .env files.`
+    );
+  }
+
+  if (defaulted.length > 0) {
     // eslint-disable-next-line no-console
     console.warn(
-      `[env] WARNING: ${varName} is not set. Using default: "${defaultValue}". ` +
+      `[env] WARNING: Using defaults for ${defaulted.join(', ')}. ` +
       `Copy .env.example to .env and set your values.`
     );
   }
+
+  return Object.freeze(resolved) as EnvConfig;
 }
 
 /**
- * Get the base URL for UI tests.
+ * Merge the .env files for the active profile with `source`.
  *
- * Reads from the BASE_URL environment variable.
- * Falls back to 'https://example.com' if not set.
+ * Reads .env and .env.<profile> from `cwd` and layers `source` on top.
+ * Nothing is written back: the result is a new object, so loading one
+ * profile never leaks into the next.
  *
- * @returns The base URL string
+ * @returns Every variable, with TEST_ENV set to the selected profile
+ */
+function mergeEnvVars(source: Record<string, string | undefined>, cwd: string): Record<string, string | undefined> {
+  const base = readEnvFile(path.join(cwd, '.env'));
+  const profile = source.TEST_ENV || base.TEST_ENV || envSchema.testEnv.default;
+  const profileVars = readEnvFile(path.join(cwd, `.env.${profile}`));
+
+  return { ...base, ...profileVars, ...source, TEST_ENV: profile };
+}
+
+/**
+ * Load and validate the configuration for a profile.
+ *
+ * Reads .env and .env.<profile> from `cwd`, layers `source` on top, and
+ * resolves the result against the schema. `source` is only read — the
+ * file values are not copied into it.
+ *
+ * Prefer getEnvConfig(), which caches the result. Call this directly only
+ * when you need a fresh load (e.g. to resolve a different profile).
+ *
+ * @param source - The variables to layer on top (defaults to process.env)
+ * @param cwd - Directory containing the .env files (defaults to process.cwd())
+ * @returns The resolved config object
+ * @throws Error listing every missing or malformed variable
  *
  * @example
- *   const baseUrl = getBaseUrl();
- *   // Returns: 'https://your-app.com' (from .env) or 'https://example.com' (default)
+ *   const staging = loadEnvConfig({ ...process.env, TEST_ENV: 'staging' });
  */
-export function getBaseUrl(): string {
-  const defaultValue = 'http://example.com';
-  warnIfMissing('BASE_URL', defaultValue);
-  return process.env.BASE_URL || defaultValue;
+export function loadEnvConfig(
+  source: Record<string, string | undefined> = process.env,
+  cwd: string = process.cwd(),
+): EnvConfig {
+  return resolveSchema(mergeEnvVars(source, cwd));
 }
 
+let cachedConfig: EnvConfig | undefined;
+let cachedFileVars: Record<string, string | undefined> | undefined;
+
 /**
- * Get the base URL for API tests.
+ * Get the resolved environment configuration.
  *
- * Reads from the API_BASE_URL environment variable.
- * Falls back to 'https://api.example.com' if not set.
+ * Loads and validates on first call, then returns the same frozen object.
  *
- * @returns The API base URL string
+ * @returns The resolved config object
+ * @throws Error listing every missing or malformed variable
  *
  * @example
- *   const apiUrl = getApiBaseUrl();
- *   // Returns: 'https://api.your-app.com' (from .env) or 'https://api.example.com' (default)
+ *   const { baseUrl, testEnv } = getEnvConfig();
  */
-export function getApiBaseUrl(): string {
-  const defaultValue = 'https://httpbin.org';
-  warnIfMissing('API_BASE_URL', defaultValue);
-  return process.env.API_BASE_URL || defaultValue;
+export function getEnvConfig(): EnvConfig {
+  cachedConfig ??= loadEnvConfig();
+  return cachedConfig;
 }
 
 /**
- * Get any environment variable with a typed default.
- *
- * A generic helper for reading environment variables that are not
- * covered by the specific functions above. Add new specific functions
- * (like getBaseUrl) for frequently used variables.
+ * Read a variable the schema does not declare (e.g. POSTMAN_* values),
+ * layered the same way: the real environment first, then .env.<profile>
+ * and .env. No coercion or validation.
  *
  * @param name - The environment variable name
- * @param defaultValue - The fallback value if the variable is not set
- * @returns The environment variable value or the default
+ * @returns The raw value, or undefined if it is set nowhere
+ */
+export function getEnvVar(name: string): string | undefined {
+  cachedFileVars ??= mergeEnvVars({ TEST_ENV: process.env.TEST_ENV }, process.cwd());
+  return process.env[name] ?? cachedFileVars[name];
+}
+
+/**
+ * Get the values of every variable declared `secret` in the schema.
+ *
+ * The redaction module (utils/redaction.ts) strips these from logs and
+ * attachments wherever they appear.
+ *
+ * @param config - The resolved config (defaults to getEnvConfig())
+ * @returns The secret values that are set
+ */
+export function getSecretEnvValues(config: EnvConfig = getEnvConfig()): string[] {
+  return (Object.entries(envSchema) as [keyof EnvConfig, EnvVarSpec][])
+    .filter(([key, spec]) => spec.secret && typeof config[key] === 'string' && config[key] !== '')
+    .map(([key]) => String(config[key]));
+}
+
+// ---------------------------------------------------------------------------
+// Shorthand accessors
+// ---------------------------------------------------------------------------
+
+/**
+ * Get the base URL for UI tests.
+ *
+ * @returns BASE_URL for the active profile, or 'http://localhost:3000'
  *
  * @example
- *   const timeout = getEnvVar('TEST_TIMEOUT', '30000');
- *   const apiKey = getEnvVar('API_KEY', '');
+ *   const baseUrl = getBaseUrl();
+ *   // Returns: 'https://your-app.com' (from .env) or 'http://localhost:3000' (default)
  */
-export function getEnvVar(name: string, defaultValue: string = ''): string {
-  const value = process.env[name];
-  if (value === undefined || value === '') {
-    if (defaultValue === '') {
-      // eslint-disable-next-line no-console
-      console.warn(`[env] WARNING: ${name} is not set and no default provided.`);
-    }
-    return defaultValue;
-  }
-  return value;
+export function getBaseUrl(): string {
+  return getEnvConfig().baseUrl;
 }
 
 /**
- * Check if the current environment is CI.
+ * Get the base URL for API tests.
  *
- * Most CI systems set the CI environment variable to 'true'.
+ * Returns undefined if API_BASE_URL is not set — the API fixtures then start
+ * the bundled stub server (utils/stub-server.ts) and point requests at it.
  *
- * @returns true if running in a CI environment
+ * @returns The API base URL string, or undefined to use the stub server
  *
  * @example
- *   if (isCI()) {
- *     // Skip interactive prompts, use headless mode, etc.
- *   }
+ *   const apiUrl = getApiBaseUrl();
+ *   // Returns: 'https://api.your-app.com' (from .env) or undefined (stub server)
  */
-export function isCI(): boolean {
-  return process.env.CI === 'true' || process.env.CI === '1';
+export function getApiBaseUrl(): string | undefined {
+  return getEnvConfig().apiBaseUrl;
 }
 
 /**
- * Validate that all required environment variables are set.
+ * Check if the current environment is CI.
  *
- * Call this at the start of your test suite to fail fast if
- * configuration is missing. Add variable names to the array
- * as your project grows.
+ * Most CI systems set the CI environment variable to 'true'.
  *
- * @param requiredVars - Array of environment variable names to check
- * @throws Error if any required variables are missing
+ * @returns true if running in a CI environment
  *
  * @example
- *   validateRequiredEnvVars(['BASE_URL', 'API_KEY']);
+ *   if (isCI()) {
+ *     // Skip interactive prompts, use headless mode, etc.
+ *   }
  */
-export function validateRequiredEnvVars(requiredVars: string[]): void {
-  const missing = requiredVars.filter(
-    (varName) => !process.env[varName] || process.env[varName]!.trim() === ''
-  );
-
-  if (missing.length > 0) {
-    throw new Error(
-      `[env] Missing required environment variables: ${missing.join(', ')}. ` +
-      `Please check your .env file.`
-    );
-  }
+export function isCI(): boolean {
+  return getEnvConfig().ci;
 }
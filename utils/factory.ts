@@ -0,0 +1,225 @@
+import { redactText } from './redaction';
+import { getActiveCreatedData } from './created-data';
+
+/**
+ * Test Data Factories
+ *
+ * `defineFactory` registers an entity type with a build function, named
+ * traits and its own sequence. The result is callable like the original
+ * TestData generators, so `TestData.user()` keeps working, and adds:
+ *
+ *   factory.build(overrides)        one object (same as calling it)
+ *   factory.buildList(n, overrides) n objects; overrides may depend on the index
+ *   factory.trait('a', 'b')         a factory with those traits applied first
+ *   factory.create(overrides)       build, POST it to the API, delete it after the test
+ *
+ * Overrides are typed from the entity and merge deeply into nested objects
+ * (`TestData.order({ shippingAddress: { city: 'Boston' } })`); arrays are
+ * replaced. Build functions receive the overrides too, so derived values
+ * such as an order total follow overridden line items.
+ *
+ * Associations are just other factories called from a build function.
+ * Sequences start at 1 and restart whenever TestData is reseeded, so a
+ * given seed reproduces them as well.
+ *
+ * create() needs a `persist` endpoint (in the definition, or later via
+ * persistTo) and a test using apiContext. Created resources are deleted in
+ * reverse order when the test ends, pass or fail (see utils/created-data.ts).
+ *
+ * @example
+ *   export const Invoice = defineFactory('invoice', {
+ *     build: ({ sequence }): InvoiceData => ({
+ *       number: `INV-${String(sequence).padStart(5, '0')}`,
+ *       customer: TestData.user(),
+ *       paid: false,
+ *     }),
+ *     traits: {
+ *       paid: { paid: true },
+ *     },
+ *     persist: { createPath: '/api/invoices', deletePath: '/api/invoices/{id}' },
+ *   });
+ *
+ *   const invoice = Invoice.trait('paid')({ customer: { firstName: 'Ada' } });
+ *   const unpaid = Invoice.buildList(3);
+ *   const saved = await Invoice.create();  // deleted after the test
+ */
+
+/** Overrides for an entity: every field optional, nested objects partial too. */
+export type Overrides<T> = {
+  [K in keyof T]?: T[K] extends readonly unknown[] ? T[K] : T[K] extends object ? Overrides<T[K]> : T[K];
+};
+
+/** What a build function or trait function receives. */
+export interface BuildContext<T> {
+  /** This factory's sequence number: 1 for the first object built, then 2, ... */
+  sequence: number;
+  /** The overrides (traits first, then the caller's) that will be merged into the result */
+  overrides: Overrides<T>;
+}
+
+/** A trait: fixed overrides, or overrides computed per build. */
+export type Trait<T> = Overrides<T> | ((context: BuildContext<T>) => Overrides<T>);
+
+/** Where create() sends an entity, and how to delete it again. */
+export interface PersistEndpoint {
+  /** Path the built object is POSTed to (e.g. '/api/users') */
+  createPath: string;
+  /** Path that deletes it, with {id} replaced (e.g. '/api/users/{id}') */
+  deletePath: string;
+  /** Field of the create response that holds the new ID (default 'id') */
+  idField?: string;
+}
+
+/** An entity as returned by create(): the built object, the API's response fields, and its ID. */
+export type Persisted<T> = T & { id: string | number };
+
+/** How to build an entity. */
+export interface FactoryDefinition<T, TraitName extends string> {
+  /** Build one object; the overrides are merged into the result afterwards */
+  build: (context: BuildContext<T>) => T;
+  /** Named variations, applied in the order given to .trait() */
+  traits?: Record<TraitName, Trait<NoInfer<T>>>;
+  /** API endpoint for create(); omit for in-memory-only entities */
+  persist?: PersistEndpoint;
+}
+
+/** A registered factory. Call it (or .build) to get one object. */
+export interface Factory<T, TraitName extends string = never> {
+  (overrides?: Overrides<T>): T;
+  /** The name the factory was registered under */
+  readonly factoryName: string;
+  /** Build one object */
+  build(overrides?: Overrides<T>): T;
+  /** Build `count` objects; pass a function to vary the overrides by index */
+  buildList(count: number, overrides?: Overrides<T> | ((index: number) => Overrides<T>)): T[];
+  /** A factory that applies the given traits before the caller's overrides */
+  trait(...traits: TraitName[]): Factory<T, TraitName>;
+  /** Build one object and create it through the API; it is deleted after the test */
+  create(overrides?: Overrides<T>): Promise<Persisted<T>>;
+  /** Create `count` objects, one after another */
+  createList(count: number, overrides?: Overrides<T> | ((index: number) => Overrides<T>)): Promise<Persisted<T>[]>;
+  /** Set (or replace) the endpoint create() uses, e.g. for the built-in TestData factories */
+  persistTo(endpoint: PersistEndpoint): void;
+}
+
+/** Every registered factory and its sequence counter, keyed by name. */
+const registry = new Map<string, { sequence: number; factory: Factory<unknown, string> }>();
+
+/** Objects that merge field by field (not arrays, dates, class instances). */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && Object.getPrototypeOf(value) === Object.prototype;
+}
+
+/** Merge overrides into an object, recursing into plain objects. */
+function deepMerge<T>(target: T, overrides: object): T {
+  const result: Record<string, unknown> = { ...(target as Record<string, unknown>) };
+  for (const [key, value] of Object.entries(overrides)) {
+    result[key] = isPlainObject(value) && isPlainObject(result[key]) ? deepMerge(result[key], value) : value;
+  }
+  return result as T;
+}
+
+/**
+ * Define and register a factory.
+ *
+ * @param name - Unique name (used in errors and by getFactory)
+ * @param definition - Build function and optional traits
+ * @throws Error if a factory with the same name is already registered
+ */
+export function defineFactory<T, TraitName extends string = never>(
+  name: string,
+  definition: FactoryDefinition<T, TraitName>,
+): Factory<T, TraitName> {
+  if (registry.has(name)) {
+    throw new Error(`[test-data] A factory named "${name}" is already defined.`);
+  }
+  const entry = { sequence: 0, factory: undefined as unknown as Factory<unknown, string> };
+  let endpoint = definition.persist;
+
+  const create = (traits: TraitName[]): Factory<T, TraitName> => {
+    const build = (overrides: Overrides<T> = {}): T => {
+      const sequence = ++entry.sequence;
+      let combined: Overrides<T> = {};
+      for (const traitName of traits) {
+        const trait: Trait<T> | undefined = definition.traits?.[traitName];
+        if (!trait) {
+          throw new Error(`[test-data] Factory "${name}" has no trait "${traitName}".`);
+        }
+        const traitOverrides = typeof trait === 'function' ? trait({ sequence, overrides }) : trait;
+        combined = deepMerge(combined, traitOverrides);
+      }
+      combined = deepMerge(combined, overrides);
+      return deepMerge(definition.build({ sequence, overrides: combined }), combined);
+    };
+
+    const persist = async (overrides?: Overrides<T>): Promise<Persisted<T>> => {
+      if (!endpoint) {
+        throw new Error(`[test-data] Factory "${name}" has no persist endpoint. Add \`persist\` to its definition or call persistTo().`);
+      }
+      const registry = getActiveCreatedData();
+      const built = build(overrides);
+      const response = await registry.context.post(endpoint.createPath, { data: built });
+      if (!response.ok()) {
+        const body = redactText(await response.text()).slice(0, 500);
+        throw new Error(`[test-data] Creating ${name} failed: POST ${endpoint.createPath} returned ${response.status()}. ${body}`);
+      }
+
+      const created = (await response.json()) as Record<string, unknown>;
+      const idField = endpoint.idField ?? 'id';
+      const id = created?.[idField];
+      if (typeof id !== 'string' && typeof id !== 'number') {
+        throw new Error(`[test-data] Creating ${name}: the response of POST ${endpoint.createPath} has no "${idField}" field.`);
+      }
+      registry.track({
+        factory: name,
+        id,
+        deletePath: endpoint.deletePath.replace('{id}', encodeURIComponent(String(id))),
+      });
+      return { ...built, ...created, id };
+    };
+
+    return Object.assign((overrides?: Overrides<T>) => build(overrides), {
+      factoryName: name,
+      build,
+      buildList: (count: number, overrides?: Overrides<T> | ((index: number) => Overrides<T>)) =>
+        Array.from({ length: count }, (_, index) => build(typeof overrides === 'function' ? overrides(index) : overrides)),
+      trait: (...more: TraitName[]) => create([...traits, ...more]),
+      create: persist,
+      createList: async (count: number, overrides?: Overrides<T> | ((index: number) => Overrides<T>)) => {
+        const list: Persisted<T>[] = [];
+        for (let index = 0; index < count; index++) {
+          list.push(await persist(typeof overrides === 'function' ? overrides(index) : overrides));
+        }
+        return list;
+      },
+      persistTo: (next: PersistEndpoint) => {
+        endpoint = next;
+      },
+    });
+  };
+
+  const factory = create([]);
+  entry.factory = factory as unknown as Factory<unknown, string>;
+  registry.set(name, entry);
+  return factory;
+}
+
+/**
+ * Look up a registered factory by name.
+ *
+ * @throws Error if no factory has that name
+ */
+export function getFactory<T>(name: string): Factory<T, string> {
+  const entry = registry.get(name);
+  if (!entry) {
+    throw new Error(`[test-data] No factory named "${name}". Defined: ${[...registry.keys()].join(', ')}.`);
+  }
+  return entry.factory as Factory<T, string>;
+}
+
+/** Restart every factory's sequence at 1. Called when TestData is reseeded. */
+export function resetSequences(): void {
+  for (const entry of registry.values()) {
+    entry.sequence = 0;
+  }
+}
@@ -1,9 +1,153 @@
 export { Timeouts } from './timeouts';
 export type { TimeoutValue } from './timeouts';
 
-export { TestData } from './data-factory';
-export type { UserData, AddressData, ProductData, OrderData } from './data-factory';
+export {
+  TestData,
+  deriveTestSeed,
+  getRunSeed,
+  getTestDataLocale,
+  getTestDataSeed,
+  seedTestData,
+  setTestDataLocale,
+  withLocale,
+} from './data-factory';
+export type { UserData, AddressData, ProductData, OrderData, OrderLineItemData } from './data-factory';
 
-export { createRequestContext, assertJsonResponse, assertStatus, logResponse, buildUrl } from './api-helpers';
+export { defineFactory, getFactory } from './factory';
+export type { BuildContext, Factory, FactoryDefinition, Overrides, PersistEndpoint, Persisted, Trait } from './factory';
 
-export { getBaseUrl, getApiBaseUrl, getEnvVar, isCI, validateRequiredEnvVars } from './env';
+export { getLocalePack, registerLocale, registeredLocales } from './locales';
+export type { LocaleCity, LocalePack } from './locales';
+
+export { DEFAULT_DATE_RANGE, DEFAULT_PASSWORD_POLICY, DEFAULT_PRICE_RANGE } from './negative-data';
+export type { DateRange, LabeledValue, NegativeCategory, NumberRange, PasswordPolicy } from './negative-data';
+
+export { CreatedDataRegistry, getActiveCreatedData, setActiveCreatedData } from './created-data';
+export type { CleanupFailure, CreatedResource } from './created-data';
+
+export {
+  createRequestContext,
+  assertJsonResponse,
+  assertMatchesSchema,
+  assertStatus,
+  logResponse,
+  buildUrl,
+} from './api-helpers';
+
+export { withRetryPolicy, DEFAULT_RETRY_POLICY } from './retry-policy';
+export type { RetryPolicy } from './retry-policy';
+
+export {
+  REDACTED,
+  DEFAULT_REDACTION_RULES,
+  configureRedaction,
+  createRedactor,
+  getRedactionRules,
+  redactHeaders,
+  redactJson,
+  redactText,
+  attachRedacted,
+} from './redaction';
+export type { RedactionRules, Redactor } from './redaction';
+
+export { interceptRequests } from './request-interceptor';
+export type { InterceptedRequest, RequestInterceptor, RequestOptions } from './request-interceptor';
+
+export { formatSelectorDrift, resolveFallback, startSelectorDriftLog } from './locator-fallback';
+export type { FallbackChain, SelectorDrift } from './locator-fallback';
+
+export { generateTotp, parseTotpSecret, totpCounter, totpSecondsRemaining } from './totp';
+export type { TotpAlgorithm, TotpOptions } from './totp';
+
+export { TrafficRecorder } from './traffic-recorder';
+export type { TrafficEntry, TrafficMode } from './traffic-recorder';
+
+export { validateJsonSchema, formatSchemaViolations } from './json-schema';
+export type { JsonSchemaSource, SchemaViolation } from './json-schema';
+
+export { normalizeApiResponse, serializeApiSnapshot, MASKED } from './api-snapshot';
+export type { ApiSnapshot, ApiSnapshotOptions } from './api-snapshot';
+
+export { decodeJwt, isJwt } from './jwt';
+export type { DecodedJwt, JwtPayload } from './jwt';
+
+export {
+  checkSession,
+  notEmptyCheck,
+  cookieExpiryCheck,
+  jwtExpiryCheck,
+  whoamiCheck,
+} from './session-validity';
+export type { SessionCheck, SessionVerdict, StorageStateFile } from './session-validity';
+
+export {
+  PostmanVariables,
+  collectionScope,
+  itemScope,
+  keyValues,
+  loadPostmanCollection,
+  loadPostmanEnvironment,
+  postmanEnvName,
+} from './postman-collection';
+export type {
+  PostmanAuth,
+  PostmanBody,
+  PostmanCollection,
+  PostmanEnvironment,
+  PostmanEvent,
+  PostmanItem,
+  PostmanKeyValue,
+  PostmanRequest,
+  PostmanScope,
+  PostmanUrl,
+} from './postman-collection';
+
+export { runPostmanRequest } from './postman-runner';
+export type { PostmanAssertion, PostmanRunContext, PostmanRunResult } from './postman-runner';
+
+export { StubServer } from './stub-server';
+export type { StubRequest, StubResponse, StubRoute, StubRouteTable } from './stub-server';
+
+export { A11Y_RULES, auditAccessibility, formatA11yViolations, setA11yDefaults } from './a11y';
+export type { A11yOptions, A11yRule, A11yViolation } from './a11y';
+
+export { VISUAL_CHANGES_FILE, expectVisual, stabilizeForScreenshot } from './visual';
+export type { VisualChange, VisualOptions } from './visual';
+
+export { PageHealthMonitor, formatPageHealthIssue } from './page-health';
+export type {
+  AllowedPageHealthIssue,
+  PageHealthAllowEntry,
+  PageHealthAllowlist,
+  PageHealthIssue,
+  PageHealthIssueKind,
+  PageHealthMode,
+  PageHealthSummary,
+} from './page-health';
+
+export { StubIdentityProvider, STUB_IDP_CLIENT } from './stub-idp';
+export type { StubIdpClient, StubIdpOptions } from './stub-idp';
+
+export {
+  getOidcConfig,
+  discoverOidc,
+  createPkcePair,
+  authorizationCodeLogin,
+  clientCredentialsToken,
+  tokensExpired,
+  bearerHeaders,
+  storeTokens,
+} from './oidc';
+export type { OidcClientConfig, OidcMetadata, OidcTokens } from './oidc';
+
+export {
+  ENV_PROFILES,
+  getEnvConfig,
+  getEnvVar,
+  loadEnvConfig,
+  getSecretEnvValues,
+  getBaseUrl,
+  getApiBaseUrl,
+  isCI,
+} from './env';
+export type { EnvConfig, EnvProfile } from './env';
@@ -0,0 +1,191 @@
+import Ajv2020, { ErrorObject, ValidateFunction } from 'ajv/dist/2020';
+import addFormats from 'ajv-formats';
+import fs from 'node:fs';
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+
+/**
+ * JSON Schema Validation
+ *
+ * Validates data against JSON Schema draft 2020-12 and turns validation
+ * errors into readable violations: the JSON pointer that failed, the
+ * constraint it broke, and the actual value found there.
+ *
+ * Schemas can be passed inline or as a path to a .json schema file. File
+ * schemas may `$ref` other local schema files by relative path (e.g.
+ * `{ "$ref": "./address.schema.json" }`); referenced files are loaded
+ * automatically.
+ *
+ * Most tests should use the higher-level helpers instead:
+ *   - assertMatchesSchema(response, schema)  in utils/api-helpers.ts
+ *   - expect(body).toMatchSchema(schema)     from tests/fixtures/base.fixture.ts
+ *
+ * @example
+ *   import { validateJsonSchema, formatSchemaViolations } from '../utils/json-schema';
+ *
+ *   const violations = validateJsonSchema(body, 'schemas/user.schema.json');
+ *   if (violations.length) console.log(formatSchemaViolations(violations));
+ */
+
+/** A JSON Schema: an inline schema object, or a path to a local .json schema file. */
+export type JsonSchemaSource = Record<string, unknown> | boolean | string;
+
+/** One failed constraint, located by JSON pointer. */
+export interface SchemaViolation {
+  /** JSON pointer to the failing value ('' is the document root) */
+  pointer: string;
+  /** The constraint that failed, e.g. 'must be >= 0 (minimum)' */
+  expected: string;
+  /** The value found at the pointer, or undefined if it is missing */
+  actual: unknown;
+}
+
+const ajv = new Ajv2020({ allErrors: true, strict: false });
+addFormats(ajv);
+
+/** Compiled validators for inline schemas (by identity) and schema files (by path). */
+const compiledInline = new WeakMap<object, ValidateFunction>();
+const compiledFiles = new Map<string, ValidateFunction>();
+
+/** file:// URLs of the schema files added to Ajv so far. */
+const registeredFiles = new Set<string>();
+
+/**
+ * Register a schema file and every local file it `$ref`s with Ajv.
+ *
+ * Each file is registered under its file:// URL so relative refs resolve
+ * the same way they would on disk. Nothing is compiled here: the whole
+ * ref graph, cycles included, is added before the first compile.
+ */
+function registerSchemaFile(filePath: string): string {
+  const id = pathToFileURL(path.resolve(filePath)).href;
+  if (registeredFiles.has(id)) {
+    return id;
+  }
+  registeredFiles.add(id);
+
+  const schema = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  ajv.addSchema({ ...schema, $id: id });
+
+  for (const ref of collectFileRefs(schema)) {
+    registerSchemaFile(path.resolve(path.dirname(filePath), ref));
+  }
+  return id;
+}
+
+/** Find every `$ref` that points at another file (i.e. not a '#' fragment). */
+function collectFileRefs(node: unknown, refs = new Set<string>()): Set<string> {
+  if (Array.isArray(node)) {
+    node.forEach((child) => collectFileRefs(child, refs));
+  } else if (node && typeof node === 'object') {
+    for (const [key, value] of Object.entries(node)) {
+      if (key === '$ref' && typeof value === 'string' && !value.startsWith('#') && !/^[a-z]+:/i.test(value)) {
+        refs.add(value.split('#')[0]);
+      } else {
+        collectFileRefs(value, refs);
+      }
+    }
+  }
+  return refs;
+}
+
+/** Compile (or fetch the cached) validator for a schema source. */
+function getValidator(schema: JsonSchemaSource): ValidateFunction {
+  if (typeof schema === 'string') {
+    const filePath = path.resolve(schema);
+    let validate = compiledFiles.get(filePath);
+    if (!validate) {
+      validate = ajv.getSchema(registerSchemaFile(filePath))!;
+      compiledFiles.set(filePath, validate);
+    }
+    return validate;
+  }
+
+  if (typeof schema === 'boolean') {
+    return ajv.compile(schema);
+  }
+
+  let validate = compiledInline.get(schema);
+  if (!validate) {
+    validate = ajv.compile(schema);
+    compiledInline.set(schema, validate);
+  }
+  return validate;
+}
+
+/** Read the value at a JSON pointer ('/items/0/price'). */
+function valueAt(data: unknown, pointer: string): unknown {
+  if (pointer === '') return data;
+  let node = data;
+  for (const token of pointer.slice(1).split('/')) {
+    const key = token.replace(/~1/g, '/').replace(/~0/g, '~');
+    if (node === null || typeof node !== 'object') return undefined;
+    node = (node as Record<string, unknown>)[key];
+  }
+  return node;
+}
+
+/** Turn an Ajv error into a violation located at the offending value. */
+function toViolation(error: ErrorObject, data: unknown): SchemaViolation {
+  let pointer = error.instancePath;
+  let expected = `${error.message ?? 'is invalid'} (${error.keyword})`;
+
+  // Point "required" errors at the missing property itself, not its parent
+  if (error.keyword === 'required') {
+    const property = String(error.params.missingProperty);
+    pointer = `${pointer}/${property.replace(/~/g, '~0').replace(/\//g, '~1')}`;
+    expected = 'required property to be present (required)';
+  } else if (error.keyword === 'additionalProperties') {
+    const property = String(error.params.additionalProperty);
+    pointer = `${pointer}/${property.replace(/~/g, '~0').replace(/\//g, '~1')}`;
+    expected = 'no additional properties (additionalProperties)';
+  } else if (error.keyword === 'enum') {
+    expected = `one of ${JSON.stringify(error.params.allowedValues)} (enum)`;
+  }
+
+  return { pointer, expected, actual: valueAt(data, pointer) };
+}
+
+/**
+ * Validate data against a JSON Schema (draft 2020-12).
+ *
+ * @param data - The value to validate (usually a parsed response body)
+ * @param schema - Inline schema, or a path to a local .json schema file
+ * @returns Every violation found; an empty array means the data is valid
+ *
+ * @example
+ *   const violations = validateJsonSchema(body, { type: 'object', required: ['id'] });
+ *   expect(violations).toHaveLength(0);
+ */
+export function validateJsonSchema(data: unknown, schema: JsonSchemaSource): SchemaViolation[] {
+  const validate = getValidator(schema);
+  if (validate(data)) {
+    return [];
+  }
+  return (validate.errors ?? []).map((error) => toViolation(error, data));
+}
+
+/**
+ * Format violations for an assertion message or the HTML report.
+ *
+ * @param violations - The violations returned by validateJsonSchema()
+ * @returns A multi-line, human-readable description
+ *
+ * @example
+ *   // 2 schema violation(s):
+ *   //   at /email
+ *   //     expected: must match format "email" (format)
+ *   //     actual:   "not-an-email"
+ *   //   at /age
+ *   //     expected: required property to be present (required)
+ *   //     actual:   (missing)
+ */
+export function formatSchemaViolations(violations: SchemaViolation[]): string {
+  const lines = violations.map(({ pointer, expected, actual }) => [
+    `  at ${pointer || '/ (root)'}`,
+    `    expected: ${expected}`,
+    `    actual:   ${actual === undefined ? '(missing)' : JSON.stringify(actual)}`,
+  ].join('\n'));
+
+  return `${violations.length} schema violation(s):\n${lines.join('\n')}`;
+}
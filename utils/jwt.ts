@@ -0,0 +1,74 @@
+/**
+ * JWT Helpers
+ *
+ * Minimal, dependency-free helpers for reading JSON Web Tokens in tests.
+ * These helpers DECODE tokens only — they do not verify signatures. Use them
+ * to inspect claims (exp, sub, roles) of tokens your app already trusts.
+ *
+ * @example
+ *   import { decodeJwt } from '../utils/jwt';
+ *
+ *   const token = decodeJwt(localStorageValue);
+ *   if (token?.payload.exp) { ... }
+ */
+
+/** Registered claims commonly found in a JWT payload. */
+export interface JwtPayload {
+  /** Expiry time (Unix seconds) */
+  exp?: number;
+  /** Issued-at time (Unix seconds) */
+  iat?: number;
+  /** Subject (usually the user ID) */
+  sub?: string;
+  [claim: string]: unknown;
+}
+
+/** A decoded (but unverified) JWT. */
+export interface DecodedJwt {
+  header: Record<string, unknown>;
+  payload: JwtPayload;
+}
+
+/** Three base64url segments separated by dots. */
+const JWT_PATTERN = /^[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]*$/;
+
+/**
+ * Check whether a string looks like a compact JWT.
+ *
+ * @param value - Any string (e.g. a localStorage value)
+ * @returns true if the value has the header.payload.signature shape
+ */
+export function isJwt(value: string): boolean {
+  return JWT_PATTERN.test(value.trim());
+}
+
+/**
+ * Decode a JWT's header and payload without verifying its signature.
+ *
+ * Accepts a bare token or a 'Bearer <token>' string.
+ *
+ * @param token - The token to decode
+ * @returns The decoded header and payload, or null if the token is malformed
+ *
+ * @example
+ *   const decoded = decodeJwt('eyJhbGciOi...');
+ *   decoded?.payload.exp; // 1767225600
+ */
+export function decodeJwt(token: string): DecodedJwt | null {
+  const raw = token.trim().replace(/^Bearer\s+/i, '');
+  if (!isJwt(raw)) {
+    return null;
+  }
+
+  try {
+    const [header, payload] = raw.split('.').slice(0, 2).map(
+      (segment) => JSON.parse(Buffer.from(segment, 'base64url').toString('utf-8')),
+    );
+    if (typeof header !== 'object' || typeof payload !== 'object' || !header || !payload) {
+      return null;
+    }
+    return { header, payload };
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,178 @@
+/**
+ * Test Data Locales
+ *
+ * Locale packs supply the names, places and formats TestData generates for
+ * a market. Bundled packs: en-US (default), de-DE, fr-FR and ja-JP. All data
+ * is inline, so generation works offline.
+ *
+ * Within a pack, values stay consistent: a city comes with its own region
+ * and postal code range, phone numbers use the country's calling code
+ * (E.164), and orders use the pack's currency.
+ *
+ * Add a market by registering a pack, e.g. in a shared fixture module:
+ *
+ * @example
+ *   registerLocale({
+ *     ...getLocalePack('de-DE'),
+ *     locale: 'de-AT',
+ *     country: 'AT',
+ *     cities: [{ city: 'Wien', region: 'Wien', postalCode: '1###' }],
+ *     phone: { countryCode: '43', pattern: '66#########' },
+ *   });
+ *
+ *   test.use({ dataLocale: 'de-AT' });
+ */
+
+/** A city, its region (state, Land, prefecture, ...) and its postal code pattern. */
+export interface LocaleCity {
+  city: string;
+  region: string;
+  /** '#' is replaced with a random digit (e.g. '10###' → '10115') */
+  postalCode: string;
+}
+
+/** Everything TestData needs to generate data for one market. */
+export interface LocalePack {
+  /** BCP 47 tag, e.g. 'de-DE' */
+  locale: string;
+  /** ISO 3166-1 alpha-2 country code */
+  country: string;
+  firstNames: string[];
+  lastNames: string[];
+  cities: LocaleCity[];
+  streetNames: string[];
+  /** Format a street line from a street name and a house number (1-9999) */
+  formatStreet: (name: string, houseNumber: number) => string;
+  phone: {
+    /** Country calling code without '+' */
+    countryCode: string;
+    /** National number; '#' is any digit, 'N' is 2-9 */
+    pattern: string;
+  };
+  currency: {
+    /** ISO 4217 code */
+    code: string;
+    /** Minor unit digits (2 for cents, 0 for yen) */
+    decimals: number;
+    /** Multiplier from the USD-like base price range, so amounts look plausible */
+    scale: number;
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Bundled packs
+// ---------------------------------------------------------------------------
+
+const EN_US: LocalePack = {
+  locale: 'en-US',
+  country: 'US',
+  firstNames: ['Alice', 'Bob', 'Charlie', 'Diana', 'Eve', 'Frank', 'Grace', 'Hank', 'Iris', 'Jack'],
+  lastNames: ['Smith', 'Johnson', 'Williams', 'Brown', 'Jones', 'Garcia', 'Miller', 'Davis', 'Wilson', 'Taylor'],
+  cities: [
+    { city: 'New York', region: 'NY', postalCode: '100##' },
+    { city: 'Los Angeles', region: 'CA', postalCode: '900##' },
+    { city: 'Chicago', region: 'IL', postalCode: '606##' },
+    { city: 'Houston', region: 'TX', postalCode: '770##' },
+    { city: 'Phoenix', region: 'AZ', postalCode: '850##' },
+    { city: 'Seattle', region: 'WA', postalCode: '981##' },
+    { city: 'Denver', region: 'CO', postalCode: '802##' },
+    { city: 'Austin', region: 'TX', postalCode: '787##' },
+    { city: 'Boston', region: 'MA', postalCode: '021##' },
+    { city: 'Miami', region: 'FL', postalCode: '331##' },
+  ],
+  streetNames: ['Main', 'Oak', 'Maple', 'Cedar', 'Elm', 'Washington', 'Lake', 'Hill', 'Park', 'Pine'],
+  formatStreet: (name, houseNumber) => `${houseNumber} ${name} St`,
+  phone: { countryCode: '1', pattern: 'N##N######' },
+  currency: { code: 'USD', decimals: 2, scale: 1 },
+};
+
+const DE_DE: LocalePack = {
+  locale: 'de-DE',
+  country: 'DE',
+  firstNames: ['Lukas', 'Leon', 'Jonas', 'Finn', 'Jürgen', 'Emma', 'Mia', 'Hannah', 'Lena', 'Sophie'],
+  lastNames: ['Müller', 'Schmidt', 'Schneider', 'Fischer', 'Weber', 'Meyer', 'Wagner', 'Becker', 'Schulz', 'Hoffmann'],
+  cities: [
+    { city: 'Berlin', region: 'Berlin', postalCode: '10###' },
+    { city: 'Hamburg', region: 'Hamburg', postalCode: '20###' },
+    { city: 'München', region: 'Bayern', postalCode: '80###' },
+    { city: 'Köln', region: 'Nordrhein-Westfalen', postalCode: '50###' },
+    { city: 'Frankfurt am Main', region: 'Hessen', postalCode: '60###' },
+    { city: 'Stuttgart', region: 'Baden-Württemberg', postalCode: '70###' },
+    { city: 'Leipzig', region: 'Sachsen', postalCode: '04###' },
+  ],
+  streetNames: ['Hauptstraße', 'Bahnhofstraße', 'Gartenweg', 'Schulstraße', 'Lindenallee', 'Goethestraße'],
+  formatStreet: (name, houseNumber) => `${name} ${(houseNumber % 150) + 1}`,
+  phone: { countryCode: '49', pattern: '15#########' },
+  currency: { code: 'EUR', decimals: 2, scale: 1 },
+};
+
+const FR_FR: LocalePack = {
+  locale: 'fr-FR',
+  country: 'FR',
+  firstNames: ['Léa', 'Chloé', 'Manon', 'Camille', 'Inès', 'Lucas', 'Hugo', 'Louis', 'Théo', 'Émile'],
+  lastNames: ['Martin', 'Bernard', 'Dubois', 'Thomas', 'Robert', 'Richard', 'Petit', 'Durand', 'Leroy', 'Moreau'],
+  cities: [
+    { city: 'Paris', region: 'Île-de-France', postalCode: '750##' },
+    { city: 'Lyon', region: 'Auvergne-Rhône-Alpes', postalCode: '6900#' },
+    { city: 'Marseille', region: "Provence-Alpes-Côte d'Azur", postalCode: '130##' },
+    { city: 'Toulouse', region: 'Occitanie', postalCode: '310##' },
+    { city: 'Nantes', region: 'Pays de la Loire', postalCode: '440##' },
+    { city: 'Bordeaux', region: 'Nouvelle-Aquitaine', postalCode: '330##' },
+    { city: 'Lille', region: 'Hauts-de-France', postalCode: '590##' },
+  ],
+  streetNames: ['rue de la Paix', 'avenue Victor Hugo', 'boulevard Saint-Michel', 'rue du Moulin', 'place de la République', 'rue Pasteur'],
+  formatStreet: (name, houseNumber) => `${(houseNumber % 200) + 1} ${name}`,
+  phone: { countryCode: '33', pattern: '6########' },
+  currency: { code: 'EUR', decimals: 2, scale: 1 },
+};
+
+const JA_JP: LocalePack = {
+  locale: 'ja-JP',
+  country: 'JP',
+  firstNames: ['陽翔', '蓮', '湊', '大和', '悠真', '結衣', '陽葵', '凛', '葵', '芽依'],
+  lastNames: ['佐藤', '鈴木', '高橋', '田中', '伊藤', '渡辺', '山本', '中村', '小林', '加藤'],
+  cities: [
+    { city: '千代田区', region: '東京都', postalCode: '100-00##' },
+    { city: '新宿区', region: '東京都', postalCode: '160-00##' },
+    { city: '大阪市北区', region: '大阪府', postalCode: '530-00##' },
+    { city: '横浜市西区', region: '神奈川県', postalCode: '220-00##' },
+    { city: '名古屋市中区', region: '愛知県', postalCode: '460-00##' },
+    { city: '札幌市中央区', region: '北海道', postalCode: '060-00##' },
+    { city: '福岡市中央区', region: '福岡県', postalCode: '810-00##' },
+  ],
+  streetNames: ['本町', '中央', '栄町', '緑町', '旭町', '桜台'],
+  // Chōme, block and building number, e.g. 本町2丁目14-3
+  formatStreet: (name, houseNumber) =>
+    `${name}${(houseNumber % 5) + 1}丁目${(houseNumber % 20) + 1}-${(houseNumber % 30) + 1}`,
+  phone: { countryCode: '81', pattern: '90########' },
+  currency: { code: 'JPY', decimals: 0, scale: 150 },
+};
+
+// ---------------------------------------------------------------------------
+// Registry
+// ---------------------------------------------------------------------------
+
+const packs = new Map<string, LocalePack>([EN_US, DE_DE, FR_FR, JA_JP].map((pack) => [pack.locale, pack]));
+
+/** Add a locale pack, or replace the pack for an existing tag. */
+export function registerLocale(pack: LocalePack): void {
+  packs.set(pack.locale, pack);
+}
+
+/**
+ * Look up a locale pack.
+ *
+ * @throws Error listing the registered tags if none matches
+ */
+export function getLocalePack(locale: string): LocalePack {
+  const pack = packs.get(locale);
+  if (!pack) {
+    throw new Error(`[test-data] No locale pack for "${locale}". Registered: ${registeredLocales().join(', ')}. Add one with registerLocale().`);
+  }
+  return pack;
+}
+
+/** Tags of every registered locale pack. */
+export function registeredLocales(): string[] {
+  return [...packs.keys()];
+}
@@ -0,0 +1,123 @@
+import { Locator } from '@playwright/test';
+import { Timeouts } from './timeouts';
+
+/**
+ * Locator Fallback Chains
+ *
+ * A fallback chain lists several ways to find the same element, best
+ * first — typically role → label → test id:
+ *
+ *   {
+ *     role: page.getByRole('textbox', { name: 'Username' }),
+ *     label: page.getByLabel(/user ?name|email/i),
+ *     testId: page.getByTestId('username'),
+ *   }
+ *
+ * resolveFallback() waits until any of them matches, then uses the first
+ * strategy (in declaration order) that matches exactly one element. When
+ * that is not the first one, the primary selector has drifted from the
+ * app: the test keeps working, but the drift is recorded. The base fixture
+ * warns and attaches selector-drift.json to the test, and the
+ * selector-drift reporter lists every drift of the run so the primary
+ * selectors get fixed instead of silently depending on the fallbacks.
+ *
+ * Page objects use this through BasePage.locate().
+ */
+
+/** Strategies to find one element, in priority order (object key order). */
+export type FallbackChain = Record<string, Locator>;
+
+/** A fallback chain resolved with a strategy other than its primary one. */
+export interface SelectorDrift {
+  /** Page object (or other owner) that declares the chain, e.g. 'LoginPage' */
+  owner: string;
+  /** The element's name in the owner, e.g. 'usernameInput' */
+  element: string;
+  /** The primary strategy and its locator, which did not match exactly one element */
+  expected: string;
+  /** The strategy that was used instead, and its locator */
+  used: string;
+  /** How many elements each strategy matched, e.g. { role: 0, label: 1, testId: 1 } */
+  matches: Record<string, number>;
+  /** The page URL at the time */
+  url: string;
+}
+
+// Drift recorded during the current test (see startSelectorDriftLog)
+let drifts: SelectorDrift[] = [];
+
+/**
+ * Start a fresh drift log. The base fixture calls this before each test
+ * and reports what was recorded afterwards.
+ *
+ * @returns The live list the test's drift is recorded into
+ */
+export function startSelectorDriftLog(): SelectorDrift[] {
+  drifts = [];
+  return drifts;
+}
+
+/** Record a drift, once per owner, element and fallback strategy. */
+function recordSelectorDrift(drift: SelectorDrift): void {
+  const known = drifts.some(
+    (entry) => entry.owner === drift.owner && entry.element === drift.element && entry.used === drift.used,
+  );
+  if (!known) drifts.push(drift);
+}
+
+/**
+ * Resolve a fallback chain to the locator of its first uniquely matching
+ * strategy, recording a selector drift if that is not the primary one.
+ *
+ * @param chain - Strategies in priority order
+ * @param options.owner - Who declares the chain (for the drift report)
+ * @param options.element - The element's name (for the drift report and errors)
+ * @param options.timeout - How long to wait for any strategy to match (default Timeouts.LONG)
+ * @throws Error listing each strategy's match count if none matches exactly one element
+ */
+export async function resolveFallback(
+  chain: FallbackChain,
+  options: { owner: string; element: string; timeout?: number },
+): Promise<Locator> {
+  const strategies = Object.entries(chain);
+  if (strategies.length === 0) {
+    throw new Error(`[selectors] ${options.owner}.${options.element} has an empty fallback chain`);
+  }
+
+  // Wait for the element to render, whichever strategy finds it
+  const anyStrategy = strategies.map(([, locator]) => locator).reduce((either, locator) => either.or(locator));
+  await anyStrategy
+    .first()
+    .waitFor({ state: 'attached', timeout: options.timeout ?? Timeouts.LONG })
+    .catch(() => undefined);
+
+  const matches: Record<string, number> = {};
+  for (const [strategy, locator] of strategies) {
+    matches[strategy] = await locator.count();
+  }
+
+  const [primaryStrategy, primary] = strategies[0];
+  const resolved = strategies.find(([strategy]) => matches[strategy] === 1);
+  if (!resolved) {
+    const counts = strategies.map(([strategy]) => `${strategy}: ${matches[strategy]}`).join(', ');
+    throw new Error(`[selectors] ${options.owner}.${options.element} matched no strategy exactly once (${counts})`);
+  }
+
+  const [strategy, locator] = resolved;
+  if (locator !== primary) {
+    recordSelectorDrift({
+      owner: options.owner,
+      element: options.element,
+      expected: `${primaryStrategy}: ${primary}`,
+      used: `${strategy}: ${locator}`,
+      matches,
+      url: locator.page().url(),
+    });
+  }
+  return locator;
+}
+
+/** One line per drift, for warnings and the run summary. */
+export function formatSelectorDrift(drift: SelectorDrift): string {
+  return `${drift.owner}.${drift.element}: expected ${drift.expected}, used ${drift.used}`;
+}
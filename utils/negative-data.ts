@@ -0,0 +1,313 @@
+/**
+ * Negative and Boundary Test Data
+ *
+ * Categorized bad and unusual inputs per field type, for negative tests.
+ * `TestData.invalid` returns values a correct system must reject;
+ * `TestData.edge` returns valid-but-awkward values it must accept and
+ * handle safely (unicode, injection probes, exact limits).
+ *
+ * Every value carries a short label and a category, so data-driven tests
+ * get readable titles. Values are fixed (not random), so titles stay stable
+ * between runs.
+ *
+ * @example
+ *   for (const { label, value } of TestData.invalid.email()) {
+ *     test(`signup rejects ${label}`, async ({ apiContext }) => {
+ *       const response = await apiContext.post('/api/signup', { data: { email: value } });
+ *       expect(response.status()).toBe(422);
+ *     });
+ *   }
+ */
+
+/** What kind of bad or unusual input a value is. */
+export type NegativeCategory =
+  | 'malformed'
+  | 'overlong'
+  | 'too-short'
+  | 'weak'
+  | 'blank'
+  | 'out-of-range'
+  | 'wrong-type'
+  | 'boundary'
+  | 'unicode'
+  | 'emoji'
+  | 'rtl'
+  | 'control'
+  | 'sql-injection'
+  | 'html-injection'
+  | 'template-injection';
+
+/** A test input with a readable label, e.g. for test titles. */
+export interface LabeledValue<T = string> {
+  /** Short description, unique within one list (e.g. 'missing @') */
+  label: string;
+  category: NegativeCategory;
+  value: T;
+}
+
+/** Password rules that TestData.invalid.password() generates violations of. */
+export interface PasswordPolicy {
+  minLength: number;
+  /** Omit for no maximum */
+  maxLength?: number;
+  requireUppercase: boolean;
+  requireLowercase: boolean;
+  requireDigit: boolean;
+  requireSymbol: boolean;
+}
+
+/** Allowed range for numeric fields such as prices. */
+export interface NumberRange {
+  min: number;
+  max: number;
+  /** Decimal places allowed (2 for cents) */
+  decimals: number;
+}
+
+/** Allowed range for date fields, as ISO dates ('2024-01-31'). */
+export interface DateRange {
+  min: string;
+  max: string;
+}
+
+export const DEFAULT_PASSWORD_POLICY: PasswordPolicy = {
+  minLength: 8,
+  maxLength: 128,
+  requireUppercase: true,
+  requireLowercase: true,
+  requireDigit: true,
+  requireSymbol: true,
+};
+
+export const DEFAULT_PRICE_RANGE: NumberRange = { min: 0, max: 1_000_000, decimals: 2 };
+
+export const DEFAULT_DATE_RANGE: DateRange = { min: '1900-01-01', max: '2100-12-31' };
+
+/** RFC 5321 limits: 64 characters before the @, 254 in total. */
+const EMAIL_LOCAL_MAX = 64;
+const EMAIL_MAX = 254;
+
+const labeled = <T>(category: NegativeCategory, label: string, value: T): LabeledValue<T> => ({ label, category, value });
+
+/** A string of exactly `length` characters containing every password character class. */
+function compliantPassword(length: number): string {
+  const pattern = 'Aa1!Bb2@Cc3#';
+  return Array.from({ length }, (_, i) => pattern[i % pattern.length]).join('');
+}
+
+/** Shift an ISO date by a number of days. */
+function addDays(isoDate: string, days: number): string {
+  const date = new Date(`${isoDate}T00:00:00.000Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+}
+
+/** Round to a number of decimal places, avoiding float noise (0.1 + 0.2). */
+function round(value: number, decimals: number): number {
+  return Number(value.toFixed(decimals));
+}
+
+// ---------------------------------------------------------------------------
+// Invalid values
+// ---------------------------------------------------------------------------
+
+export const InvalidData = {
+  /** Empty, whitespace-only and invisible values for required text fields. */
+  blank(): LabeledValue[] {
+    return [
+      labeled('blank', 'empty string', ''),
+      labeled('blank', 'single space', ' '),
+      labeled('blank', 'whitespace only', ' \t\n '),
+      labeled('blank', 'non-breaking space', '\u00a0'),
+      labeled('blank', 'zero-width space', '\u200b'),
+    ];
+  },
+
+  /** Malformed and overlong email addresses. */
+  email(): LabeledValue[] {
+    return [
+      labeled('malformed', 'missing @', 'user.example.com'),
+      labeled('malformed', 'two @ signs', 'user@@example.com'),
+      labeled('malformed', 'missing local part', '@example.com'),
+      labeled('malformed', 'missing domain', 'user@'),
+      labeled('malformed', 'leading dot', '.user@example.com'),
+      labeled('malformed', 'consecutive dots', 'user..name@example.com'),
+      labeled('malformed', 'trailing dot in domain', 'user@example.com.'),
+      labeled('malformed', 'space inside', 'user name@example.com'),
+      labeled('malformed', 'display name form', 'User <user@example.com>'),
+      labeled('overlong', `local part over ${EMAIL_LOCAL_MAX} chars`, `${'a'.repeat(EMAIL_LOCAL_MAX + 1)}@example.com`),
+      labeled('overlong', `address over ${EMAIL_MAX} chars`, `user@${'d'.repeat(EMAIL_MAX - 'user@.com'.length + 1)}.com`),
+      ...InvalidData.blank(),
+    ];
+  },
+
+  /**
+   * Passwords that each break exactly one rule of the policy (and otherwise comply).
+   *
+   * @param policy - Overrides for DEFAULT_PASSWORD_POLICY
+   */
+  password(policy: Partial<PasswordPolicy> = {}): LabeledValue[] {
+    const rules = { ...DEFAULT_PASSWORD_POLICY, ...policy };
+    const length = Math.max(rules.minLength, 8);
+    const base = compliantPassword(length);
+    const values: LabeledValue[] = [labeled('blank', 'empty string', '')];
+
+    if (rules.minLength > 1) {
+      values.push(labeled('too-short', `shorter than ${rules.minLength} chars`, compliantPassword(rules.minLength - 1)));
+    }
+    if (rules.maxLength !== undefined) {
+      values.push(labeled('overlong', `longer than ${rules.maxLength} chars`, compliantPassword(rules.maxLength + 1)));
+    }
+    if (rules.requireUppercase) values.push(labeled('weak', 'no uppercase letter', base.toLowerCase()));
+    if (rules.requireLowercase) values.push(labeled('weak', 'no lowercase letter', base.toUpperCase()));
+    if (rules.requireDigit) values.push(labeled('weak', 'no digit', base.replace(/[0-9]/g, 'x')));
+    if (rules.requireSymbol) values.push(labeled('weak', 'no symbol', base.replace(/[^A-Za-z0-9]/g, 'y')));
+    values.push(labeled('blank', 'whitespace only', ' '.repeat(length)));
+    return values;
+  },
+
+  /**
+   * Strings just outside a length limit.
+   *
+   * @param max - Longest allowed length
+   * @param min - Shortest allowed length (default 1)
+   */
+  length(max: number, min = 1): LabeledValue[] {
+    const values: LabeledValue[] = [];
+    if (min > 0) values.push(labeled('too-short', `${min - 1} chars (min ${min})`, 'a'.repeat(min - 1)));
+    values.push(labeled('overlong', `${max + 1} chars (max ${max})`, 'a'.repeat(max + 1)));
+    return values;
+  },
+
+  /**
+   * Prices outside the range, with too many decimals, or of the wrong type.
+   * NaN and Infinity serialize to null in JSON bodies.
+   *
+   * @param range - Overrides for DEFAULT_PRICE_RANGE
+   */
+  price(range: Partial<NumberRange> = {}): LabeledValue<number | string>[] {
+    const { min, max, decimals } = { ...DEFAULT_PRICE_RANGE, ...range };
+    const step = 10 ** -decimals;
+    const values: LabeledValue<number | string>[] = [
+      labeled('out-of-range', `below minimum (${round(min - step, decimals)})`, round(min - step, decimals)),
+      labeled('out-of-range', `above maximum (${round(max + step, decimals)})`, round(max + step, decimals)),
+    ];
+    if (min >= 0) values.push(labeled('out-of-range', 'negative (-100)', -100));
+    values.push(
+      labeled('malformed', `more than ${decimals} decimals`, round(min + step, decimals) + step / 10),
+      labeled('wrong-type', 'NaN', NaN),
+      labeled('wrong-type', 'Infinity', Infinity),
+      labeled('wrong-type', 'numeric string', String(round(min + 1, decimals))),
+      labeled('wrong-type', 'formatted string', '$1,000.00'),
+    );
+    return values;
+  },
+
+  /**
+   * Impossible, wrongly formatted and out-of-range dates.
+   *
+   * @param range - Overrides for DEFAULT_DATE_RANGE
+   */
+  date(range: Partial<DateRange> = {}): LabeledValue[] {
+    const { min, max } = { ...DEFAULT_DATE_RANGE, ...range };
+    return [
+      labeled('malformed', 'not a date', 'not-a-date'),
+      labeled('malformed', 'February 30th', '2024-02-30'),
+      labeled('malformed', 'month 13', '2024-13-01'),
+      labeled('malformed', 'February 29th in a non-leap year', '2023-02-29'),
+      labeled('malformed', 'day-first format', '31/12/2024'),
+      labeled('malformed', 'all zeros', '0000-00-00'),
+      labeled('out-of-range', `day before ${min}`, addDays(min, -1)),
+      labeled('out-of-range', `day after ${max}`, addDays(max, 1)),
+      labeled('blank', 'empty string', ''),
+    ];
+  },
+} as const;
+
+// ---------------------------------------------------------------------------
+// Edge values
+// ---------------------------------------------------------------------------
+
+export const EdgeData = {
+  /** Unicode, emoji, right-to-left and control characters for free-text fields. */
+  string(): LabeledValue[] {
+    return [
+      labeled('unicode', 'accented Latin', 'Zoë Ångström-Núñez'),
+      labeled('unicode', 'CJK characters', '测试用户 テスト 사용자'),
+      labeled('unicode', 'combining accent', 'Cafe\u0301'),
+      labeled('unicode', 'astral plane characters', '𝔘𝔫𝔦𝔠𝔬𝔡𝔢 𝟙𝟚𝟛'),
+      labeled('emoji', 'emoji', 'Great job 👍'),
+      labeled('emoji', 'emoji with skin tone', '👋🏽'),
+      labeled('emoji', 'ZWJ emoji sequence', '\u{1F469}\u200D\u{1F469}\u200D\u{1F467}\u200D\u{1F466}'),
+      labeled('emoji', 'flag emoji', '🇺🇸🇯🇵'),
+      labeled('rtl', 'Arabic', 'مرحبا بالعالم'),
+      labeled('rtl', 'Hebrew', 'שלום עולם'),
+      labeled('rtl', 'mixed direction', 'Order שלום 123'),
+      labeled('rtl', 'right-to-left override', '\u202egnp.exe'),
+      labeled('control', 'zero-width joiner inside', 'ad\u200dmin'),
+      labeled('control', 'line break and tab', 'first line\nsecond\tline'),
+      labeled('control', 'leading and trailing spaces', '  padded  '),
+    ];
+  },
+
+  /** SQL, HTML and template injection probes. A safe system stores and shows them verbatim. */
+  injection(): LabeledValue[] {
+    return [
+      labeled('sql-injection', 'SQL tautology', "' OR '1'='1"),
+      labeled('sql-injection', 'SQL comment', "admin'--"),
+      labeled('sql-injection', 'SQL stacked query', "'; DROP TABLE users; --"),
+      labeled('sql-injection', 'SQL UNION', "' UNION SELECT NULL, NULL --"),
+      labeled('html-injection', 'script tag', '<script>alert(1)</script>'),
+      labeled('html-injection', 'image onerror', '<img src=x onerror=alert(1)>'),
+      labeled('html-injection', 'attribute breakout', '"><svg onload=alert(1)>'),
+      labeled('html-injection', 'javascript URL', 'javascript:alert(1)'),
+      labeled('template-injection', 'double-brace expression', '{{7*7}}'),
+      labeled('template-injection', 'dollar-brace expression', '${7*7}'),
+    ];
+  },
+
+  /**
+   * Strings exactly at a length limit.
+   *
+   * @param max - Longest allowed length
+   * @param min - Shortest allowed length (default 1)
+   */
+  length(max: number, min = 1): LabeledValue[] {
+    const values = [labeled<string>('boundary', `${max} chars (max)`, 'a'.repeat(max))];
+    if (min !== max) values.unshift(labeled('boundary', `${min} chars (min)`, 'a'.repeat(min)));
+    return values;
+  },
+
+  /**
+   * Prices at and just inside the range limits.
+   *
+   * @param range - Overrides for DEFAULT_PRICE_RANGE
+   */
+  price(range: Partial<NumberRange> = {}): LabeledValue<number>[] {
+    const { min, max, decimals } = { ...DEFAULT_PRICE_RANGE, ...range };
+    const step = 10 ** -decimals;
+    return [
+      labeled('boundary', `minimum (${min})`, min),
+      labeled('boundary', `smallest step above minimum (${round(min + step, decimals)})`, round(min + step, decimals)),
+      labeled('boundary', `smallest step below maximum (${round(max - step, decimals)})`, round(max - step, decimals)),
+      labeled('boundary', `maximum (${max})`, max),
+    ];
+  },
+
+  /**
+   * Dates at the range limits and calendar edge cases.
+   *
+   * @param range - Overrides for DEFAULT_DATE_RANGE
+   */
+  date(range: Partial<DateRange> = {}): LabeledValue[] {
+    const { min, max } = { ...DEFAULT_DATE_RANGE, ...range };
+    return [
+      labeled<string>('boundary', `minimum (${min})`, min),
+      labeled('boundary', `maximum (${max})`, max),
+      labeled('boundary', 'leap day', '2024-02-29'),
+      labeled('boundary', 'Unix epoch', '1970-01-01'),
+      labeled('boundary', 'last day of the year', '2024-12-31'),
+      labeled('boundary', 'after the 32-bit time limit', '2038-01-20'),
+    ].filter((date) => date.value >= min && date.value <= max);
+  },
+} as const;
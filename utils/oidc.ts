@@ -0,0 +1,266 @@
+import { createHash, randomBytes } from 'node:crypto';
+import { APIRequestContext, APIResponse, Page } from '@playwright/test';
+import { getEnvConfig } from './env';
+import { decodeJwt } from './jwt';
+import { redactText } from './redaction';
+import { Timeouts } from './timeouts';
+
+/**
+ * OAuth 2.0 / OpenID Connect Flows
+ *
+ * Signs tests in through an OIDC issuer instead of a password endpoint:
+ *
+ *   - Authorization code with PKCE — for users. A browser page visits the
+ *     issuer's /authorize (signing in at the IdP if it asks), the redirect
+ *     back is caught before it reaches the app, and the code is exchanged
+ *     for tokens. storeTokens() then puts the access token where the app
+ *     looks for it, so the setup project saves it in the storage state.
+ *   - Client credentials — for service-to-service API tests. The token is
+ *     cached per worker until shortly before it expires; bearerHeaders()
+ *     turns it into extraHTTPHeaders (see the apiAuth fixture option).
+ *
+ * The issuer and client come from the env config (OIDC_ISSUER,
+ * OIDC_CLIENT_ID, ...). The bundled StubIdentityProvider
+ * (utils/stub-idp.ts) plays the issuer in tests.
+ *
+ * @example
+ *   const tokens = await authorizationCodeLogin(page, getOidcConfig(), { loginHint: 'admin' });
+ *   await page.goto('/');
+ *   await storeTokens(page, tokens);
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc7636 (PKCE)
+ */
+
+/** Where and as which client to sign in. */
+export interface OidcClientConfig {
+  /** Issuer URL; discovery is read from <issuer>/.well-known/openid-configuration */
+  issuer: string;
+  clientId: string;
+  /** Confidential clients only; required for client credentials */
+  clientSecret?: string;
+  /** Redirect URI registered for the client (authorization code flow) */
+  redirectUri?: string;
+  /** Space-separated scopes (default 'openid profile email' for users, none for clients) */
+  scope?: string;
+  /** API audience, for issuers that require one */
+  audience?: string;
+}
+
+/** The parts of the discovery document these flows use. */
+export interface OidcMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri?: string;
+  userinfo_endpoint?: string;
+}
+
+/** Tokens from a token response. */
+export interface OidcTokens {
+  accessToken: string;
+  tokenType: string;
+  idToken?: string;
+  refreshToken?: string;
+  /** Unix seconds; undefined if the issuer did not say */
+  expiresAt?: number;
+  scope?: string;
+}
+
+/**
+ * The OIDC client from the env config.
+ *
+ * @returns The config, or undefined if OIDC_ISSUER or OIDC_CLIENT_ID is unset
+ */
+export function getOidcConfig(): OidcClientConfig | undefined {
+  const env = getEnvConfig();
+  if (!env.oidcIssuer || !env.oidcClientId) return undefined;
+  return {
+    issuer: env.oidcIssuer,
+    clientId: env.oidcClientId,
+    clientSecret: env.oidcClientSecret,
+    redirectUri: env.oidcRedirectUri ?? new URL('/auth/callback', env.baseUrl).href,
+    scope: env.oidcScope,
+    audience: env.oidcAudience,
+  };
+}
+
+/** Read the issuer's discovery document. */
+export async function discoverOidc(request: APIRequestContext, issuer: string): Promise<OidcMetadata> {
+  const url = `${issuer.replace(/\/$/, '')}/.well-known/openid-configuration`;
+  const response = await request.get(url);
+  if (!response.ok()) {
+    throw new Error(`[oidc] Discovery failed: GET ${url} returned ${response.status()}`);
+  }
+  return response.json();
+}
+
+/** A PKCE code verifier and its S256 challenge. */
+export function createPkcePair(): { verifier: string; challenge: string } {
+  const verifier = randomBytes(32).toString('base64url');
+  return { verifier, challenge: createHash('sha256').update(verifier).digest('base64url') };
+}
+
+/** Turn a token endpoint response into OidcTokens, or throw with the (redacted) error. */
+async function parseTokenResponse(response: APIResponse, grant: string): Promise<OidcTokens> {
+  if (!response.ok()) {
+    throw new Error(`[oidc] ${grant} token request failed with ${response.status()}: ${redactText(await response.text())}`);
+  }
+  const body = await response.json();
+  return {
+    accessToken: body.access_token,
+    tokenType: body.token_type ?? 'Bearer',
+    idToken: body.id_token,
+    refreshToken: body.refresh_token,
+    expiresAt: body.expires_in ? Math.floor(Date.now() / 1000) + Number(body.expires_in) : undefined,
+    scope: body.scope,
+  };
+}
+
+/**
+ * Sign a user in with the authorization code flow and PKCE.
+ *
+ * The page goes to the issuer's authorize endpoint. If the IdP shows a
+ * login form, `signIn` fills it. The redirect to `redirectUri` is answered
+ * with a blank page (the app never sees it) and its code is exchanged for
+ * tokens. The page is left on that blank page — navigate back to the app
+ * before storeTokens().
+ *
+ * @param page - A browser page (its context's cookies carry the IdP session)
+ * @param config - Issuer and client; redirectUri is required
+ * @param options.loginHint - Passed as login_hint (the stub IdP signs this user in)
+ * @param options.signIn - Completes the IdP's login UI, if it has one
+ * @throws Error if the IdP returns an error, the state does not match, or the exchange fails
+ */
+export async function authorizationCodeLogin(
+  page: Page,
+  config: OidcClientConfig,
+  options: { loginHint?: string; signIn?: (page: Page) => Promise<void> } = {},
+): Promise<OidcTokens> {
+  const { redirectUri } = config;
+  if (!redirectUri) {
+    throw new Error('[oidc] The authorization code flow needs a redirectUri (OIDC_REDIRECT_URI)');
+  }
+
+  const metadata = await discoverOidc(page.request, config.issuer);
+  const { verifier, challenge } = createPkcePair();
+  const state = randomBytes(16).toString('base64url');
+  const nonce = randomBytes(16).toString('base64url');
+
+  const authorizeUrl = new URL(metadata.authorization_endpoint);
+  const params = {
+    response_type: 'code',
+    client_id: config.clientId,
+    redirect_uri: redirectUri,
+    scope: config.scope ?? 'openid profile email',
+    state,
+    nonce,
+    code_challenge: challenge,
+    code_challenge_method: 'S256',
+    ...(config.audience && { audience: config.audience }),
+    ...(options.loginHint && { login_hint: options.loginHint }),
+  };
+  for (const [name, value] of Object.entries(params)) authorizeUrl.searchParams.set(name, value);
+
+  // Catch the callback before it reaches the app; only the code is needed
+  const isCallback = (url: URL) => url.href.startsWith(redirectUri);
+  await page.route(isCallback, (route) => route.fulfill({ contentType: 'text/html', body: '<!DOCTYPE html><title>Signed in</title>' }));
+  let callback: URL;
+  try {
+    await page.goto(authorizeUrl.href);
+    if (!isCallback(new URL(page.url())) && options.signIn) {
+      await options.signIn(page);
+    }
+    await page.waitForURL(isCallback, { timeout: Timeouts.NAVIGATION });
+    callback = new URL(page.url());
+  } finally {
+    await page.unroute(isCallback);
+  }
+
+  const error = callback.searchParams.get('error');
+  if (error) {
+    throw new Error(`[oidc] Authorization failed: ${error}${callback.searchParams.has('error_description') ? ` — ${callback.searchParams.get('error_description')}` : ''}`);
+  }
+  if (callback.searchParams.get('state') !== state) {
+    throw new Error('[oidc] Authorization failed: the state in the callback does not match the request');
+  }
+
+  const response = await page.request.post(metadata.token_endpoint, {
+    form: {
+      grant_type: 'authorization_code',
+      code: callback.searchParams.get('code') ?? '',
+      redirect_uri: redirectUri,
+      client_id: config.clientId,
+      code_verifier: verifier,
+      ...(config.clientSecret && { client_secret: config.clientSecret }),
+    },
+  });
+  const tokens = await parseTokenResponse(response, 'authorization_code');
+
+  if (tokens.idToken && decodeJwt(tokens.idToken)?.payload.nonce !== nonce) {
+    throw new Error('[oidc] The ID token nonce does not match the authorization request');
+  }
+  return tokens;
+}
+
+// Client credentials tokens per worker, keyed by issuer, client, secret (hashed), scope and audience
+const clientTokens = new Map<string, OidcTokens>();
+
+/**
+ * Get a client credentials access token, reusing the worker's cached token
+ * until it is within AUTH_TOKEN_EXPIRY_MARGIN_SECONDS of expiry.
+ *
+ * @throws Error if the client has no secret or the token request fails
+ */
+export async function clientCredentialsToken(request: APIRequestContext, config: OidcClientConfig): Promise<OidcTokens> {
+  if (!config.clientSecret) {
+    throw new Error(`[oidc] Client credentials need a client secret for "${config.clientId}" (OIDC_CLIENT_SECRET)`);
+  }
+
+  // A rotated or wrong secret must not be answered from the cache
+  const secretHash = createHash('sha256').update(config.clientSecret).digest('base64url');
+  const key = [config.issuer, config.clientId, secretHash, config.scope, config.audience].join(' ');
+  const cached = clientTokens.get(key);
+  if (cached && !tokensExpired(cached)) return cached;
+
+  const metadata = await discoverOidc(request, config.issuer);
+  const response = await request.post(metadata.token_endpoint, {
+    form: {
+      grant_type: 'client_credentials',
+      client_id: config.clientId,
+      client_secret: config.clientSecret,
+      ...(config.scope && { scope: config.scope }),
+      ...(config.audience && { audience: config.audience }),
+    },
+  });
+  const tokens = await parseTokenResponse(response, 'client_credentials');
+  clientTokens.set(key, tokens);
+  return tokens;
+}
+
+/**
+ * Whether tokens expire within the margin.
+ *
+ * @param marginSeconds - Defaults to AUTH_TOKEN_EXPIRY_MARGIN_SECONDS
+ */
+export function tokensExpired(tokens: OidcTokens, marginSeconds: number = getEnvConfig().authTokenExpiryMarginSeconds): boolean {
+  return tokens.expiresAt !== undefined && tokens.expiresAt - marginSeconds <= Date.now() / 1000;
+}
+
+/** The Authorization header for an access token, for extraHTTPHeaders. */
+export function bearerHeaders(tokens: OidcTokens): Record<string, string> {
+  return { Authorization: `${tokens.tokenType.replace(/^bearer$/i, 'Bearer')} ${tokens.accessToken}` };
+}
+
+/**
+ * Store the access token in the app's localStorage (AUTH_TOKEN_STORAGE_KEY),
+ * the same place the 'api' login strategy uses, so the setup project saves
+ * it in the role's storage state.
+ *
+ * ADAPT THIS: if your app keeps tokens elsewhere (another key, a cookie,
+ * sessionStorage), store them there instead.
+ *
+ * @param page - A page on the app's origin
+ */
+export async function storeTokens(page: Page, tokens: OidcTokens, storageKey: string = getEnvConfig().authTokenStorageKey): Promise<void> {
+  await page.evaluate(([key, value]) => localStorage.setItem(key, value), [storageKey, tokens.accessToken]);
+}
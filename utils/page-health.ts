@@ -0,0 +1,208 @@
+import { BrowserContext, Request } from '@playwright/test';
+import { redactText } from './redaction';
+
+/**
+ * Page Health Monitor
+ *
+ * Watches a browser context for the errors a test does not assert on but
+ * should not ignore: console.error() calls, uncaught exceptions, requests
+ * that failed at the network level, and responses with a 5xx status. The
+ * fixtures watch every page of every UI test and check the result at
+ * teardown — a test that passed its assertions while the page threw in
+ * the background fails (or warns, depending on the mode).
+ *
+ * Known noise — a third-party widget that logs errors, an analytics
+ * endpoint that 503s in staging — goes in an allowlist keyed by the
+ * reason it is allowed. Entries match issues by message or URL:
+ *
+ *   'chat widget': /intercom/,                                  // message or URL
+ *   'staging analytics': { kind: 'http', url: '/collect' },     // every field must match
+ *   'legacy date picker': { kind: 'console', message: /moment\.js/ },
+ *
+ * Strings match as substrings, RegExps with test(). Messages and URLs are
+ * redacted as they are recorded (see utils/redaction.ts).
+ *
+ * @example
+ *   const monitor = new PageHealthMonitor('fail', { 'chat widget': /intercom/ });
+ *   monitor.watch(page.context());
+ *   await page.goto('/');
+ *   expect(monitor.unexpected()).toEqual([]);
+ */
+
+/** What went wrong: a console error, an uncaught exception, a failed request, or a 5xx response. */
+export type PageHealthIssueKind = 'console' | 'pageerror' | 'requestfailed' | 'http';
+
+/** What happens at teardown when unexpected issues were seen: fail the test, warn, or nothing. */
+export type PageHealthMode = 'fail' | 'warn' | 'off';
+
+/** One problem seen while the test ran. */
+export interface PageHealthIssue {
+  kind: PageHealthIssueKind;
+  /** Console text, exception message, network error (e.g. net::ERR_CONNECTION_REFUSED) or status line */
+  message: string;
+  /** The request URL (requestfailed, http) or the script that logged the error (console) */
+  url?: string;
+  /** Request method (requestfailed, http) */
+  method?: string;
+  /** Response status (http) */
+  status?: number;
+  /** URL of the page the issue happened on */
+  page?: string;
+}
+
+/** An issue that matched the allowlist, with the reason it is allowed. */
+export interface AllowedPageHealthIssue extends PageHealthIssue {
+  allowedBy: string;
+}
+
+/** Matches issues by message or URL (string/RegExp), or by every given field (object). */
+export type PageHealthAllowEntry =
+  | string
+  | RegExp
+  | {
+      kind?: PageHealthIssueKind;
+      message?: string | RegExp;
+      url?: string | RegExp;
+    };
+
+/** Allowed issues, keyed by the reason they are allowed (shown in the summary). */
+export type PageHealthAllowlist = Record<string, PageHealthAllowEntry>;
+
+/** What the fixture attaches as page-health.json. */
+export interface PageHealthSummary {
+  mode: PageHealthMode;
+  unexpected: PageHealthIssue[];
+  allowed: AllowedPageHealthIssue[];
+}
+
+/**
+ * Always allowed: requests the browser cancels itself when the page
+ * navigates or closes mid-load. Chromium, Firefox and WebKit word it differently.
+ */
+const DEFAULT_ALLOWLIST: PageHealthAllowlist = {
+  'request aborted by navigation': { kind: 'requestfailed', message: /^net::ERR_ABORTED$|^NS_BINDING_ABORTED$|cancelled/i },
+};
+
+const matchesText = (pattern: string | RegExp, value: string | undefined): boolean =>
+  value !== undefined && (typeof pattern === 'string' ? value.includes(pattern) : pattern.test(value));
+
+function matchesEntry(entry: PageHealthAllowEntry, issue: PageHealthIssue): boolean {
+  if (typeof entry === 'string' || entry instanceof RegExp) {
+    return matchesText(entry, issue.message) || matchesText(entry, issue.url);
+  }
+  return (
+    (entry.kind === undefined || entry.kind === issue.kind) &&
+    (entry.message === undefined || matchesText(entry.message, issue.message)) &&
+    (entry.url === undefined || matchesText(entry.url, issue.url))
+  );
+}
+
+/** URL of the page a request came from; service worker requests have none. */
+function requestPageUrl(request: Request): string | undefined {
+  try {
+    return request.frame().page().url();
+  } catch {
+    return undefined;
+  }
+}
+
+/** One line per issue, e.g. `[http] GET https://app/api/items → 500 Internal Server Error`. */
+export function formatPageHealthIssue(issue: PageHealthIssue): string {
+  if (issue.kind === 'http' || issue.kind === 'requestfailed') {
+    return `[${issue.kind}] ${issue.method} ${issue.url} → ${issue.message}`;
+  }
+  return `[${issue.kind}] ${issue.message}${issue.url ? ` (${issue.url})` : ''}`;
+}
+
+/** Collects issues from any number of browser contexts and sorts them against an allowlist. */
+export class PageHealthMonitor {
+  /** Every issue seen, allowed or not, in the order they happened */
+  readonly issues: PageHealthIssue[] = [];
+  private readonly allowlist: PageHealthAllowlist;
+
+  /**
+   * @param mode - 'off' makes watch() a no-op
+   * @param allowlist - Known noise, keyed by the reason it is allowed
+   */
+  constructor(readonly mode: PageHealthMode = 'fail', allowlist: PageHealthAllowlist = {}) {
+    this.allowlist = { ...DEFAULT_ALLOWLIST, ...allowlist };
+  }
+
+  /**
+   * Extend the allowlist — for noise only one test runs into. Issues are
+   * sorted when they are read, so this covers ones already recorded too.
+   */
+  allow(reason: string, entry: PageHealthAllowEntry): void {
+    this.allowlist[reason] = entry;
+  }
+
+  /** Record issues from every page in a context, including pages opened later. */
+  watch(context: BrowserContext): void {
+    if (this.mode === 'off') return;
+
+    context.on('console', (message) => {
+      if (message.type() !== 'error') return;
+      this.record({
+        kind: 'console',
+        message: message.text(),
+        url: message.location().url || undefined,
+        page: message.page()?.url(),
+      });
+    });
+    context.on('weberror', (webError) => {
+      this.record({ kind: 'pageerror', message: webError.error().message, page: webError.page()?.url() });
+    });
+    context.on('requestfailed', (request) => {
+      this.record({
+        kind: 'requestfailed',
+        message: request.failure()?.errorText ?? 'request failed',
+        url: request.url(),
+        method: request.method(),
+        page: requestPageUrl(request),
+      });
+    });
+    context.on('response', (response) => {
+      if (response.status() < 500) return;
+      this.record({
+        kind: 'http',
+        message: `${response.status()} ${response.statusText()}`.trim(),
+        url: response.url(),
+        method: response.request().method(),
+        status: response.status(),
+        page: requestPageUrl(response.request()),
+      });
+    });
+  }
+
+  /** The reason an issue is allowed, or undefined if it is not. */
+  allowedBy(issue: PageHealthIssue): string | undefined {
+    return Object.keys(this.allowlist).find((reason) => matchesEntry(this.allowlist[reason], issue));
+  }
+
+  /** Issues not covered by the allowlist — what fails the test. */
+  unexpected(): PageHealthIssue[] {
+    return this.issues.filter((issue) => this.allowedBy(issue) === undefined);
+  }
+
+  /** Issues the allowlist covered, with the reason for each. */
+  allowed(): AllowedPageHealthIssue[] {
+    return this.issues.flatMap((issue) => {
+      const allowedBy = this.allowedBy(issue);
+      return allowedBy === undefined ? [] : [{ ...issue, allowedBy }];
+    });
+  }
+
+  /** Both lists plus the mode, as attached to the test. */
+  summary(): PageHealthSummary {
+    return { mode: this.mode, unexpected: this.unexpected(), allowed: this.allowed() };
+  }
+
+  private record(issue: PageHealthIssue): void {
+    this.issues.push({
+      ...issue,
+      message: redactText(issue.message),
+      url: issue.url === undefined ? undefined : redactText(issue.url),
+      page: issue.page === undefined ? undefined : redactText(issue.page),
+    });
+  }
+}
@@ -0,0 +1,293 @@
+import { randomInt, randomUUID } from 'node:crypto';
+import fs from 'node:fs';
+import { getEnvVar } from './env';
+
+/**
+ * Postman Collections
+ *
+ * Types and loaders for Postman v2.1 collection and environment exports,
+ * plus the variable store used by both the collection converter
+ * (scripts/convert-postman.ts) and any spec it generates.
+ *
+ * Variables resolve in this order, highest precedence first:
+ *   1. Values set while running (pm.environment.set → vars.set)
+ *   2. Environment variables named POSTMAN_<NAME> (e.g. {{userId}} → POSTMAN_USER_ID)
+ *   3. The Postman environment file (environment.json)
+ *   4. The collection's own variables
+ *
+ * The POSTMAN_ prefix keeps Postman names like {{path}} or {{home}} from
+ * picking up unrelated system variables. Postman's common dynamic variables
+ * ({{$guid}}, {{$timestamp}}, {{$isoTimestamp}}, {{$randomInt}}) are
+ * generated on each use.
+ *
+ * @example
+ *   const vars = new PostmanVariables({ userId: '42' });
+ *   vars.resolve('/users/{{userId}}');  // '/users/42' (or POSTMAN_USER_ID if set)
+ */
+
+// ---------------------------------------------------------------------------
+// Types (the subset of the v2.1 schema we read)
+// ---------------------------------------------------------------------------
+
+/** A key/value pair (headers, query params, variables, form fields). */
+export interface PostmanKeyValue {
+  key: string;
+  value?: string;
+  disabled?: boolean;
+  type?: string;
+  src?: string | string[];
+}
+
+/** A request URL: a raw string, or a parsed object with `raw`. */
+export type PostmanUrl = string | { raw?: string; query?: PostmanKeyValue[] };
+
+/** A request body. */
+export interface PostmanBody {
+  mode?: 'raw' | 'urlencoded' | 'formdata' | 'file' | 'graphql';
+  raw?: string;
+  urlencoded?: PostmanKeyValue[];
+  formdata?: PostmanKeyValue[];
+  graphql?: { query?: string; variables?: string };
+  options?: { raw?: { language?: string } };
+}
+
+/** Request authorization (type plus a key/value list per type). */
+export interface PostmanAuth {
+  type: string;
+  [type: string]: string | PostmanKeyValue[] | undefined;
+}
+
+/** A pre-request or test script. */
+export interface PostmanEvent {
+  listen: 'prerequest' | 'test';
+  script?: { exec?: string | string[] };
+}
+
+/** A request. Postman also allows a bare URL string. */
+export type PostmanRequest =
+  | string
+  | {
+      method?: string;
+      url?: PostmanUrl;
+      header?: PostmanKeyValue[];
+      body?: PostmanBody;
+      auth?: PostmanAuth;
+      description?: string;
+    };
+
+/** A request item or a folder of items. */
+export interface PostmanItem {
+  name: string;
+  request?: PostmanRequest;
+  item?: PostmanItem[];
+  event?: PostmanEvent[];
+  auth?: PostmanAuth;
+}
+
+/** A v2.1 collection export. */
+export interface PostmanCollection {
+  info: { name: string; schema?: string; description?: string };
+  item: PostmanItem[];
+  variable?: PostmanKeyValue[];
+  event?: PostmanEvent[];
+  auth?: PostmanAuth;
+}
+
+/** An environment export. */
+export interface PostmanEnvironment {
+  name?: string;
+  values: (PostmanKeyValue & { enabled?: boolean })[];
+}
+
+// ---------------------------------------------------------------------------
+// Loading
+// ---------------------------------------------------------------------------
+
+/**
+ * Read a Postman v2.1 collection export.
+ *
+ * @throws Error if the file is not a v2.x collection
+ */
+export function loadPostmanCollection(filePath: string): PostmanCollection {
+  const collection = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  const schema: string = collection?.info?.schema ?? '';
+
+  if (!Array.isArray(collection?.item) || (schema && !/collection\/v2\.[01]/.test(schema))) {
+    throw new Error(`[postman] ${filePath} is not a Postman v2.1 collection (export it as "Collection v2.1").`);
+  }
+  return collection as PostmanCollection;
+}
+
+/**
+ * Read a Postman environment export, or return undefined if the file does not exist.
+ *
+ * @returns The environment's enabled variables as a plain object
+ */
+export function loadPostmanEnvironment(filePath: string): Record<string, string> | undefined {
+  if (!fs.existsSync(filePath)) {
+    return undefined;
+  }
+  const environment = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as PostmanEnvironment;
+  return Object.fromEntries(
+    (environment.values ?? [])
+      .filter((variable) => variable.enabled !== false && !variable.disabled)
+      .map((variable) => [variable.key, variable.value ?? '']),
+  );
+}
+
+/** Turn a list of key/value pairs into a plain object, skipping disabled entries. */
+export function keyValues(pairs: PostmanKeyValue[] | undefined): Record<string, string> {
+  return Object.fromEntries((pairs ?? []).filter((pair) => !pair.disabled).map((pair) => [pair.key, pair.value ?? '']));
+}
+
+/** The raw URL of a request ('{{baseUrl}}/users?id=1'). */
+export function rawUrl(url: PostmanUrl | undefined): string {
+  if (!url) return '';
+  return typeof url === 'string' ? url : url.raw ?? '';
+}
+
+/** A request in its object form (Postman also allows a bare URL string). */
+export type PostmanRequestObject = Exclude<PostmanRequest, string>;
+
+/** The request of an item, normalized to its object form. */
+export function requestOf(item: PostmanItem): PostmanRequestObject {
+  return typeof item.request === 'string' ? { url: item.request } : item.request ?? {};
+}
+
+/** The script source of an item's pre-request or test event. */
+export function scriptLines(events: PostmanEvent[] | undefined, listen: PostmanEvent['listen']): string[] {
+  const exec = events?.find((event) => event.listen === listen)?.script?.exec;
+  if (exec === undefined) return [];
+  return (Array.isArray(exec) ? exec : exec.split('\n')).filter((line, index, lines) =>
+    // Drop trailing blank lines
+    line.trim() !== '' || lines.slice(index).some((rest) => rest.trim() !== ''),
+  );
+}
+
+/** Auth and scripts a request inherits from its collection and enclosing folders. */
+export interface PostmanScope {
+  auth?: PostmanAuth;
+  /** Pre-request script lines, outermost first */
+  prerequest: string[];
+  /** Test script lines, outermost first */
+  test: string[];
+}
+
+/** The scope at the top of a collection. */
+export function collectionScope(collection: PostmanCollection): PostmanScope {
+  return {
+    auth: collection.auth,
+    prerequest: scriptLines(collection.event, 'prerequest'),
+    test: scriptLines(collection.event, 'test'),
+  };
+}
+
+/**
+ * The scope inside a folder, or for a request: its own auth overrides the
+ * inherited one, and its scripts run after the inherited ones.
+ */
+export function itemScope(parent: PostmanScope, item: PostmanItem): PostmanScope {
+  return {
+    auth: requestOf(item).auth ?? item.auth ?? parent.auth,
+    prerequest: [...parent.prerequest, ...scriptLines(item.event, 'prerequest')],
+    test: [...parent.test, ...scriptLines(item.event, 'test')],
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Variables
+// ---------------------------------------------------------------------------
+
+/** 'userId' → 'POSTMAN_USER_ID' */
+export function postmanEnvName(variable: string): string {
+  const constant = variable
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .replace(/[^A-Za-z0-9]+/g, '_')
+    .replace(/^_|_$/g, '')
+    .toUpperCase();
+  return `POSTMAN_${constant}`;
+}
+
+/**
+ * Whether a variable holds the API base URL, so requests can be made
+ * relative to apiContext's baseURL instead.
+ *
+ * @param name - Variable name
+ * @param value - Its value in the environment/collection, if known
+ */
+export function isBaseUrlVariable(name: string, value?: string): boolean {
+  return /^(base_?url|url|host|api_?url|base_?path)$/i.test(name) || /^https?:\/\//.test(value ?? '');
+}
+
+/**
+ * Drop a leading base-URL variable ({{baseUrl}}/users → /users) so the
+ * request resolves against apiContext's baseURL.
+ *
+ * @param url - The raw request URL
+ * @param lookup - Finds a variable's value, used to recognise base URLs by value
+ */
+export function stripBaseUrl(url: string, lookup: (name: string) => string | undefined): string {
+  const base = url.match(/^\{\{\s*([^{}]+?)\s*\}\}(.*)$/);
+  if (base && isBaseUrlVariable(base[1], lookup(base[1]))) {
+    return base[2].startsWith('/') ? base[2] : `/${base[2]}`;
+  }
+  return url;
+}
+
+/** Generators for Postman's built-in dynamic variables. */
+const DYNAMIC_VARIABLES: Record<string, () => string> = {
+  $guid: () => randomUUID(),
+  $randomUUID: () => randomUUID(),
+  $timestamp: () => String(Math.floor(Date.now() / 1000)),
+  $isoTimestamp: () => new Date().toISOString(),
+  $randomInt: () => String(randomInt(0, 1001)),
+};
+
+/** Variable store with Postman's layering (see the module comment). */
+export class PostmanVariables {
+  private readonly runtime = new Map<string, string>();
+  private readonly defaults: Record<string, string>;
+
+  /**
+   * @param defaults - Environment-file and collection variables, environment first
+   */
+  constructor(...defaults: (Record<string, string> | undefined)[]) {
+    this.defaults = Object.assign({}, ...defaults.filter(Boolean).reverse());
+  }
+
+  /** Look up a variable, or undefined if it is not defined anywhere. */
+  get(name: string): string | undefined {
+    if (name in DYNAMIC_VARIABLES) return DYNAMIC_VARIABLES[name]();
+    return this.runtime.get(name) ?? getEnvVar(postmanEnvName(name)) ?? this.defaults[name];
+  }
+
+  /** Set a variable for the rest of the run. Non-strings are stored as JSON, like Postman. */
+  set(name: string, value: unknown): void {
+    this.runtime.set(name, typeof value === 'string' ? value : JSON.stringify(value));
+  }
+
+  /** Remove a variable set during the run. */
+  unset(name: string): void {
+    this.runtime.delete(name);
+  }
+
+  /** Whether a variable is defined anywhere. */
+  has(name: string): boolean {
+    return this.get(name) !== undefined;
+  }
+
+  /**
+   * Replace every {{name}} in a string.
+   *
+   * @throws Error naming the variable if one is undefined
+   */
+  resolve(template: string): string {
+    return template.replace(/\{\{\s*([^{}]+?)\s*\}\}/g, (_, name: string) => {
+      const value = this.get(name);
+      if (value === undefined) {
+        throw new Error(`[postman] Variable {{${name}}} is not defined. Set ${postmanEnvName(name)} or add it to the environment.`);
+      }
+      return value;
+    });
+  }
+}
@@ -0,0 +1,600 @@
+import { APIRequestContext, expect } from '@playwright/test';
+import { stripVTControlCharacters } from 'node:util';
+import vm from 'node:vm';
+import {
+  PostmanItem,
+  PostmanKeyValue,
+  PostmanScope,
+  PostmanVariables,
+  itemScope,
+  keyValues,
+  rawUrl,
+  requestOf,
+  stripBaseUrl,
+} from './postman-collection';
+import { RequestOptions } from './request-interceptor';
+
+/**
+ * Postman Runner
+ *
+ * Executes Postman collection requests inside the Playwright runner, so
+ * collections that have not been converted yet (scripts/convert-postman.ts)
+ * still report through the same HTML/JUnit reporters. tests/api/postman.spec.ts
+ * turns every request in postman/collection.json into one Playwright test.
+ *
+ * Scripts run in a separate V8 context with a subset of the Postman
+ * sandbox available:
+ *
+ *   pm.test, pm.expect (common chai assertions)
+ *   pm.response: code, status, headers.get/has, json(), text(), responseTime,
+ *                to.have.status/header/body, to.be.ok/success/json
+ *   pm.request:  url, method, headers.add/upsert/remove (pre-request only)
+ *   pm.environment / variables / collectionVariables / globals: get/set/unset/has
+ *   Legacy: tests["name"] = ..., responseBody, responseCode, responseTime,
+ *           postman.get/setEnvironmentVariable
+ *   console.log/info/warn/error (captured, not printed)
+ *
+ * That API is built inside the script's context (see installSandbox), and
+ * only JSON text crosses to the host, so no host object — and through its
+ * constructor chain, no require or process — is reachable from a script.
+ * There are no timers or network access, each script run is limited to
+ * SCRIPT_TIMEOUT_MS, and any other pm.* API (pm.sendRequest, pm.visualizer,
+ * setNextRequest, ...) fails with a clear error rather than being silently
+ * ignored. node:vm is not a hard security boundary (it shares the process
+ * and its memory), so run collections you would trust as code.
+ *
+ * @example
+ *   const result = await runPostmanRequest(item, scope, { apiContext, vars });
+ *   for (const assertion of result.assertions) {
+ *     console.log(assertion.name, assertion.error ?? 'passed');
+ *   }
+ */
+
+/** Outcome of one pm.test (or legacy tests[...]) assertion. */
+export interface PostmanAssertion {
+  name: string;
+  /** The failure message; undefined if the assertion passed */
+  error?: string;
+}
+
+/** Outcome of running one request item. */
+export interface PostmanRunResult {
+  /** Response status (undefined if the pre-request script failed) */
+  status?: number;
+  /** pm.test results, in the order they ran */
+  assertions: PostmanAssertion[];
+  /** Errors thrown by the scripts themselves, outside any pm.test */
+  scriptErrors: string[];
+  /** Lines written with console.* by the scripts */
+  console: string[];
+}
+
+/** What a request needs to run. */
+export interface PostmanRunContext {
+  apiContext: APIRequestContext;
+  vars: PostmanVariables;
+}
+
+/** Longest a single script may run before it is stopped. */
+const SCRIPT_TIMEOUT_MS = 1_000;
+
+/** The response, as the scripts see it. */
+interface ScriptResponse {
+  code: number;
+  status: string;
+  headers: Record<string, string>;
+  text: string;
+  responseTime: number;
+}
+
+// ---------------------------------------------------------------------------
+// Sandbox
+// ---------------------------------------------------------------------------
+
+/** Error for an API outside the supported subset. */
+function unsupported(api: string): Error {
+  return new Error(`[postman] ${api} is not supported by the Playwright runner — convert this request to a spec instead.`);
+}
+
+/**
+ * The host's side of the sandbox boundary. Everything crosses as JSON text:
+ * `state` carries the script and the request/response it sees, and `call`
+ * takes an operation name plus JSON-encoded arguments and answers with
+ * JSON `{ value }` or `{ error }`. No host object or function is ever
+ * handed to script code.
+ */
+interface SandboxHost {
+  state: string;
+  call: (operation: string, args: string) => string;
+}
+
+/** What a script run hands back to the host (as JSON). */
+interface SandboxOutcome {
+  /** tests["name"] = ... results, in assignment order */
+  legacy: [string, boolean][];
+  /** The error if the script threw outside a pm.test */
+  error?: string;
+}
+
+/** Global the sandbox installs to run the script; not writable or configurable. */
+const RUN_GLOBAL = '__postmanRun';
+
+/**
+ * Build the script-facing API — pm, console, postman, tests and the legacy
+ * globals — inside the script's V8 context.
+ *
+ * This function is serialized with toString() and compiled in that
+ * context, so every object, function and error a script can touch belongs
+ * to the sandbox realm: walking `.constructor` chains ends at the
+ * sandbox's own Function, which has no process or require. It must stay
+ * self-contained — no imports, no references to anything outside it.
+ */
+function installSandbox(host: SandboxHost): void {
+  'use strict';
+  const CHAINS = ['to', 'be', 'been', 'is', 'that', 'which', 'and', 'has', 'have', 'with', 'at', 'of', 'same', 'does', 'still', 'also'];
+  const state = JSON.parse(host.state) as {
+    script: string;
+    request: { url: string; method: string; headers: Record<string, string> };
+    response?: { code: number; status: string; headers: Record<string, string>; text: string; responseTime: number };
+  };
+  const evaluate = globalThis.eval;
+
+  // Values cross as JSON; tag the ones JSON cannot carry
+  const encode = (args: unknown[]) =>
+    JSON.stringify(args, function (this: Record<string, unknown>, key: string, value: unknown) {
+      const raw = this[key];
+      if (raw === undefined) return { $pm: 'undefined' };
+      if (typeof raw === 'number' && !Number.isFinite(raw)) return { $pm: 'number', value: String(raw) };
+      if (typeof raw === 'function') return { $pm: 'function' };
+      if (Object.prototype.toString.call(raw) === '[object RegExp]') {
+        return { $pm: 'regexp', source: (raw as RegExp).source, flags: (raw as RegExp).flags };
+      }
+      return value;
+    });
+  const call = (operation: string, ...args: unknown[]): unknown => {
+    const reply = JSON.parse(host.call(operation, encode(args))) as { value?: unknown; error?: string };
+    if (reply.error !== undefined) throw new Error(reply.error);
+    return reply.value;
+  };
+  const messageOf = (error: unknown) =>
+    error !== null && typeof error === 'object' && 'message' in error ? String((error as Error).message) : String(error);
+
+  const unsupported = (api: string) =>
+    new Error(`[postman] ${api} is not supported by the Playwright runner — convert this request to a spec instead.`);
+  // Reading a missing property throws instead of returning undefined
+  const strict = <T extends object>(target: T, name: string): T =>
+    new Proxy(target, {
+      get(object, property, receiver) {
+        if (typeof property === 'symbol' || property in object) return Reflect.get(object, property, receiver);
+        // Let `then` checks and JSON serialization see a plain object
+        if (property === 'then' || property === 'toJSON') return undefined;
+        throw unsupported(`${name}.${property}`);
+      },
+    });
+  const typeName = (value: unknown) => (value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value);
+  const check = (matcher: string, actual: unknown, negated: boolean, message: unknown, ...args: unknown[]) =>
+    call('expect', matcher, actual, negated, message, args);
+
+  // pm.expect: the common chai BDD assertions, checked by the host's expect
+  const chaiExpect = (actual: unknown, message?: unknown) => {
+    let negated = false;
+    let deep = false;
+    const chain: Record<string, unknown> = {};
+    const assert = (matcher: string, ...args: unknown[]) => (check(matcher, actual, negated, message, ...args), chain);
+    const getter = (name: string, get: () => unknown) => Object.defineProperty(chain, name, { get, enumerable: true });
+    const method = (names: string[], fn: (...args: unknown[]) => unknown) => names.forEach((name) => (chain[name] = fn));
+
+    CHAINS.forEach((word) => getter(word, () => chain));
+    getter('not', () => ((negated = !negated), chain));
+    getter('deep', () => ((deep = true), chain));
+
+    getter('true', () => assert('toBe', true));
+    getter('false', () => assert('toBe', false));
+    getter('null', () => assert('toBeNull'));
+    getter('undefined', () => assert('toBeUndefined'));
+    getter('NaN', () => assert('toBeNaN'));
+    getter('exist', () => assert('toExist'));
+    getter('ok', () => assert('toBeTruthy'));
+    getter('empty', () => (typeName(actual) === 'object' ? assert('toEqual', {}) : assert('toHaveLength', 0)));
+
+    method(['equal', 'equals', 'eq'], (value) => assert(deep ? 'toEqual' : 'toBe', value));
+    method(['eql', 'eqls'], (value) => assert('toEqual', value));
+    method(['include', 'includes', 'contain', 'contains'], (value) =>
+      assert(typeName(value) === 'object' ? 'toMatchObject' : 'toContain', value));
+    method(['property'], (...args) => (args.length > 1 ? assert('toHaveProperty', String(args[0]), args[1]) : assert('toHaveProperty', String(args[0]))));
+    method(['lengthOf', 'length'], (value) => assert('toHaveLength', Number(value)));
+    method(['above', 'gt', 'greaterThan'], (value) => assert('toBeGreaterThan', Number(value)));
+    method(['below', 'lt', 'lessThan'], (value) => assert('toBeLessThan', Number(value)));
+    method(['least', 'gte'], (value) => assert('toBeGreaterThanOrEqual', Number(value)));
+    method(['most', 'lte'], (value) => assert('toBeLessThanOrEqual', Number(value)));
+    method(['match'], (value) => assert('toMatch', value));
+    method(['a', 'an'], (type) => (check('toBe', typeName(actual), negated, message, String(type).toLowerCase()), chain));
+    method(['oneOf'], (list) => (check('toContain', list, negated, message, actual), chain));
+
+    return strict(chain, 'pm.expect(...)');
+  };
+
+  // pm.response, including the pm.response.to assertions
+  const scriptResponse = (response: NonNullable<typeof state.response>) => {
+    const json = () => JSON.parse(response.text) as unknown;
+    const is2xx = response.code >= 200 && response.code < 300;
+
+    let negated = false;
+    const to: Record<string, unknown> = {};
+    const getter = (name: string, get: () => unknown) => Object.defineProperty(to, name, { get, enumerable: true });
+    const assert = (actual: unknown, message: string | undefined, matcher: string, ...args: unknown[]) =>
+      (check(matcher, actual, negated, message, ...args), to);
+    CHAINS.forEach((word) => getter(word, () => to));
+    getter('not', () => ((negated = !negated), to));
+    getter('ok', () => assert(is2xx, 'response is 2xx', 'toBe', true));
+    getter('success', () => assert(is2xx, 'response is 2xx', 'toBe', true));
+    getter('notFound', () => assert(response.code, undefined, 'toBe', 404));
+    getter('json', () => assert(response.headers['content-type'] ?? '', undefined, 'toContain', 'json'));
+    to.status = (expected: unknown) =>
+      assert(typeof expected === 'number' ? response.code : response.status, 'response status', 'toBe', expected);
+    to.header = (name: unknown, ...value: unknown[]) => {
+      const key = String(name).toLowerCase();
+      return value.length
+        ? assert(response.headers[key], `header ${name}`, 'toBe', value[0])
+        : assert(response.headers, undefined, 'toHaveProperty', [key]);
+    };
+    to.body = (expected: unknown) => assert(response.text, 'response body', 'toBe', expected);
+    to.jsonBody = (...args: unknown[]) => {
+      if (args.length) throw unsupported('pm.response.to.have.jsonBody(path, value)');
+      let parsed = true;
+      try {
+        json();
+      } catch {
+        parsed = false;
+      }
+      return assert(parsed, 'response body is JSON', 'toBe', true);
+    };
+
+    return strict(
+      {
+        code: response.code,
+        status: response.status,
+        responseTime: response.responseTime,
+        headers: strict(
+          {
+            get: (name: unknown) => response.headers[String(name).toLowerCase()],
+            has: (name: unknown) => String(name).toLowerCase() in response.headers,
+          },
+          'pm.response.headers',
+        ),
+        json,
+        text: () => response.text,
+        to: strict(to, 'pm.response.to'),
+      },
+      'pm.response',
+    );
+  };
+
+  // pm.request as seen by pre-request scripts: URL, method and editable headers
+  const { request } = state;
+  const setHeader = (header: unknown, value?: unknown) => {
+    let key: string;
+    let text: string;
+    if (typeof header === 'string') {
+      const [name, ...rest] = header.split(':');
+      key = name.trim();
+      text = value === undefined ? rest.join(':').trim() : String(value);
+    } else {
+      const { key: name, value: headerValue } = header as { key: unknown; value?: unknown };
+      key = String(name);
+      text = headerValue === undefined ? '' : String(headerValue);
+    }
+    request.headers[key] = text;
+    call('setHeader', key, text);
+  };
+
+  const variableScope = (name: string) =>
+    strict(
+      {
+        get: (key: unknown) => call('get', String(key)),
+        set: (key: unknown, value: unknown) => call('set', String(key), typeof value === 'string' ? value : JSON.stringify(value)),
+        unset: (key: unknown) => call('unset', String(key)),
+        has: (key: unknown) => call('has', String(key)),
+        replaceIn: (template: unknown) => call('resolve', String(template)),
+      },
+      name,
+    );
+  const log = (...args: unknown[]) =>
+    call('log', args.map((arg) => (typeof arg === 'string' ? arg : JSON.stringify(arg))).join(' '));
+
+  const pm = strict(
+    {
+      test: (name: unknown, fn: () => void) => {
+        try {
+          fn();
+          call('assertion', String(name));
+        } catch (error) {
+          call('assertion', String(name), messageOf(error));
+        }
+      },
+      expect: chaiExpect,
+      environment: variableScope('pm.environment'),
+      variables: variableScope('pm.variables'),
+      collectionVariables: variableScope('pm.collectionVariables'),
+      globals: variableScope('pm.globals'),
+      request: strict(
+        {
+          url: request.url,
+          method: request.method,
+          headers: strict(
+            {
+              add: setHeader,
+              upsert: setHeader,
+              remove: (name: unknown) => {
+                delete request.headers[String(name)];
+                call('removeHeader', String(name));
+              },
+              get: (name: unknown) => request.headers[String(name)],
+            },
+            'pm.request.headers',
+          ),
+        },
+        'pm.request',
+      ),
+      ...(state.response ? { response: scriptResponse(state.response) } : {}),
+    },
+    'pm',
+  );
+
+  const tests: Record<string, unknown> = {};
+  const globals: Record<string, unknown> = {
+    pm,
+    tests,
+    console: { log, info: log, warn: log, error: log },
+    postman: strict(
+      {
+        getEnvironmentVariable: (key: unknown) => call('get', String(key)),
+        setEnvironmentVariable: (key: unknown, value: unknown) =>
+          call('set', String(key), typeof value === 'string' ? value : JSON.stringify(value)),
+      },
+      'postman',
+    ),
+    ...(state.response
+      ? { responseBody: state.response.text, responseCode: { code: state.response.code }, responseTime: state.response.responseTime }
+      : {}),
+  };
+  Object.assign(globalThis, globals);
+
+  // Runs the script as a global script (indirect eval) and reports back as JSON
+  const run = () => {
+    const outcome: SandboxOutcome = { legacy: [] };
+    try {
+      evaluate(state.script);
+    } catch (error) {
+      outcome.error = messageOf(error);
+    }
+    outcome.legacy = Object.keys(tests).map((name) => [name, Boolean(tests[name])]);
+    return JSON.stringify(outcome);
+  };
+  Object.defineProperty(globalThis, '__postmanRun', { value: run, writable: false, configurable: false });
+}
+
+/** Restore the values encode() in the sandbox tagged. */
+function decodeSandboxValue(_key: string, value: unknown): unknown {
+  if (value === null || typeof value !== 'object' || !('$pm' in value)) return value;
+  const tagged = value as { $pm: string; value?: string; source?: string; flags?: string };
+  switch (tagged.$pm) {
+    case 'undefined':
+      return undefined;
+    case 'number':
+      return Number(tagged.value);
+    case 'regexp':
+      return new RegExp(tagged.source ?? '', tagged.flags);
+    case 'function':
+      return function sandboxFunction() {};
+    default:
+      return value;
+  }
+}
+
+/** Playwright's expect, or its negation. */
+function expectOf(actual: unknown, negated: boolean, message?: string) {
+  const assertion = expect(actual, message);
+  return negated ? assertion.not : assertion;
+}
+
+/** Matchers pm.expect and pm.response.to may ask the host to run. */
+const SANDBOX_MATCHERS = new Set([
+  'toBe', 'toEqual', 'toMatchObject', 'toContain', 'toHaveProperty', 'toHaveLength', 'toMatch', 'toBeNull',
+  'toBeUndefined', 'toBeNaN', 'toBeTruthy', 'toBeGreaterThan', 'toBeLessThan', 'toBeGreaterThanOrEqual',
+  'toBeLessThanOrEqual',
+]);
+
+/** Run one assertion requested by the sandbox. */
+function runSandboxMatcher(matcher: string, actual: unknown, negated: boolean, message: string | undefined, args: unknown[]): void {
+  const assertion = expectOf(actual, negated, message);
+  if (matcher === 'toExist') {
+    assertion.toEqual(expect.anything());
+  } else if (SANDBOX_MATCHERS.has(matcher)) {
+    (assertion[matcher as keyof typeof assertion] as (...expected: unknown[]) => void)(...args);
+  } else {
+    throw new Error(`[postman] Unknown sandbox matcher ${matcher}`);
+  }
+}
+
+/**
+ * Run one script in a fresh V8 context.
+ *
+ * The context's global object has no prototype, and the API the script
+ * sees is built inside the context by installSandbox(); the host only
+ * answers JSON requests, so nothing a script reaches leads back to
+ * require or process.
+ *
+ * @returns pm.test results, and the error if the script threw outside a pm.test
+ */
+function runScript(
+  lines: string[],
+  vars: PostmanVariables,
+  output: string[],
+  request: { url: string; method: string; headers: Record<string, string> },
+  response?: ScriptResponse,
+): { assertions: PostmanAssertion[]; error?: string } {
+  const assertions: PostmanAssertion[] = [];
+  const operations: Record<string, (...args: never[]) => unknown> = {
+    get: (key: string) => vars.get(key),
+    set: (key: string, value: string | undefined) => vars.set(key, value),
+    unset: (key: string) => vars.unset(key),
+    has: (key: string) => vars.has(key),
+    resolve: (template: string) => vars.resolve(template),
+    log: (line: string) => void output.push(line),
+    setHeader: (key: string, value: string) => void (request.headers[key] = value),
+    removeHeader: (key: string) => void delete request.headers[key],
+    assertion: (name: string, error?: string) =>
+      void assertions.push(error === undefined ? { name } : { name, error: stripVTControlCharacters(error) }),
+    expect: (matcher: string, actual: unknown, negated: boolean, message: string | undefined, args: unknown[]) =>
+      runSandboxMatcher(matcher, actual, negated, message, args),
+  };
+  const host: SandboxHost = {
+    state: JSON.stringify({ script: lines.join('\n'), request, response }),
+    call: (operation, args) => {
+      try {
+        if (!Object.hasOwn(operations, operation)) throw new Error(`[postman] Unknown sandbox operation ${operation}`);
+        const value = operations[operation](...(JSON.parse(args, decodeSandboxValue) as never[]));
+        return JSON.stringify({ value });
+      } catch (error) {
+        return JSON.stringify({ error: stripVTControlCharacters((error as Error).message) });
+      }
+    },
+  };
+
+  const context = vm.createContext(Object.create(null));
+  const install = vm.runInContext(`(${installSandbox.toString()})`, context, { filename: 'postman-sandbox.js' }) as typeof installSandbox;
+  install(host);
+
+  let outcome: SandboxOutcome;
+  try {
+    outcome = JSON.parse(vm.runInContext(`${RUN_GLOBAL}()`, context, { timeout: SCRIPT_TIMEOUT_MS, filename: 'postman-script.js' }));
+  } catch (caught) {
+    // Only the host's own errors (e.g. the timeout) get here; script errors are reported in the outcome
+    outcome = { legacy: [], error: (caught as Error).message };
+  }
+
+  // Legacy sandbox: tests["name"] = boolean
+  for (const [name, passed] of outcome.legacy) {
+    assertions.push(passed ? { name } : { name, error: 'tests["..."] was false' });
+  }
+  return { assertions, error: outcome.error };
+}
+
+// ---------------------------------------------------------------------------
+// Requests
+// ---------------------------------------------------------------------------
+
+/** Auth headers for the supported auth types. */
+function authHeaders(scope: PostmanScope, vars: PostmanVariables): Record<string, string> {
+  const auth = scope.auth;
+  if (!auth || auth.type === 'noauth') return {};
+  const settings = keyValues(auth[auth.type] as PostmanKeyValue[] | undefined);
+
+  switch (auth.type) {
+    case 'bearer':
+      return { Authorization: `Bearer ${vars.resolve(settings.token ?? '')}` };
+    case 'basic': {
+      const credentials = vars.resolve(`${settings.username ?? ''}:${settings.password ?? ''}`);
+      return { Authorization: `Basic ${Buffer.from(credentials).toString('base64')}` };
+    }
+    case 'apikey':
+      if ((settings.in ?? 'header') === 'header') {
+        return { [vars.resolve(settings.key ?? 'X-Api-Key')]: vars.resolve(settings.value ?? '') };
+      }
+  }
+  throw unsupported(`"${auth.type}" auth${auth.type === 'apikey' ? ' in the query string' : ''}`);
+}
+
+/** The body options for a request, with variables resolved. */
+function bodyOptions(item: PostmanItem, vars: PostmanVariables): RequestOptions {
+  const body = requestOf(item).body;
+  const resolveAll = (values: Record<string, string>) =>
+    Object.fromEntries(Object.entries(values).map(([key, value]) => [key, vars.resolve(value)]));
+
+  switch (body?.mode) {
+    case undefined:
+      return {};
+    case 'raw':
+      return body.raw ? { data: vars.resolve(body.raw) } : {};
+    case 'urlencoded':
+      return { form: resolveAll(keyValues(body.urlencoded)) };
+    case 'formdata': {
+      const fields = (body.formdata ?? []).filter((field) => !field.disabled);
+      if (fields.some((field) => field.type === 'file')) throw unsupported('formdata file upload');
+      return { multipart: resolveAll(keyValues(fields)) };
+    }
+    case 'graphql':
+      return {
+        data: {
+          query: vars.resolve(body.graphql?.query ?? ''),
+          variables: body.graphql?.variables?.trim() ? JSON.parse(vars.resolve(body.graphql.variables)) : {},
+        },
+      };
+    default:
+      throw unsupported(`"${body?.mode}" request bodies`);
+  }
+}
+
+/**
+ * Run one request item: pre-request scripts, the request, then test scripts.
+ *
+ * Collection and folder scripts run before the item's own, as in Postman.
+ * A leading {{baseUrl}}-style variable is dropped so the request goes to
+ * apiContext's base URL (API_BASE_URL, or the stub server).
+ *
+ * @param item - The request item
+ * @param parent - Scope of the enclosing folder (or collection)
+ * @param context - The API context and the run's variables
+ * @returns Assertion results, script errors and console output
+ * @throws Error if the request itself cannot be sent (unsupported body/auth, undefined variable)
+ */
+export async function runPostmanRequest(
+  item: PostmanItem,
+  parent: PostmanScope,
+  { apiContext, vars }: PostmanRunContext,
+): Promise<PostmanRunResult> {
+  const scope = itemScope(parent, item);
+  const request = requestOf(item);
+  const result: PostmanRunResult = { assertions: [], scriptErrors: [], console: [] };
+
+  const outgoing = {
+    url: rawUrl(request.url),
+    method: (request.method ?? 'GET').toUpperCase(),
+    headers: { ...keyValues(request.header) },
+  };
+
+  if (scope.prerequest.length) {
+    const pre = runScript(scope.prerequest, vars, result.console, outgoing);
+    result.assertions.push(...pre.assertions);
+    if (pre.error) {
+      result.scriptErrors.push(`pre-request script: ${pre.error}`);
+      return result;
+    }
+  }
+
+  // Resolve after the pre-request script, so variables it sets apply
+  const url = vars.resolve(stripBaseUrl(outgoing.url, (name) => vars.get(name)));
+  const headers = {
+    ...authHeaders(scope, vars),
+    ...Object.fromEntries(Object.entries(outgoing.headers).map(([key, value]) => [key, vars.resolve(value)])),
+  };
+
+  const started = performance.now();
+  const response = await apiContext.fetch(url, { method: outgoing.method, headers, ...bodyOptions(item, vars) });
+  const scriptResponse: ScriptResponse = {
+    code: response.status(),
+    status: response.statusText(),
+    headers: response.headers(),
+    text: await response.text(),
+    responseTime: Math.round(performance.now() - started),
+  };
+  result.status = scriptResponse.code;
+
+  if (scope.test.length) {
+    const post = runScript(scope.test, vars, result.console, outgoing, scriptResponse);
+    result.assertions.push(...post.assertions);
+    if (post.error) result.scriptErrors.push(`test script: ${post.error}`);
+  }
+  return result;
+}
@@ -0,0 +1,83 @@
+import { APIRequestContext, APIResponse } from '@playwright/test';
+
+/**
+ * Request Interceptor
+ *
+ * Wraps an APIRequestContext so every request it sends (get, post, put,
+ * patch, delete, head, fetch) passes through one function. The retry
+ * policy and the traffic recorder are both built on this, and they compose:
+ * wrapping an already-wrapped context adds another layer.
+ *
+ * @example
+ *   const timed = interceptRequests(context, async ({ method, url, send }) => {
+ *     const started = Date.now();
+ *     const response = await send();
+ *     console.log(`${method} ${url} took ${Date.now() - started}ms`);
+ *     return response;
+ *   });
+ */
+
+/** Options accepted by every APIRequestContext request method. */
+export type RequestOptions = NonNullable<Parameters<APIRequestContext['fetch']>[1]>;
+
+/** One outgoing request, as seen by an interceptor. */
+export interface InterceptedRequest {
+  /** Upper-case HTTP method */
+  method: string;
+  /** The URL as passed by the caller (may be relative to baseURL) */
+  url: string;
+  /** The options as passed by the caller */
+  options: RequestOptions;
+  /** Send the request, optionally with changed options; may be called more than once */
+  send: (options?: RequestOptions) => Promise<APIResponse>;
+}
+
+/** Handles one request and returns the response the caller will see. */
+export type RequestInterceptor = (request: InterceptedRequest) => Promise<APIResponse>;
+
+type Verb = 'get' | 'post' | 'put' | 'patch' | 'delete' | 'head';
+
+const VERBS: Verb[] = ['get', 'post', 'put', 'patch', 'delete', 'head'];
+
+/**
+ * Route every request made through a context via an interceptor.
+ *
+ * Members other than the request methods (dispose, storageState) are passed
+ * through unchanged, so the result can be used anywhere a context can.
+ *
+ * @param context - The context to wrap
+ * @param interceptor - Called once per request
+ * @returns A context with the same API
+ */
+export function interceptRequests(context: APIRequestContext, interceptor: RequestInterceptor): APIRequestContext {
+  const wrapped: Partial<Record<Verb | 'fetch', unknown>> = {
+    fetch: (urlOrRequest: Parameters<APIRequestContext['fetch']>[0], options: RequestOptions = {}) => {
+      const isRequest = typeof urlOrRequest !== 'string';
+      return interceptor({
+        method: (options.method ?? (isRequest ? urlOrRequest.method() : 'GET')).toUpperCase(),
+        url: isRequest ? urlOrRequest.url() : urlOrRequest,
+        options,
+        send: (sendOptions = options) => context.fetch(urlOrRequest, sendOptions),
+      });
+    },
+  };
+  for (const verb of VERBS) {
+    wrapped[verb] = (url: string, options: RequestOptions = {}) =>
+      interceptor({
+        method: verb.toUpperCase(),
+        url,
+        options,
+        send: (sendOptions = options) => context[verb](url, sendOptions),
+      });
+  }
+
+  return new Proxy(context, {
+    get(target, property, receiver) {
+      if (typeof property === 'string' && property in wrapped) {
+        return wrapped[property as Verb | 'fetch'];
+      }
+      const value = Reflect.get(target, property, receiver);
+      return typeof value === 'function' ? value.bind(target) : value;
+    },
+  });
+}
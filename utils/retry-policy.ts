@@ -0,0 +1,164 @@
+import { APIRequestContext, APIResponse, test } from '@playwright/test';
+import { redactText } from './redaction';
+import { interceptRequests } from './request-interceptor';
+import { Timeouts } from './timeouts';
+
+/**
+ * API Retry Policy
+ *
+ * Wraps an APIRequestContext so transient failures (502/503/504, dropped
+ * connections) are retried with exponential backoff instead of failing an
+ * otherwise good test. Every attempt is recorded as a test step, and every
+ * retry as an `api-retry` annotation, so retries are visible in the HTML
+ * report rather than silently hiding a flaky backend.
+ *
+ * Only idempotent methods are retried by default — a retried POST could
+ * create a record twice.
+ *
+ * @example
+ *   const api = withRetryPolicy(context, { maxAttempts: 4, retryOnStatus: [503] });
+ *   const response = await api.get('/api/orders');  // up to 4 attempts
+ */
+
+/** Settings that control how requests are retried. */
+export interface RetryPolicy {
+  /** Total attempts, including the first one (1 disables retries) */
+  maxAttempts: number;
+  /** Response statuses that trigger a retry */
+  retryOnStatus: number[];
+  /** HTTP methods that may be retried (upper-case) */
+  retryMethods: string[];
+  /** Delay before the first retry; doubles on each further retry */
+  baseDelayMs: number;
+  /** Upper bound for any single delay, including Retry-After */
+  maxDelayMs: number;
+  /** Randomize each delay by up to this fraction (0 = none, 1 = full jitter) */
+  jitter: number;
+  /** Honour the Retry-After response header (seconds or HTTP date) */
+  respectRetryAfter: boolean;
+  /** Timeout for each attempt, unless the request sets its own */
+  timeoutMs: number;
+}
+
+/** Defaults: 3 attempts on gateway errors for idempotent methods. */
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  retryOnStatus: [502, 503, 504],
+  retryMethods: ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'],
+  baseDelayMs: 250,
+  maxDelayMs: Timeouts.SHORT,
+  jitter: 0.5,
+  respectRetryAfter: true,
+  timeoutMs: Timeouts.LONG,
+};
+
+/** Wait without blocking the event loop (not a page wait — no auto-waiting applies here). */
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/** Exponential backoff with jitter: base * 2^(retry-1), capped, then randomized down. */
+function backoffDelay(policy: RetryPolicy, retry: number): number {
+  const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (retry - 1));
+  return Math.round(exponential * (1 - policy.jitter * Math.random()));
+}
+
+/** Parse Retry-After as delta-seconds or an HTTP date; undefined if absent or invalid. */
+function retryAfterDelay(response: APIResponse): number | undefined {
+  const header = response.headers()['retry-after'];
+  if (!header) return undefined;
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/** Run `body` as a test step when inside a test; run it directly otherwise (e.g. global setup). */
+async function asStep<T>(title: string, body: () => Promise<T>): Promise<T> {
+  try {
+    test.info();
+  } catch {
+    return body();
+  }
+  return test.step(title, body, { box: true });
+}
+
+/** Record a retry as a test annotation so it shows up in the report. */
+function annotateRetry(description: string): void {
+  try {
+    test.info().annotations.push({ type: 'api-retry', description });
+  } catch {
+    // Outside a test — nothing to annotate
+  }
+}
+
+/**
+ * Send a request under a retry policy.
+ *
+ * @param policy - The resolved policy
+ * @param method - Upper-case HTTP method
+ * @param url - Request URL, used for step titles
+ * @param send - Performs one attempt
+ * @returns The last response received
+ * @throws The last network error, if the final attempt did not get a response
+ */
+async function sendWithRetry(
+  policy: RetryPolicy,
+  method: string,
+  url: string,
+  send: () => Promise<APIResponse>,
+): Promise<APIResponse> {
+  const maxAttempts = policy.retryMethods.includes(method) ? Math.max(1, policy.maxAttempts) : 1;
+
+  for (let attempt = 1; ; attempt++) {
+    const target = `${method} ${redactText(url)}`;
+    const title = maxAttempts > 1 ? `${target} (attempt ${attempt}/${maxAttempts})` : target;
+    let response: APIResponse | undefined;
+    let error: unknown;
+
+    try {
+      response = await asStep(title, send);
+    } catch (caught) {
+      error = caught;
+    }
+
+    const retryable = response ? policy.retryOnStatus.includes(response.status()) : true;
+    if (!retryable || attempt >= maxAttempts) {
+      if (response) return response;
+      throw error;
+    }
+
+    const retryAfter = response && policy.respectRetryAfter ? retryAfterDelay(response) : undefined;
+    const delay = Math.min(policy.maxDelayMs, retryAfter ?? backoffDelay(policy, attempt));
+    const reason = response ? `status ${response.status()}` : `error: ${(error as Error).message.split('\n')[0]}`;
+    annotateRetry(redactText(`${method} ${url} — ${reason}; retry ${attempt}/${maxAttempts - 1} in ${delay}ms`));
+
+    await sleep(delay);
+  }
+}
+
+/**
+ * Wrap an APIRequestContext with a retry, backoff and timeout policy.
+ *
+ * get/post/put/patch/delete/head/fetch go through the policy; every other
+ * member (dispose, storageState) is passed through unchanged.
+ *
+ * @param context - The context to wrap
+ * @param overrides - Policy settings to change from DEFAULT_RETRY_POLICY
+ * @returns A context with the same API
+ *
+ * @example
+ *   const api = withRetryPolicy(await playwright.request.newContext({ baseURL }), { maxAttempts: 5 });
+ */
+export function withRetryPolicy(
+  context: APIRequestContext,
+  overrides: Partial<RetryPolicy> = {},
+): APIRequestContext {
+  const policy: RetryPolicy = { ...DEFAULT_RETRY_POLICY, ...overrides };
+
+  return interceptRequests(context, ({ method, url, options, send }) =>
+    sendWithRetry(policy, method, url, () => send({ ...options, timeout: options?.timeout ?? policy.timeoutMs })),
+  );
+}
@@ -0,0 +1,64 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import type { FullConfig, Reporter, TestCase, TestResult } from '@playwright/test/reporter';
+import { SelectorDrift, formatSelectorDrift } from './locator-fallback';
+
+/** A drift and the tests it occurred in. */
+interface DriftSummary extends SelectorDrift {
+  tests: string[];
+}
+
+/**
+ * Selector Drift Reporter
+ *
+ * Collects the selector-drift.json attachments of every test (see
+ * utils/locator-fallback.ts) and, at the end of the run, prints one line
+ * per drifted selector and writes them all to
+ * test-results/selector-drift.json. An empty run writes nothing.
+ *
+ * Registered in playwright.config.ts; each entry names the page object
+ * element, the primary selector that stopped matching, the fallback that
+ * was used, and the tests affected.
+ */
+export default class SelectorDriftReporter implements Reporter {
+  private outputFile = 'test-results/selector-drift.json';
+  private readonly drifts = new Map<string, DriftSummary>();
+
+  onBegin(config: FullConfig): void {
+    this.outputFile = path.join(config.projects[0]?.outputDir ?? 'test-results', 'selector-drift.json');
+  }
+
+  onTestEnd(test: TestCase, result: TestResult): void {
+    for (const attachment of result.attachments) {
+      if (attachment.name !== 'selector-drift.json' || !attachment.body) continue;
+      for (const drift of JSON.parse(attachment.body.toString()) as SelectorDrift[]) {
+        const key = formatSelectorDrift(drift);
+        const summary = this.drifts.get(key) ?? { ...drift, tests: [] };
+        const title = test.titlePath().filter(Boolean).join(' › ');
+        if (!summary.tests.includes(title)) summary.tests.push(title);
+        this.drifts.set(key, summary);
+      }
+    }
+  }
+
+  onEnd(): void {
+    if (this.drifts.size === 0) return;
+
+    const drifts = [...this.drifts.values()];
+    fs.mkdirSync(path.dirname(this.outputFile), { recursive: true });
+    fs.writeFileSync(this.outputFile, `${JSON.stringify(drifts, null, 2)}\n`);
+
+    // eslint-disable-next-line no-console
+    console.warn(
+      [
+        `[selectors] ${drifts.length} selector(s) needed a fallback — fix the primary selectors:`,
+        ...drifts.map((drift) => `  ${formatSelectorDrift(drift)} (${drift.tests.length} test(s))`),
+        `  Details: ${this.outputFile}`,
+      ].join('\n'),
+    );
+  }
+
+  printsToStdio(): boolean {
+    return false;
+  }
+}
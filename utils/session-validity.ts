@@ -0,0 +1,177 @@
+import { APIRequest, BrowserContext } from '@playwright/test';
+import fs from 'node:fs';
+import path from 'node:path';
+import { decodeJwt } from './jwt';
+
+/**
+ * Session Validity Checks
+ *
+ * Decides whether a cached storage state (.auth/<role>.json) can be reused or
+ * the role must log in again. A session is checked by a list of pluggable
+ * checks that run in order; the first failing check marks it stale and its
+ * reason is reported.
+ *
+ * Built-in checks:
+ *   - notEmptyCheck       — the state has at least one cookie or localStorage entry
+ *   - cookieExpiryCheck   — no cookie's `expires` is in the past
+ *   - jwtExpiryCheck      — no JWT in origins[].localStorage expires within a margin
+ *   - whoamiCheck         — a "who am I" endpoint accepts the session (network call)
+ *
+ * Write your own check for app-specific rules: any function that receives
+ * the parsed state and returns { valid, reason }.
+ *
+ * @example
+ *   const verdict = await checkSession('.auth/admin.json', [
+ *     notEmptyCheck(),
+ *     cookieExpiryCheck(),
+ *     jwtExpiryCheck(60),
+ *   ]);
+ *   if (!verdict.valid) console.log(verdict.reason);
+ */
+
+/** The JSON written by context.storageState(). */
+export type StorageStateFile = Awaited<ReturnType<BrowserContext['storageState']>>;
+
+/** The outcome of a session check. */
+export interface SessionVerdict {
+  valid: boolean;
+  /** Human-readable explanation, logged by the setup project */
+  reason: string;
+}
+
+/** A single pluggable validity check. */
+export type SessionCheck = (state: StorageStateFile) => SessionVerdict | Promise<SessionVerdict>;
+
+/** Current time in Unix seconds (cookies and JWTs both use seconds). */
+function nowSeconds(): number {
+  return Date.now() / 1000;
+}
+
+/** Collect every JWT stored in localStorage, with where it was found. */
+function findJwts(state: StorageStateFile): { location: string; token: string; exp?: number }[] {
+  const found: { location: string; token: string; exp?: number }[] = [];
+  for (const { origin, localStorage } of state.origins ?? []) {
+    for (const { name, value } of localStorage ?? []) {
+      const decoded = decodeJwt(value);
+      if (decoded) {
+        found.push({ location: `${origin} localStorage["${name}"]`, token: value, exp: decoded.payload.exp });
+      }
+    }
+  }
+  return found;
+}
+
+/**
+ * Fail when the state holds no cookies and no localStorage entries
+ * (e.g. a placeholder saved before credentials were configured).
+ */
+export function notEmptyCheck(): SessionCheck {
+  return (state) => {
+    const hasCookies = (state.cookies ?? []).length > 0;
+    const hasStorage = (state.origins ?? []).some((origin) => (origin.localStorage ?? []).length > 0);
+    return hasCookies || hasStorage
+      ? { valid: true, reason: 'state has cookies or localStorage' }
+      : { valid: false, reason: 'state has no cookies and no localStorage' };
+  };
+}
+
+/** Fail when any cookie's `expires` is in the past (session cookies never expire here). */
+export function cookieExpiryCheck(): SessionCheck {
+  return (state) => {
+    const now = nowSeconds();
+    const expired = (state.cookies ?? []).find((cookie) => cookie.expires > 0 && cookie.expires < now);
+    return expired
+      ? { valid: false, reason: `cookie "${expired.name}" expired at ${new Date(expired.expires * 1000).toISOString()}` }
+      : { valid: true, reason: 'cookies not expired' };
+  };
+}
+
+/**
+ * Fail when any JWT in localStorage expires within `marginSeconds`.
+ *
+ * The margin keeps a token that is about to expire from being reused for a
+ * run that would outlive it.
+ *
+ * @param marginSeconds - How long before `exp` a token is treated as expired
+ */
+export function jwtExpiryCheck(marginSeconds: number): SessionCheck {
+  return (state) => {
+    const deadline = nowSeconds() + marginSeconds;
+    const tokens = findJwts(state);
+    const expiring = tokens.find((token) => token.exp !== undefined && token.exp < deadline);
+
+    if (expiring) {
+      return {
+        valid: false,
+        reason: `JWT in ${expiring.location} expires at ${new Date(expiring.exp! * 1000).toISOString()} ` +
+          `(within the ${marginSeconds}s margin)`,
+      };
+    }
+    return { valid: true, reason: tokens.length ? `${tokens.length} JWT(s) valid beyond ${marginSeconds}s` : 'no JWTs stored' };
+  };
+}
+
+/**
+ * Fail when a "who am I" endpoint rejects the session.
+ *
+ * Sends the cached cookies, plus the first stored JWT as a Bearer token, to
+ * the endpoint. Any non-2xx response (typically 401) marks the session stale.
+ *
+ * @param request - Playwright's APIRequest (the `playwright.request` fixture)
+ * @param endpoint - Path or URL of the endpoint (e.g. '/api/me')
+ * @param baseURL - Base URL the endpoint path resolves against
+ */
+export function whoamiCheck(request: APIRequest, endpoint: string, baseURL?: string): SessionCheck {
+  return async (state) => {
+    const [jwt] = findJwts(state);
+    const context = await request.newContext({
+      baseURL,
+      storageState: state,
+      extraHTTPHeaders: jwt ? { Authorization: `Bearer ${jwt.token}` } : {},
+    });
+
+    try {
+      const response = await context.get(endpoint);
+      return response.ok()
+        ? { valid: true, reason: `${endpoint} returned ${response.status()}` }
+        : { valid: false, reason: `${endpoint} returned ${response.status()} ${response.statusText()}` };
+    } catch (error) {
+      return { valid: false, reason: `${endpoint} request failed: ${(error as Error).message}` };
+    } finally {
+      await context.dispose();
+    }
+  };
+}
+
+/**
+ * Run checks against a cached storage state file.
+ *
+ * @param statePath - Path to the storage state file
+ * @param checks - Checks to run in order; the first failure wins
+ * @returns Whether the session can be reused, and why
+ */
+export async function checkSession(statePath: string, checks: SessionCheck[]): Promise<SessionVerdict> {
+  const fullPath = path.resolve(statePath);
+
+  if (!fs.existsSync(fullPath)) {
+    return { valid: false, reason: `no cached state at ${statePath}` };
+  }
+
+  let state: StorageStateFile;
+  try {
+    state = JSON.parse(fs.readFileSync(fullPath, 'utf-8'));
+  } catch {
+    return { valid: false, reason: `cached state at ${statePath} is not valid JSON` };
+  }
+
+  const reasons: string[] = [];
+  for (const check of checks) {
+    const verdict = await check(state);
+    if (!verdict.valid) {
+      return verdict;
+    }
+    reasons.push(verdict.reason);
+  }
+
+  return { valid: true, reason: reasons.join('; ') };
+}
@@ -0,0 +1,334 @@
+import { KeyObject, createHash, generateKeyPairSync, randomBytes, sign, verify } from 'node:crypto';
+import { JwtPayload, decodeJwt } from './jwt';
+import { StubRequest, StubResponse, StubServer } from './stub-server';
+
+/**
+ * Stub Identity Provider
+ *
+ * A local OpenID Connect provider for testing SSO without a real IdP. It
+ * runs on its own StubServer, signs RS256 JWTs with a key generated at
+ * start, and publishes the key as a JWKS, so apps under test can verify
+ * its tokens like any other issuer's.
+ *
+ * Endpoints (issuer = the server's URL):
+ *   - GET  /.well-known/openid-configuration   Discovery document
+ *   - GET  /jwks                               Public signing key
+ *   - GET  /authorize                          Authorization code + PKCE (S256); signs in
+ *                                              the `login_hint` user (or the default) at once
+ *   - POST /token                              authorization_code, client_credentials
+ *                                              and refresh_token grants
+ *   - GET  /userinfo                           Claims of the access token's user
+ *
+ * Users and clients are configurable; tokens carry the user's claims.
+ *
+ * @example
+ *   const idp = new StubIdentityProvider({
+ *     users: { admin: { email: 'admin@example.com', roles: ['admin'] } },
+ *   });
+ *   await idp.start();
+ *   const tokens = await clientCredentialsToken(request, {
+ *     issuer: idp.issuer, clientId: STUB_IDP_CLIENT.clientId, clientSecret: STUB_IDP_CLIENT.clientSecret,
+ *   });
+ *   await idp.stop();
+ */
+
+/** A client (relying party) registered with the stub IdP. */
+export interface StubIdpClient {
+  clientId: string;
+  /** Confidential clients authenticate with this; public clients (no secret) must use PKCE */
+  clientSecret?: string;
+  /** Allowed redirect URIs; omit to allow any */
+  redirectUris?: string[];
+}
+
+export interface StubIdpOptions {
+  /** Clients besides STUB_IDP_CLIENT */
+  clients?: StubIdpClient[];
+  /** Users by login name, with the claims their tokens carry (besides `sub`) */
+  users?: Record<string, Record<string, unknown>>;
+  /** User signed in when /authorize has no login_hint (default 'test-user') */
+  defaultUser?: string;
+  /** Access and ID token lifetime in seconds (default 3600) */
+  tokenTtlSeconds?: number;
+}
+
+/** The client every stub IdP accepts: confidential, any redirect URI. */
+export const STUB_IDP_CLIENT: Required<Omit<StubIdpClient, 'redirectUris'>> = {
+  clientId: 'playwright-tests',
+  clientSecret: 'stub-idp-secret',
+};
+
+/** An authorization code waiting to be exchanged at /token. */
+interface PendingCode {
+  clientId: string;
+  redirectUri: string;
+  user: string;
+  scope: string;
+  nonce?: string;
+  codeChallenge?: string;
+}
+
+const DEFAULT_USER = 'test-user';
+
+/** Claims about the token rather than the user, left out of /userinfo. */
+const TOKEN_CLAIMS = ['iss', 'iat', 'exp', 'aud', 'client_id', 'scope'];
+
+function base64url(value: string | Buffer): string {
+  return Buffer.from(value).toString('base64url');
+}
+
+/** An OAuth error response (RFC 6749 section 5.2). */
+function oauthError(error: string, description: string, status = 400): StubResponse {
+  return { status, body: { error, error_description: description } };
+}
+
+export class StubIdentityProvider {
+  private readonly server = new StubServer();
+  private readonly privateKey: KeyObject;
+  private readonly publicKey: KeyObject;
+  private readonly keyId = randomBytes(8).toString('hex');
+  private readonly clients = new Map<string, StubIdpClient>();
+  private readonly users = new Map<string, Record<string, unknown>>();
+  private readonly codes = new Map<string, PendingCode>();
+  private readonly refreshTokens = new Map<string, { clientId: string; user: string; scope: string }>();
+  private readonly defaultUser: string;
+  private readonly tokenTtlSeconds: number;
+  private readonly options: StubIdpOptions;
+
+  constructor(options: StubIdpOptions = {}) {
+    ({ privateKey: this.privateKey, publicKey: this.publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 }));
+    this.options = options;
+    this.defaultUser = options.defaultUser ?? DEFAULT_USER;
+    this.tokenTtlSeconds = options.tokenTtlSeconds ?? 3600;
+    this.reset();
+  }
+
+  /**
+   * Go back to the clients and users given to the constructor: clients and
+   * users added since are removed, replaced claims restored, and issued
+   * codes and refresh tokens forgotten. The stubIdp fixture calls this
+   * after every test.
+   */
+  reset(): void {
+    this.clients.clear();
+    this.users.clear();
+    this.codes.clear();
+    this.refreshTokens.clear();
+    for (const client of [STUB_IDP_CLIENT, ...(this.options.clients ?? [])]) {
+      this.registerClient(client);
+    }
+    this.setUser(this.defaultUser, { email: `${this.defaultUser}@example.com`, name: 'Test User' });
+    for (const [name, claims] of Object.entries(this.options.users ?? {})) {
+      this.setUser(name, claims);
+    }
+  }
+
+  /**
+   * The issuer URL (the server's base URL).
+   *
+   * @throws Error if the IdP has not been started
+   */
+  get issuer(): string {
+    return this.server.url;
+  }
+
+  /**
+   * Start listening on 127.0.0.1.
+   *
+   * @param port - Port to bind; 0 (default) picks a free port
+   * @returns The issuer URL
+   */
+  async start(port = 0): Promise<string> {
+    const url = await this.server.start(port);
+    this.server.route({ method: 'GET', path: '/.well-known/openid-configuration', handler: () => ({ body: this.discovery() }) });
+    this.server.route({ method: 'GET', path: '/jwks', handler: () => ({ body: { keys: [this.jwk()] } }) });
+    this.server.route({ method: 'GET', path: '/authorize', handler: (request) => this.authorize(request) });
+    this.server.route({ method: 'POST', path: '/token', handler: (request) => this.token(request) });
+    this.server.route({ method: 'GET', path: '/userinfo', handler: (request) => this.userinfo(request) });
+    return url;
+  }
+
+  /** Stop the server. Issued codes and refresh tokens are forgotten. */
+  async stop(): Promise<void> {
+    this.codes.clear();
+    this.refreshTokens.clear();
+    await this.server.stop();
+  }
+
+  /** Register (or replace) a client. */
+  registerClient(client: StubIdpClient): void {
+    this.clients.set(client.clientId, client);
+  }
+
+  /**
+   * Add a user, or replace a user's claims, until the next reset(). `sub`
+   * defaults to the login name.
+   *
+   * @example
+   *   idp.setUser('admin', { email: 'admin@example.com', roles: ['admin'] });
+   */
+  setUser(name: string, claims: Record<string, unknown>): void {
+    this.users.set(name, { sub: name, ...claims });
+  }
+
+  /**
+   * Sign a JWT with the IdP's key. iss, iat and exp are filled in unless
+   * the claims set them.
+   *
+   * @param claims - Payload claims
+   * @returns A compact RS256 JWT
+   */
+  signJwt(claims: Record<string, unknown>): string {
+    const now = Math.floor(Date.now() / 1000);
+    const header = { alg: 'RS256', typ: 'JWT', kid: this.keyId };
+    const payload = { iss: this.issuer, iat: now, exp: now + this.tokenTtlSeconds, ...claims };
+    const signingInput = `${base64url(JSON.stringify(header))}.${base64url(JSON.stringify(payload))}`;
+    const signature = sign('RSA-SHA256', Buffer.from(signingInput), this.privateKey);
+    return `${signingInput}.${base64url(signature)}`;
+  }
+
+  /**
+   * Verify a JWT this IdP signed and that has not expired.
+   *
+   * @returns The payload, or null if the signature, issuer or expiry is wrong
+   */
+  verifyJwt(token: string): JwtPayload | null {
+    const decoded = decodeJwt(token);
+    const [header, payload, signature = ''] = token.trim().replace(/^Bearer\s+/i, '').split('.');
+    if (!decoded || !verify('RSA-SHA256', Buffer.from(`${header}.${payload}`), this.publicKey, Buffer.from(signature, 'base64url'))) {
+      return null;
+    }
+    const { iss, exp } = decoded.payload;
+    return iss === this.issuer && (exp ?? Infinity) > Date.now() / 1000 ? decoded.payload : null;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Endpoints
+  // ---------------------------------------------------------------------------
+
+  private discovery(): Record<string, unknown> {
+    return {
+      issuer: this.issuer,
+      authorization_endpoint: `${this.issuer}/authorize`,
+      token_endpoint: `${this.issuer}/token`,
+      userinfo_endpoint: `${this.issuer}/userinfo`,
+      jwks_uri: `${this.issuer}/jwks`,
+      response_types_supported: ['code'],
+      grant_types_supported: ['authorization_code', 'client_credentials', 'refresh_token'],
+      code_challenge_methods_supported: ['S256'],
+      subject_types_supported: ['public'],
+      id_token_signing_alg_values_supported: ['RS256'],
+      token_endpoint_auth_methods_supported: ['client_secret_basic', 'client_secret_post', 'none'],
+    };
+  }
+
+  private jwk(): Record<string, unknown> {
+    return { ...this.publicKey.export({ format: 'jwk' }), kid: this.keyId, alg: 'RS256', use: 'sig' };
+  }
+
+  private authorize({ query }: StubRequest): StubResponse {
+    const client = this.clients.get(query.client_id ?? '');
+    const redirectUri = query.redirect_uri ?? '';
+    // Never redirect to an unverified URI: answer these errors directly
+    if (!client) return oauthError('invalid_client', `Unknown client_id "${query.client_id}"`);
+    if (!redirectUri || (client.redirectUris && !client.redirectUris.includes(redirectUri))) {
+      return oauthError('invalid_request', `redirect_uri "${redirectUri}" is not registered for ${client.clientId}`);
+    }
+
+    const redirect = new URL(redirectUri);
+    if (query.state) redirect.searchParams.set('state', query.state);
+    const fail = (error: string, description: string): StubResponse => {
+      redirect.searchParams.set('error', error);
+      redirect.searchParams.set('error_description', description);
+      return { status: 302, headers: { Location: redirect.href } };
+    };
+
+    if (query.response_type !== 'code') return fail('unsupported_response_type', 'Only response_type=code is supported');
+    if (query.code_challenge && query.code_challenge_method !== 'S256') {
+      return fail('invalid_request', 'code_challenge_method must be S256');
+    }
+    if (!client.clientSecret && !query.code_challenge) return fail('invalid_request', 'Public clients must use PKCE');
+    const user = query.login_hint ?? this.defaultUser;
+    if (!this.users.has(user)) return fail('access_denied', `Unknown user "${user}"`);
+
+    const code = randomBytes(16).toString('base64url');
+    this.codes.set(code, {
+      clientId: client.clientId,
+      redirectUri,
+      user,
+      scope: query.scope ?? 'openid',
+      nonce: query.nonce,
+      codeChallenge: query.code_challenge,
+    });
+    redirect.searchParams.set('code', code);
+    return { status: 302, headers: { Location: redirect.href } };
+  }
+
+  private token(request: StubRequest): StubResponse {
+    const form = Object.fromEntries(new URLSearchParams(request.body));
+    const [basicId, basicSecret] = request.headers.Authorization?.startsWith('Basic ')
+      ? Buffer.from(request.headers.Authorization.slice(6), 'base64').toString().split(':').map(decodeURIComponent)
+      : [];
+    const clientId = basicId ?? form.client_id;
+    const clientSecret = basicSecret ?? form.client_secret;
+
+    const client = this.clients.get(clientId ?? '');
+    if (!client) return oauthError('invalid_client', `Unknown client_id "${clientId}"`, 401);
+    if (client.clientSecret && client.clientSecret !== clientSecret) {
+      return oauthError('invalid_client', 'Client authentication failed', 401);
+    }
+
+    switch (form.grant_type) {
+      case 'authorization_code': {
+        const pending = this.codes.get(form.code ?? '');
+        this.codes.delete(form.code ?? '');
+        if (!pending || pending.clientId !== client.clientId) return oauthError('invalid_grant', 'Unknown or used authorization code');
+        if (pending.redirectUri !== form.redirect_uri) return oauthError('invalid_grant', 'redirect_uri does not match the authorization request');
+        if (pending.codeChallenge) {
+          const challenge = createHash('sha256').update(form.code_verifier ?? '').digest('base64url');
+          if (challenge !== pending.codeChallenge) return oauthError('invalid_grant', 'PKCE verification failed');
+        }
+        return { body: this.userTokens(client.clientId, pending.user, pending.scope, pending.nonce) };
+      }
+
+      case 'refresh_token': {
+        const grant = this.refreshTokens.get(form.refresh_token ?? '');
+        this.refreshTokens.delete(form.refresh_token ?? '');
+        if (!grant || grant.clientId !== client.clientId) return oauthError('invalid_grant', 'Unknown or used refresh token');
+        return { body: this.userTokens(client.clientId, grant.user, grant.scope) };
+      }
+
+      case 'client_credentials': {
+        if (!client.clientSecret) return oauthError('unauthorized_client', 'Public clients cannot use client_credentials');
+        const scope = form.scope ?? '';
+        const accessToken = this.signJwt({ sub: client.clientId, aud: form.audience ?? client.clientId, client_id: client.clientId, scope });
+        return { body: { access_token: accessToken, token_type: 'Bearer', expires_in: this.tokenTtlSeconds, scope } };
+      }
+
+      default:
+        return oauthError('unsupported_grant_type', `grant_type "${form.grant_type}" is not supported`);
+    }
+  }
+
+  /** Access, ID and refresh tokens for a signed-in user. */
+  private userTokens(clientId: string, user: string, scope: string, nonce?: string): Record<string, unknown> {
+    const claims = this.users.get(user) ?? { sub: user };
+    const refreshToken = randomBytes(24).toString('base64url');
+    this.refreshTokens.set(refreshToken, { clientId, user, scope });
+    return {
+      access_token: this.signJwt({ ...claims, aud: clientId, client_id: clientId, scope }),
+      id_token: scope.split(' ').includes('openid') ? this.signJwt({ ...claims, aud: clientId, ...(nonce && { nonce }) }) : undefined,
+      refresh_token: refreshToken,
+      token_type: 'Bearer',
+      expires_in: this.tokenTtlSeconds,
+      scope,
+    };
+  }
+
+  private userinfo(request: StubRequest): StubResponse {
+    const payload = this.verifyJwt(request.headers.Authorization ?? '');
+    if (!payload) return oauthError('invalid_token', 'Missing, invalid or expired access token', 401);
+    const claims = Object.entries(payload).filter(([name]) => !TOKEN_CLAIMS.includes(name));
+    return { body: Object.fromEntries(claims) };
+  }
+}
@@ -0,0 +1,319 @@
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+
+/**
+ * Stub API Server
+ *
+ * A small, in-process HTTP server that mimics the httpbin.org endpoints the
+ * example API specs use. It lets the API project run hermetically — no public
+ * internet, no shared test environment — and is started automatically by the
+ * `sharedStubServer` worker fixture and used whenever API_BASE_URL is not set.
+ *
+ * Built-in endpoints:
+ *   - GET    /get                 Echo args, headers, origin and url
+ *   - POST   /post (PUT, PATCH)   Echo the above plus data, json and form
+ *   - DELETE /delete              Echo the request
+ *   - ANY    /anything[/...]      Echo any method on any sub-path
+ *   - ANY    /status/:code        Respond with the given status code
+ *   - GET    /delay/:seconds      Echo after a delay (max 10 seconds)
+ *   - GET    /headers             Echo the request headers
+ *   - GET    /json, /html, /xml   Fixed JSON and non-JSON bodies
+ *
+ * Tests can register their own routes on top of these. Custom routes are
+ * matched first, in registration order, and are cleared between tests.
+ *
+ * @example
+ *   const server = new StubServer();
+ *   await server.start();
+ *   server.route({ method: 'GET', path: '/api/health', body: { status: 'ok' } });
+ *   // ... GET `${server.url}/api/health` → 200 {"status":"ok"}
+ *   await server.stop();
+ */
+
+/** Request details passed to custom route handlers. */
+export interface StubRequest {
+  method: string;
+  path: string;
+  query: Record<string, string>;
+  headers: Record<string, string>;
+  body: string;
+}
+
+/** Response returned by a custom route handler. */
+export interface StubResponse {
+  status?: number;
+  headers?: Record<string, string>;
+  /** Objects and arrays are sent as JSON; strings are sent as-is. */
+  body?: unknown;
+}
+
+/** A declarative route registered on the stub server. */
+export interface StubRoute extends StubResponse {
+  /** HTTP method to match. Omit to match any method. */
+  method?: string;
+  /** Exact path (e.g. '/api/users') or a RegExp tested against the path. */
+  path: string | RegExp;
+  /** Delay in milliseconds before responding (simulates a slow backend). */
+  delayMs?: number;
+  /** Compute the response dynamically. Takes precedence over status/headers/body. */
+  handler?: (request: StubRequest) => StubResponse | Promise<StubResponse>;
+}
+
+/**
+ * Routes keyed by 'METHOD /path' (or just '/path' to match any method).
+ *
+ * @example
+ *   { 'GET /api/health': { body: { status: 'ok' } }, '/api/flaky': { status: 503 } }
+ */
+export type StubRouteTable = Record<string, Omit<StubRoute, 'method' | 'path'>>;
+
+/** Longest delay /delay/:seconds will honour, mirroring httpbin's cap. */
+const MAX_DELAY_SECONDS = 10;
+
+const HTML_BODY = `<!DOCTYPE html>
+<html lang="en">
+  <head><title>Stub API</title></head>
+  <body><h1>Stub API</h1><p>Bundled stub server for hermetic API tests.</p></body>
+</html>`;
+
+const XML_BODY = `<?xml version="1.0" encoding="utf-8"?>
+<slideshow title="Sample Slide Show" author="Test User">
+  <slide type="all"><title>Stub API</title></slide>
+</slideshow>`;
+
+/** Convert 'content-type' to 'Content-Type' to match httpbin's echo format. */
+function titleCase(headerName: string): string {
+  return headerName.replace(/(^|-)([a-z])/g, (_, sep: string, ch: string) => sep + ch.toUpperCase());
+}
+
+/** Wait without blocking the event loop. */
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/** Read the full request body as a UTF-8 string. */
+function readBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf-8')));
+    req.on('error', reject);
+  });
+}
+
+/** Write a StubResponse, serialising object bodies as JSON. */
+function send(res: http.ServerResponse, response: StubResponse): void {
+  const headers: Record<string, string> = { ...response.headers };
+  const hasContentType = Object.keys(headers).some((name) => name.toLowerCase() === 'content-type');
+  let payload = '';
+
+  if (typeof response.body === 'string') {
+    payload = response.body;
+    if (!hasContentType) headers['Content-Type'] = 'text/plain; charset=utf-8';
+  } else if (response.body !== undefined) {
+    payload = JSON.stringify(response.body, null, 2);
+    if (!hasContentType) headers['Content-Type'] = 'application/json';
+  }
+
+  res.writeHead(response.status ?? 200, headers);
+  res.end(payload);
+}
+
+export class StubServer {
+  private server: http.Server | null = null;
+  private routes: StubRoute[] = [];
+  private baseUrl = '';
+
+  /**
+   * The base URL of the running server (e.g. 'http://127.0.0.1:49152').
+   *
+   * @throws Error if the server has not been started
+   */
+  get url(): string {
+    if (!this.server) {
+      throw new Error('[stub] Server is not running. Call start() first.');
+    }
+    return this.baseUrl;
+  }
+
+  /**
+   * Start listening on 127.0.0.1.
+   *
+   * @param port - Port to bind; 0 (default) picks a free port so parallel workers never collide
+   * @returns The base URL of the running server
+   */
+  async start(port = 0): Promise<string> {
+    if (this.server) {
+      return this.baseUrl;
+    }
+
+    const server = http.createServer((req, res) => {
+      this.handle(req, res).catch((error: unknown) => {
+        send(res, { status: 500, body: { error: String(error) } });
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, '127.0.0.1', () => resolve());
+    });
+
+    const { port: boundPort } = server.address() as AddressInfo;
+    this.server = server;
+    this.baseUrl = `http://127.0.0.1:${boundPort}`;
+    return this.baseUrl;
+  }
+
+  /** Stop the server and drop all custom routes. */
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) {
+      return;
+    }
+
+    this.server = null;
+    this.routes = [];
+    server.closeAllConnections();
+    await new Promise<void>((resolve, reject) => {
+      server.close((error) => (error ? reject(error) : resolve()));
+    });
+  }
+
+  /**
+   * Register a custom route. Custom routes are matched before the built-in
+   * endpoints, in the order they were registered.
+   *
+   * @param route - The route to register
+   *
+   * @example
+   *   server.route({ method: 'POST', path: '/api/users', status: 201, body: { id: 1 } });
+   *   server.route({ path: /^\/api\/users\/\d+$/, handler: (req) => ({ body: { path: req.path } }) });
+   */
+  route(route: StubRoute): void {
+    this.routes.push(route);
+  }
+
+  /**
+   * Register every route in a route table, in key order.
+   *
+   * @param table - Routes keyed by 'METHOD /path' or '/path'
+   *
+   * @example
+   *   server.addRoutes({ 'GET /api/health': { body: { status: 'ok' } } });
+   */
+  addRoutes(table: StubRouteTable): void {
+    for (const [key, route] of Object.entries(table)) {
+      const [first, second] = key.trim().split(/\s+/);
+      const [method, path] = second === undefined ? [undefined, first] : [first, second];
+      this.route({ ...route, method, path });
+    }
+  }
+
+  /** Remove all custom routes, leaving only the built-in endpoints. */
+  resetRoutes(): void {
+    this.routes = [];
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? '/', this.baseUrl);
+    const headers: Record<string, string> = {};
+    for (const [name, value] of Object.entries(req.headers)) {
+      if (value !== undefined) {
+        headers[titleCase(name)] = Array.isArray(value) ? value.join(', ') : value;
+      }
+    }
+
+    const request: StubRequest = {
+      method: (req.method ?? 'GET').toUpperCase(),
+      path: url.pathname,
+      query: Object.fromEntries(url.searchParams),
+      headers,
+      body: await readBody(req),
+    };
+
+    const custom = this.routes.find((route) => {
+      const methodMatches = !route.method || route.method.toUpperCase() === request.method;
+      const pathMatches = typeof route.path === 'string'
+        ? route.path === request.path
+        : route.path.test(request.path);
+      return methodMatches && pathMatches;
+    });
+
+    if (custom) {
+      if (custom.delayMs) {
+        await delay(custom.delayMs);
+      }
+      send(res, custom.handler ? await custom.handler(request) : custom);
+      return;
+    }
+
+    send(res, await this.builtIn(request, req.socket.remoteAddress ?? '127.0.0.1'));
+  }
+
+  /** Dispatch to the httpbin-compatible built-in endpoints. */
+  private async builtIn(request: StubRequest, origin: string): Promise<StubResponse> {
+    const { method, path } = request;
+    const echo: Record<string, unknown> = {
+      args: request.query,
+      headers: request.headers,
+      origin,
+      url: `${this.baseUrl}${path}${Object.keys(request.query).length ? `?${new URLSearchParams(request.query)}` : ''}`,
+    };
+
+    const statusMatch = path.match(/^\/status\/(\d{3})$/);
+    if (statusMatch) {
+      return { status: Number(statusMatch[1]) };
+    }
+
+    const delayMatch = path.match(/^\/delay\/(\d+(?:\.\d+)?)$/);
+    if (delayMatch && method === 'GET') {
+      await delay(Math.min(Number(delayMatch[1]), MAX_DELAY_SECONDS) * 1000);
+      return { body: echo };
+    }
+
+    const bodyMethods: Record<string, string> = { '/post': 'POST', '/put': 'PUT', '/patch': 'PATCH', '/delete': 'DELETE' };
+    if (bodyMethods[path] === method || path === '/anything' || path.startsWith('/anything/')) {
+      return { body: { ...echo, method, ...this.parseBody(request) } };
+    }
+
+    if (method !== 'GET') {
+      return bodyMethods[path] || path === '/get'
+        ? { status: 405, body: { error: `Method ${method} not allowed on ${path}` } }
+        : { status: 404, body: { error: `No stub route for ${method} ${path}` } };
+    }
+
+    switch (path) {
+      case '/get':
+        return { body: echo };
+      case '/headers':
+        return { body: { headers: request.headers } };
+      case '/json':
+        return { body: { slideshow: { author: 'Test User', title: 'Sample Slide Show', slides: [] } } };
+      case '/html':
+        return { headers: { 'Content-Type': 'text/html; charset=utf-8' }, body: HTML_BODY };
+      case '/xml':
+        return { headers: { 'Content-Type': 'application/xml' }, body: XML_BODY };
+      default:
+        return { status: 404, body: { error: `No stub route for ${method} ${path}` } };
+    }
+  }
+
+  /** Split a request body into httpbin's data/json/form fields. */
+  private parseBody(request: StubRequest): { data: string; json: unknown; form: Record<string, string> } {
+    const contentType = request.headers['Content-Type'] ?? '';
+    let json: unknown = null;
+    let form: Record<string, string> = {};
+
+    if (contentType.includes('application/x-www-form-urlencoded')) {
+      form = Object.fromEntries(new URLSearchParams(request.body));
+    } else if (request.body) {
+      try {
+        json = JSON.parse(request.body);
+      } catch {
+        json = null;
+      }
+    }
+
+    return { data: request.body, json, form };
+  }
+}
@@ -0,0 +1,160 @@
+import { APIRequestContext, APIResponse } from '@playwright/test';
+import { redactHeaders, redactText } from './redaction';
+import { RequestOptions, interceptRequests } from './request-interceptor';
+
+/**
+ * HTTP Traffic Recorder
+ *
+ * Captures every request sent through a wrapped APIRequestContext — method,
+ * URL, headers, bodies, status and timing — so a failed API test comes with
+ * the full exchange instead of whatever logResponse() calls happened to be
+ * in the test. Entries are written as NDJSON: one JSON object per line.
+ * Secrets are redacted as each entry is recorded (see utils/redaction.ts).
+ *
+ * The fixtures wire this up for `apiContext` and `page.request`; turn it on
+ * with RECORD_TRAFFIC (or the `trafficRecording` option). Like the video
+ * setting, 'retain-on-failure' keeps the log only for failed tests.
+ *
+ * @example
+ *   const recorder = new TrafficRecorder('on');
+ *   const api = recorder.record(context, 'setup');
+ *   await api.get('/api/health');
+ *   fs.writeFileSync('traffic.ndjson', recorder.toNdjson());
+ */
+
+/** When recorded traffic is attached: never, always, or only for failed tests. */
+export type TrafficMode = 'off' | 'on' | 'retain-on-failure';
+
+/** One recorded request/response exchange. */
+export interface TrafficEntry {
+  /** Which context sent the request (e.g. 'apiContext', 'page.request') */
+  source: string;
+  /** When the request started (ISO 8601) */
+  startedAt: string;
+  /** Time until the response body was received */
+  durationMs: number;
+  method: string;
+  /** The resolved URL when a response arrived; otherwise the URL as passed */
+  url: string;
+  /** Response status; undefined if the request failed without a response */
+  status?: number;
+  request: {
+    /** Headers passed with the request, plus the context's default headers */
+    headers: Record<string, string>;
+    body?: string;
+  };
+  response?: {
+    headers: Record<string, string>;
+    body?: string;
+  };
+  /** Network or timeout error, if the request failed without a response */
+  error?: string;
+}
+
+/** Bodies longer than this are truncated in the log. */
+const MAX_BODY_CHARS = 64 * 1024;
+
+/** Content types logged as text; anything else is summarized. */
+const TEXT_CONTENT_TYPE = /^text\/|[/+](json|xml|javascript)\b|x-www-form-urlencoded/;
+
+/** Redact a body, then cut it down to MAX_BODY_CHARS, noting how much was dropped. */
+function truncate(body: string): string {
+  const text = redactText(body);
+  return text.length > MAX_BODY_CHARS
+    ? `${text.slice(0, MAX_BODY_CHARS)}… [truncated ${text.length - MAX_BODY_CHARS} chars]`
+    : text;
+}
+
+/** Describe the request body as it will be sent. */
+function describeRequestBody(options: RequestOptions): string | undefined {
+  const fieldNames = (fields: object) => (fields instanceof FormData ? [...fields.keys()] : Object.keys(fields));
+
+  if (options.multipart !== undefined) {
+    return `[multipart: ${fieldNames(options.multipart).join(', ')}]`;
+  }
+  if (options.form !== undefined) {
+    if (options.form instanceof FormData) return `[form: ${fieldNames(options.form).join(', ')}]`;
+    const entries = Object.entries(options.form).map(([key, value]) => [key, String(value)]);
+    return truncate(new URLSearchParams(entries).toString());
+  }
+
+  const data = options.data;
+  if (data === undefined) return undefined;
+  if (Buffer.isBuffer(data)) return `[binary ${data.length} bytes]`;
+  return truncate(typeof data === 'string' ? data : JSON.stringify(data));
+}
+
+/** Read the response body as text, or summarize it if it is binary. */
+async function describeResponseBody(response: APIResponse): Promise<string | undefined> {
+  const buffer = await response.body();
+  if (buffer.length === 0) return undefined;
+
+  const contentType = response.headers()['content-type'] ?? '';
+  if (contentType && !TEXT_CONTENT_TYPE.test(contentType)) {
+    return `[binary ${buffer.length} bytes, ${contentType}]`;
+  }
+  return truncate(buffer.toString('utf-8'));
+}
+
+/** Records exchanges from any number of contexts into one log. */
+export class TrafficRecorder {
+  /** Recorded exchanges, in the order the requests started */
+  readonly entries: TrafficEntry[] = [];
+
+  /**
+   * @param mode - 'off' makes record() a no-op, so a disabled recorder costs nothing
+   */
+  constructor(readonly mode: TrafficMode = 'on') {}
+
+  /**
+   * Record every request sent through a context.
+   *
+   * @param context - The context to wrap
+   * @param source - Label stored on each entry
+   * @param defaultHeaders - The context's extraHTTPHeaders, which the request options don't show
+   * @returns A context with the same API (the context itself when mode is 'off')
+   */
+  record(context: APIRequestContext, source: string, defaultHeaders: Record<string, string> = {}): APIRequestContext {
+    if (this.mode === 'off') {
+      return context;
+    }
+
+    return interceptRequests(context, async ({ method, url, options, send }) => {
+      const entry: TrafficEntry = {
+        source,
+        startedAt: new Date().toISOString(),
+        durationMs: 0,
+        method,
+        url: redactText(url),
+        request: {
+          headers: redactHeaders({ ...defaultHeaders, ...options.headers }),
+          body: describeRequestBody(options),
+        },
+      };
+      this.entries.push(entry);
+
+      const started = performance.now();
+      try {
+        const response = await send();
+        entry.url = redactText(response.url());
+        entry.status = response.status();
+        entry.response = { headers: redactHeaders(response.headers()), body: await describeResponseBody(response) };
+        return response;
+      } catch (error) {
+        entry.error = redactText((error as Error).message.split('\n')[0]);
+        throw error;
+      } finally {
+        entry.durationMs = Math.round(performance.now() - started);
+      }
+    });
+  }
+
+  /**
+   * Serialize the log as NDJSON (one entry per line).
+   *
+   * @returns The log, or an empty string if nothing was recorded
+   */
+  toNdjson(): string {
+    return this.entries.map((entry) => `${JSON.stringify(entry)}\n`).join('');
+  }
+}
@@ -0,0 +1,72 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import type { FullConfig, Reporter, TestCase, TestResult } from '@playwright/test/reporter';
+import { VISUAL_CHANGES_FILE, VisualChange } from './visual';
+
+/**
+ * Visual Changes Reporter
+ *
+ * Collects the screenshots that did not match their baselines — from the
+ * -expected/-actual/-diff attachments toHaveScreenshot() adds on failure —
+ * and writes them to test-results/visual-changes.json at the end of the
+ * run, for `npm run visual:review`. A run without changes writes nothing.
+ *
+ * Registered in playwright.config.ts. Only the last attempt of a retried
+ * test counts, so a screenshot that matched on retry is not listed.
+ */
+export default class VisualReporter implements Reporter {
+  private outputFile = path.join('test-results', VISUAL_CHANGES_FILE);
+  // Keyed by test, then baseline path
+  private readonly changes = new Map<string, Map<string, VisualChange>>();
+
+  onBegin(config: FullConfig): void {
+    this.outputFile = path.join(config.projects[0]?.outputDir ?? 'test-results', VISUAL_CHANGES_FILE);
+  }
+
+  onTestEnd(test: TestCase, result: TestResult): void {
+    const found = new Map<string, VisualChange>();
+    if (result.status !== 'passed') {
+      // Group the attachments of each screenshot: home-expected.png, home-actual.png, home-diff.png
+      const images = new Map<string, Partial<Record<'expected' | 'actual' | 'diff', string>>>();
+      for (const attachment of result.attachments) {
+        const match = attachment.name.match(/^(.*)-(expected|actual|diff)(\.png)$/);
+        if (!match || !attachment.path) continue;
+        const name = `${match[1]}${match[3]}`;
+        images.set(name, { ...images.get(name), [match[2]]: attachment.path });
+      }
+
+      for (const [name, { expected, actual, diff }] of images) {
+        if (!expected || !actual) continue;
+        found.set(expected, {
+          status: diff ? 'changed' : 'new',
+          name,
+          project: test.parent.project()?.name ?? '',
+          test: test.titlePath().filter(Boolean).slice(1).join(' › '),
+          baseline: expected,
+          actual,
+          diff,
+        });
+      }
+    }
+    this.changes.set(test.id, found);
+  }
+
+  onEnd(): void {
+    const changes = [...this.changes.values()].flatMap((byBaseline) => [...byBaseline.values()]);
+    if (changes.length === 0) return;
+
+    fs.mkdirSync(path.dirname(this.outputFile), { recursive: true });
+    fs.writeFileSync(this.outputFile, `${JSON.stringify(changes, null, 2)}\n`);
+
+    const changed = changes.filter((change) => change.status === 'changed').length;
+    // eslint-disable-next-line no-console
+    console.warn(
+      `[visual] ${changed} screenshot(s) differ from their baselines, ${changes.length - changed} new — ` +
+        'review with `npm run visual:review`, accept with `npm run visual:review -- --approve`.',
+    );
+  }
+
+  printsToStdio(): boolean {
+    return false;
+  }
+}
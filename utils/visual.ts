@@ -0,0 +1,112 @@
+import { Locator, Page, expect } from '@playwright/test';
+import { Timeouts } from './timeouts';
+
+/**
+ * Visual Regression
+ *
+ * Screenshot comparisons that hold still. Before each screenshot the page
+ * is stabilized — network idle, web fonts loaded — and the capture itself
+ * freezes CSS animations and transitions, hides the text caret, and
+ * paints masked regions (timestamps, avatars, ads) as solid boxes, so only
+ * real UI changes produce a diff.
+ *
+ * Baselines live per browser project and platform (see `toHaveScreenshot`
+ * in playwright.config.ts):
+ *
+ *   tests/__screenshots__/<platform>/<project>/<spec path>/<name>.png
+ *
+ * A missing baseline is written by the first run, which fails so the new
+ * screenshot gets reviewed and committed; the @visual specs only run when
+ * asked for (npm run test:visual or VISUAL_TESTS=true) for that reason.
+ * When a screenshot differs, the visual reporter records it in
+ * test-results/visual-changes.json; `npm run visual:review` lists the
+ * changes with their diffs and `npm run visual:review -- --approve`
+ * accepts them as the new baselines.
+ *
+ * Page objects use this through BasePage.expectVisual(), which adds the
+ * page object's default masks.
+ *
+ * @see https://playwright.dev/docs/test-snapshots
+ */
+
+/** How to capture and compare a screenshot. */
+export interface VisualOptions {
+  /** Regions to paint over, e.g. timestamps and avatars */
+  mask?: Locator[];
+  /** Capture only this element instead of the page */
+  target?: Locator;
+  /** Capture the full scrollable page (page screenshots only; default false) */
+  fullPage?: boolean;
+  /** Wait for the network to go idle first (default true; turn off for pages that poll) */
+  waitForNetworkIdle?: boolean;
+  /** Share of pixels allowed to differ, 0–1 (default 0) */
+  maxDiffPixelRatio?: number;
+  /** Number of pixels allowed to differ (default 0) */
+  maxDiffPixels?: number;
+  /** Per-pixel color tolerance, 0–1 (default 0.2) */
+  threshold?: number;
+}
+
+/** A screenshot that did not match its baseline, as recorded by the visual reporter. */
+export interface VisualChange {
+  /** 'changed': the baseline differs; 'new': the baseline was missing and has just been written */
+  status: 'changed' | 'new';
+  /** Screenshot name, e.g. 'home.png' */
+  name: string;
+  /** Browser project, e.g. 'chromium' */
+  project: string;
+  /** Test title path, e.g. 'visual.spec.ts › Home › matches the baseline' */
+  test: string;
+  /** The baseline image */
+  baseline: string;
+  /** The screenshot taken in this run */
+  actual: string;
+  /** Highlighted differences ('changed' only) */
+  diff?: string;
+}
+
+/** Where the visual reporter records the run's changes, relative to the output dir. */
+export const VISUAL_CHANGES_FILE = 'visual-changes.json';
+
+/** Color masked regions are painted with — loud, so masks are obvious in the baseline. */
+const MASK_COLOR = '#FF00FF';
+
+/**
+ * Wait until a page is ready to be captured: network idle (optional) and
+ * web fonts loaded, so text is not captured in a fallback font.
+ */
+export async function stabilizeForScreenshot(page: Page, options: Pick<VisualOptions, 'waitForNetworkIdle'> = {}): Promise<void> {
+  if (options.waitForNetworkIdle ?? true) {
+    await page.waitForLoadState('networkidle', { timeout: Timeouts.NAVIGATION });
+  }
+  await page.evaluate('document.fonts.ready.then(() => undefined)');
+}
+
+/**
+ * Compare a screenshot of a page (or one element) with its baseline.
+ *
+ * @param page - The page to capture
+ * @param name - Baseline name, without extension (e.g. 'login-form')
+ * @param options - Masks, target element and comparison tolerances
+ *
+ * @example
+ *   await expectVisual(page, 'dashboard', { mask: [page.getByTestId('last-updated')] });
+ *   await expectVisual(page, 'user-menu', { target: page.getByRole('menu') });
+ */
+export async function expectVisual(page: Page, name: string, options: VisualOptions = {}): Promise<void> {
+  const { target, waitForNetworkIdle, fullPage, ...comparison } = options;
+  await stabilizeForScreenshot(page, { waitForNetworkIdle });
+
+  const screenshot = {
+    animations: 'disabled',
+    caret: 'hide',
+    scale: 'css',
+    maskColor: MASK_COLOR,
+    ...comparison,
+  } as const;
+  if (target) {
+    await expect(target).toHaveScreenshot(`${name}.png`, screenshot);
+  } else {
+    await expect(page).toHaveScreenshot(`${name}.png`, { ...screenshot, fullPage });
+  }
+}